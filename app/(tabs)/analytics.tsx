@@ -1,15 +1,23 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ScrollView, Text, View, Dimensions, ActivityIndicator, TouchableOpacity } from 'react-native';
 import { PieChart, BarChart } from 'react-native-chart-kit';
-import { useFocusEffect } from 'expo-router';
+import { router, useFocusEffect } from 'expo-router';
 import { ScreenContainer } from '@/components/screen-container';
 import { useColors } from '@/hooks/use-colors';
-import { loadCategories, getEntriesByMonth } from '@/lib/storage';
-import { Category, KakeiboEntry } from '@/types/kakeibo';
+import {
+  loadCategories,
+  getEntriesByMonth,
+  getEntriesInRange,
+  getMonthKey,
+  loadReflections,
+} from '@/lib/storage';
+import { calculateMonthlySummary } from '@/lib/summary';
+import { isReviewed } from '@/lib/reflection';
+import { Category, KakeiboEntry, MonthlyReflection } from '@/types/kakeibo';
 
 /**
  * 分析画面
- * カテゴリ別円グラフ、月ごとの支出推移グラフを表示
+ * カテゴリ別円グラフ、月ごとの支出推移グラフ、月内の記録一覧、振り返りの履歴を表示
  */
 export default function AnalyticsScreen() {
   const colors = useColors();
@@ -18,18 +26,21 @@ export default function AnalyticsScreen() {
   const [currentYear, setCurrentYear] = useState(new Date().getFullYear());
   const [currentMonth, setCurrentMonth] = useState(new Date().getMonth() + 1);
   const [monthlyEntries, setMonthlyEntries] = useState<KakeiboEntry[]>([]);
+  const [reflections, setReflections] = useState<MonthlyReflection[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   // データを読み込み
   const loadData = async () => {
     try {
-      const [loadedCategories, entries] = await Promise.all([
+      const [loadedCategories, entries, loadedReflections] = await Promise.all([
         loadCategories(),
         getEntriesByMonth(currentYear, currentMonth),
+        loadReflections(),
       ]);
 
       setCategories(loadedCategories);
       setMonthlyEntries(entries);
+      setReflections(loadedReflections);
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
@@ -68,52 +79,21 @@ export default function AnalyticsScreen() {
     }
   };
 
-  // カテゴリ別集計（カテゴリ名で集計）
-  const getCategoryData = () => {
-    const categoryMap = new Map<string, { name: string; color: string; amount: number }>();
-    
-    // デフォルトカテゴリを初期化
-    categories.forEach((cat) => {
-      categoryMap.set(cat.name, { name: cat.name, color: cat.color, amount: 0 });
-    });
-
-    // エントリをカテゴリ別に集計
-    monthlyEntries.forEach((entry) => {
-      const categoryName = entry.categoryName || entry.categoryId || 'その他';
-      
-      if (!categoryMap.has(categoryName)) {
-        // 未知のカテゴリは「その他」に集約
-        const otherCat = categoryMap.get('その他');
-        if (otherCat) {
-          otherCat.amount += entry.amount;
-        }
-      } else {
-        const cat = categoryMap.get(categoryName);
-        if (cat) {
-          cat.amount += entry.amount;
-        }
-      }
-    });
-
-    return Array.from(categoryMap.values())
-      .filter((item) => item.amount > 0)
-      .sort((a, b) => b.amount - a.amount);
-  };
+  // 月次サマリー（支出はカテゴリIDで集計、収入は収支の計算のみに使う）
+  const summary = calculateMonthlySummary(monthlyEntries, categories, currentYear, currentMonth);
 
   // 円グラフデータ
-  const pieChartData = getCategoryData().map((item) => ({
-    name: item.name,
+  const pieChartData = summary.categoryBreakdown.map((item) => ({
+    name: item.categoryName,
     amount: item.amount,
-    color: item.color,
+    color: item.categoryColor,
     legendFontColor: colors.foreground,
     legendFontSize: 12,
   }));
 
-  // 過去6ヶ月の支出推移データ
+  // 過去6ヶ月の支出推移データ（期間内の月だけをまとめて読み込む）
   const getMonthlyTrendData = async () => {
-    const data = [];
-    const labels = [];
-
+    const months: { year: number; month: number }[] = [];
     for (let i = 5; i >= 0; i--) {
       let year = currentYear;
       let month = currentMonth - i;
@@ -123,14 +103,28 @@ export default function AnalyticsScreen() {
         year -= 1;
       }
 
-      const entries = await getEntriesByMonth(year, month);
-      const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
-
-      data.push(total);
-      labels.push(`${month}月`);
+      months.push({ year, month });
     }
 
-    return { data, labels };
+    const first = months[0];
+    const daysInCurrentMonth = new Date(currentYear, currentMonth, 0).getDate();
+    const entries = await getEntriesInRange(
+      `${first.year}-${String(first.month).padStart(2, '0')}-01`,
+      `${currentYear}-${String(currentMonth).padStart(2, '0')}-${daysInCurrentMonth}`
+    );
+
+    const totals = new Map<string, number>();
+    entries
+      .filter((entry) => entry.type !== 'income')
+      .forEach((entry) => {
+        const key = getMonthKey(entry.date);
+        totals.set(key, (totals.get(key) ?? 0) + entry.amount);
+      });
+
+    return {
+      data: months.map(({ year, month }) => totals.get(`${year}-${String(month).padStart(2, '0')}`) ?? 0),
+      labels: months.map(({ month }) => `${month}月`),
+    };
   };
 
   const [trendData, setTrendData] = useState<{ data: number[]; labels: string[] }>({
@@ -142,8 +136,6 @@ export default function AnalyticsScreen() {
     getMonthlyTrendData().then(setTrendData);
   }, [currentYear, currentMonth]);
 
-  const totalAmount = monthlyEntries.reduce((sum, entry) => sum + entry.amount, 0);
-
   if (isLoading) {
     return (
       <ScreenContainer className="items-center justify-center">
@@ -201,11 +193,40 @@ export default function AnalyticsScreen() {
           <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
             <Text className="text-sm text-muted mb-2">今月の支出総額</Text>
             <Text className="text-4xl font-bold text-foreground">
-              ¥{totalAmount.toLocaleString()}
+              ¥{summary.totalAmount.toLocaleString()}
             </Text>
             <Text className="text-sm text-muted mt-2">{monthlyEntries.length}件の記録</Text>
           </View>
 
+          {/* 収支 */}
+          <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
+            <Text className="text-lg font-semibold text-foreground mb-4">収支</Text>
+            <View className="flex-row justify-between mb-2">
+              <Text className="text-sm text-muted">収入</Text>
+              <Text className="text-sm font-semibold" style={{ color: colors.success }}>
+                ¥{summary.totalIncome.toLocaleString()}
+              </Text>
+            </View>
+            <View className="flex-row justify-between mb-2">
+              <Text className="text-sm text-muted">支出</Text>
+              <Text className="text-sm font-semibold text-foreground">
+                ¥{summary.totalAmount.toLocaleString()}
+              </Text>
+            </View>
+            <View className="flex-row justify-between pt-2 border-t border-border">
+              <Text className="text-sm text-muted">残高</Text>
+              <Text
+                className="text-xl font-bold"
+                style={{ color: summary.balance < 0 ? colors.error : colors.foreground }}
+              >
+                ¥{summary.balance.toLocaleString()}
+              </Text>
+            </View>
+            <Text className="text-xs text-muted mt-2 text-right">
+              貯蓄率 {summary.totalIncome > 0 ? `${summary.savingsRate.toFixed(0)}%` : '—'}
+            </Text>
+          </View>
+
           {/* カテゴリ別円グラフ */}
           {pieChartData.length > 0 ? (
             <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
@@ -271,6 +292,103 @@ export default function AnalyticsScreen() {
             </View>
           )}
 
+          {/* この月の記録 */}
+          {monthlyEntries.length > 0 && (
+            <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
+              <Text className="text-lg font-semibold text-foreground mb-4">この月の記録</Text>
+              {[...monthlyEntries]
+                .sort((a, b) => b.date.localeCompare(a.date))
+                .map((entry) => {
+                  const category = categories.find((c) => c.id === entry.categoryId);
+                  return (
+                    <TouchableOpacity
+                      key={entry.id}
+                      className="flex-row items-center justify-between mb-3"
+                      activeOpacity={0.7}
+                      onPress={() => router.push(`/entry/${entry.id}`)}
+                    >
+                      <View className="flex-1">
+                        <Text className="text-sm font-semibold text-foreground">{entry.itemName}</Text>
+                        <Text className="text-xs text-muted mt-1">
+                          {entry.date} • {category?.name || entry.categoryName || 'その他'}
+                          {entry.splits && ` ほか${entry.splits.length - 1}カテゴリ`}
+                        </Text>
+                      </View>
+                      <Text
+                        className="text-sm font-semibold"
+                        style={{ color: entry.type === 'income' ? colors.success : colors.foreground }}
+                      >
+                        {entry.type === 'income' ? '+' : ''}¥{entry.amount.toLocaleString()}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+            </View>
+          )}
+
+          {/* 振り返りの履歴 */}
+          <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
+            <View className="flex-row items-center justify-between mb-4">
+              <Text className="text-lg font-semibold text-foreground">振り返り</Text>
+              <TouchableOpacity
+                onPress={() =>
+                  router.push(`/reflection/${currentYear}-${String(currentMonth).padStart(2, '0')}`)
+                }
+              >
+                <Text className="text-sm font-semibold" style={{ color: colors.primary }}>
+                  {currentMonth}月を振り返る
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {reflections.length === 0 ? (
+              <Text className="text-sm text-muted text-center py-4">まだ振り返りがありません</Text>
+            ) : (
+              reflections.map((reflection) => {
+                const [year, month] = reflection.month.split('-').map(Number);
+                const achieved =
+                  reflection.savingsGoal !== undefined &&
+                  reflection.savedAmount !== undefined &&
+                  reflection.savedAmount >= reflection.savingsGoal;
+                return (
+                  <TouchableOpacity
+                    key={reflection.id}
+                    className="mb-3"
+                    activeOpacity={0.7}
+                    onPress={() => router.push(`/reflection/${reflection.month}`)}
+                  >
+                    <View className="flex-row items-center justify-between">
+                      <Text className="text-sm font-semibold text-foreground">
+                        {year}年{month}月
+                      </Text>
+                      <Text
+                        className="text-xs"
+                        style={{
+                          color: !isReviewed(reflection)
+                            ? colors.muted
+                            : achieved
+                              ? colors.success
+                              : colors.warning,
+                        }}
+                      >
+                        {!isReviewed(reflection) ? '未振り返り' : achieved ? '目標達成' : '目標未達'}
+                      </Text>
+                    </View>
+                    <Text className="text-xs text-muted mt-1">
+                      目標 ¥{(reflection.savingsGoal ?? 0).toLocaleString()}
+                      {reflection.savedAmount !== undefined &&
+                        ` / 実績 ¥${reflection.savedAmount.toLocaleString()}`}
+                    </Text>
+                    {reflection.improvement && (
+                      <Text className="text-xs text-foreground mt-1" numberOfLines={2}>
+                        {reflection.improvement}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </View>
+
           {/* 空の状態 */}
           {monthlyEntries.length === 0 && (
             <View className="items-center justify-center py-12">
@@ -2,27 +2,44 @@ import { useState, useEffect, useCallback } from 'react';
 import { ScrollView, Text, View, TouchableOpacity, RefreshControl, ActivityIndicator } from 'react-native';
 import { router, useFocusEffect } from 'expo-router';
 import { ScreenContainer } from '@/components/screen-container';
+import { BudgetProgressBar } from '@/components/budget-progress-bar';
 import { useColors } from '@/hooks/use-colors';
-import { loadEntries, loadCategories, getEntriesByMonth } from '@/lib/storage';
-import { KakeiboEntry, Category, MonthlySummary } from '@/types/kakeibo';
+import { useSync } from '@/hooks/use-sync';
+import {
+  getRecentEntries,
+  loadCategories,
+  getEntriesByMonth,
+  loadBudgets,
+  loadReflections,
+  materializeRecurringEntries,
+} from '@/lib/storage';
+import { calculateMonthlySummary } from '@/lib/summary';
+import { calculateBudgetProgress } from '@/lib/budget';
+import { getReflectionPrompt, ReflectionPrompt } from '@/lib/reflection';
+import { KakeiboEntry, Category, MonthlySummary, BudgetProgress } from '@/types/kakeibo';
 
 /**
  * ホーム画面
- * 今月の支出総額、カテゴリ別サマリー、最近のスキャン履歴を表示
+ * 今月の支出総額と予算、収支、カテゴリ別サマリー、最近のスキャン履歴を表示
  */
 export default function HomeScreen() {
   const colors = useColors();
   const [entries, setEntries] = useState<KakeiboEntry[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [monthlySummary, setMonthlySummary] = useState<MonthlySummary | null>(null);
+  const [budgetProgress, setBudgetProgress] = useState<BudgetProgress[]>([]);
+  const [reflectionPrompt, setReflectionPrompt] = useState<ReflectionPrompt | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
   // データを読み込み
   const loadData = async () => {
     try {
+      // 日付をまたいで開いたままでも、発生日を迎えた定期記録を反映する
+      await materializeRecurringEntries();
+
       const [loadedEntries, loadedCategories] = await Promise.all([
-        loadEntries(),
+        getRecentEntries(3),
         loadCategories(),
       ]);
 
@@ -34,9 +51,22 @@ export default function HomeScreen() {
       const currentYear = now.getFullYear();
       const currentMonth = now.getMonth() + 1;
 
-      const monthlyEntries = await getEntriesByMonth(currentYear, currentMonth);
+      const previous = new Date(currentYear, currentMonth - 2, 1);
+      const [monthlyEntries, previousEntries, budgets, reflections] = await Promise.all([
+        getEntriesByMonth(currentYear, currentMonth),
+        getEntriesByMonth(previous.getFullYear(), previous.getMonth() + 1),
+        loadBudgets(),
+        loadReflections(),
+      ]);
       const summary = calculateMonthlySummary(monthlyEntries, loadedCategories, currentYear, currentMonth);
       setMonthlySummary(summary);
+
+      // 予算の進捗（繰り越しのため前月の記録も使う）
+      const monthKey = `${currentYear}-${String(currentMonth).padStart(2, '0')}`;
+      setBudgetProgress(calculateBudgetProgress(budgets, monthlyEntries, previousEntries, monthKey));
+
+      // 月初の目標設定・月末の振り返りの促し
+      setReflectionPrompt(getReflectionPrompt(reflections, now));
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
@@ -45,64 +75,8 @@ export default function HomeScreen() {
     }
   };
 
-  // 月次サマリーを計算
-  const calculateMonthlySummary = (
-    entries: KakeiboEntry[],
-    categories: Category[],
-    year: number,
-    month: number
-  ): MonthlySummary => {
-    const totalAmount = entries.reduce((sum, entry) => sum + entry.amount, 0);
-
-    // カテゴリ別の集計（カテゴリ名で集計）
-    const categoryMap = new Map<string, { name: string; color: string; amount: number }>();
-    
-    // デフォルトカテゴリを初期化
-    categories.forEach((cat) => {
-      categoryMap.set(cat.name, { name: cat.name, color: cat.color, amount: 0 });
-    });
-
-    // エントリをカテゴリ別に集計
-    entries.forEach((entry) => {
-      const categoryName = entry.categoryName || entry.categoryId || 'その他';
-      
-      if (!categoryMap.has(categoryName)) {
-        // 未知のカテゴリは「その他」に集約
-        const otherCat = categoryMap.get('その他');
-        if (otherCat) {
-          otherCat.amount += entry.amount;
-        }
-      } else {
-        const cat = categoryMap.get(categoryName);
-        if (cat) {
-          cat.amount += entry.amount;
-        }
-      }
-    });
-
-    const categoryBreakdown = Array.from(categoryMap.entries())
-      .map(([name, data]) => ({
-        categoryId: name,
-        categoryName: data.name,
-        categoryColor: data.color,
-        amount: data.amount,
-        percentage: totalAmount > 0 ? (data.amount / totalAmount) * 100 : 0,
-      }))
-      .filter((item) => item.amount > 0)
-      .sort((a, b) => b.amount - a.amount);
-
-    const daysInMonth = new Date(year, month, 0).getDate();
-    const averageDailySpending = totalAmount / daysInMonth;
-
-    return {
-      year,
-      month,
-      totalAmount,
-      categoryBreakdown,
-      entryCount: entries.length,
-      averageDailySpending,
-    };
-  };
+  // ログイン中はサーバーと同期し、他の端末での変更を受信したら再読み込み
+  const { syncNow } = useSync({ onPulled: loadData });
 
   // 画面がフォーカスされたときにデータを再読み込み
   useFocusEffect(
@@ -120,6 +94,7 @@ export default function HomeScreen() {
   const handleRefresh = () => {
     setIsRefreshing(true);
     loadData();
+    syncNow().catch((error) => console.warn('Sync failed:', error));
   };
 
   // スキャン画面へ遷移
@@ -127,6 +102,18 @@ export default function HomeScreen() {
     router.push('/scan');
   };
 
+  // 収入の手入力画面へ遷移
+  const handleAddIncome = () => {
+    router.push('/entry/new?type=income');
+  };
+
+  // 記録の詳細・編集画面へ遷移
+  const handleOpenEntry = (id: string) => {
+    router.push(`/entry/${id}`);
+  };
+
+  const totalBudget = budgetProgress.find((p) => p.categoryId === null);
+
   if (isLoading) {
     return (
       <ScreenContainer className="items-center justify-center">
@@ -154,6 +141,27 @@ export default function HomeScreen() {
             </Text>
           </View>
 
+          {/* 目標設定・振り返りの促し */}
+          {reflectionPrompt && (
+            <TouchableOpacity
+              className="w-full rounded-2xl p-4 border"
+              style={{ borderColor: colors.primary }}
+              activeOpacity={0.7}
+              onPress={() => router.push(`/reflection/${reflectionPrompt.month}`)}
+            >
+              <Text className="text-base font-semibold" style={{ color: colors.primary }}>
+                {reflectionPrompt.type === 'goal'
+                  ? '今月の目標を立てましょう'
+                  : `${Number(reflectionPrompt.month.slice(5))}月の振り返りをしましょう`}
+              </Text>
+              <Text className="text-xs text-muted mt-1">
+                {reflectionPrompt.type === 'goal'
+                  ? '今いくらあるか、いくら貯めたいかを記録します'
+                  : '使った金額を確認し、どうすれば改善できるかを記録します'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
           {/* 今月の支出総額 */}
           <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
             <Text className="text-sm text-muted mb-2">今月の支出総額</Text>
@@ -163,32 +171,81 @@ export default function HomeScreen() {
             <Text className="text-sm text-muted mt-2">
               {monthlySummary?.entryCount || 0}件の記録
             </Text>
+            {totalBudget && (
+              <View className="mt-4">
+                <BudgetProgressBar progress={totalBudget} />
+              </View>
+            )}
+          </View>
+
+          {/* 今月の収支 */}
+          <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
+            <View className="flex-row items-center justify-between mb-4">
+              <Text className="text-lg font-semibold text-foreground">今月の収支</Text>
+              <TouchableOpacity onPress={handleAddIncome}>
+                <Text className="text-sm font-semibold" style={{ color: colors.success }}>
+                  ＋ 収入を記録
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <View className="flex-row justify-between mb-2">
+              <Text className="text-sm text-muted">収入</Text>
+              <Text className="text-sm font-semibold" style={{ color: colors.success }}>
+                ¥{(monthlySummary?.totalIncome ?? 0).toLocaleString()}
+              </Text>
+            </View>
+            <View className="flex-row justify-between mb-2">
+              <Text className="text-sm text-muted">支出</Text>
+              <Text className="text-sm font-semibold text-foreground">
+                ¥{(monthlySummary?.totalAmount ?? 0).toLocaleString()}
+              </Text>
+            </View>
+            <View className="flex-row justify-between pt-2 border-t border-border">
+              <Text className="text-sm text-muted">残高</Text>
+              <Text
+                className="text-xl font-bold"
+                style={{ color: (monthlySummary?.balance ?? 0) < 0 ? colors.error : colors.foreground }}
+              >
+                ¥{(monthlySummary?.balance ?? 0).toLocaleString()}
+              </Text>
+            </View>
+            {monthlySummary && monthlySummary.totalIncome > 0 && (
+              <Text className="text-xs text-muted mt-2 text-right">
+                貯蓄率 {monthlySummary.savingsRate.toFixed(0)}%
+              </Text>
+            )}
           </View>
 
           {/* カテゴリ別サマリー */}
           {monthlySummary && monthlySummary.categoryBreakdown.length > 0 && (
             <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
               <Text className="text-lg font-semibold text-foreground mb-4">カテゴリ別支出</Text>
-              {monthlySummary.categoryBreakdown.slice(0, 5).map((item) => (
-                <View key={item.categoryId} className="flex-row items-center mb-3">
-                  <View
-                    style={{
-                      width: 12,
-                      height: 12,
-                      borderRadius: 6,
-                      backgroundColor: item.categoryColor,
-                      marginRight: 8,
-                    }}
-                  />
-                  <Text className="flex-1 text-sm text-foreground">{item.categoryName}</Text>
-                  <Text className="text-sm font-semibold text-foreground">
-                    ¥{item.amount.toLocaleString()}
-                  </Text>
-                  <Text className="text-xs text-muted ml-2">
-                    {item.percentage.toFixed(0)}%
-                  </Text>
-                </View>
-              ))}
+              {monthlySummary.categoryBreakdown.slice(0, 5).map((item) => {
+                const progress = budgetProgress.find((p) => p.categoryId === item.categoryId);
+                return (
+                  <View key={item.categoryId} className="mb-3 gap-1">
+                    <View className="flex-row items-center">
+                      <View
+                        style={{
+                          width: 12,
+                          height: 12,
+                          borderRadius: 6,
+                          backgroundColor: item.categoryColor,
+                          marginRight: 8,
+                        }}
+                      />
+                      <Text className="flex-1 text-sm text-foreground">{item.categoryName}</Text>
+                      <Text className="text-sm font-semibold text-foreground">
+                        ¥{item.amount.toLocaleString()}
+                      </Text>
+                      <Text className="text-xs text-muted ml-2">
+                        {item.percentage.toFixed(0)}%
+                      </Text>
+                    </View>
+                    {progress && <BudgetProgressBar progress={progress} />}
+                  </View>
+                );
+              })}
             </View>
           )}
 
@@ -196,20 +253,29 @@ export default function HomeScreen() {
           {entries.length > 0 && (
             <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
               <Text className="text-lg font-semibold text-foreground mb-4">最近のスキャン</Text>
-              {entries.slice(0, 3).map((entry) => {
+              {entries.map((entry) => {
                 const category = categories.find((c) => c.id === entry.categoryId);
                 return (
-                  <View key={entry.id} className="flex-row items-center justify-between mb-3">
+                  <TouchableOpacity
+                    key={entry.id}
+                    className="flex-row items-center justify-between mb-3"
+                    activeOpacity={0.7}
+                    onPress={() => handleOpenEntry(entry.id)}
+                  >
                     <View className="flex-1">
                       <Text className="text-sm font-semibold text-foreground">{entry.itemName}</Text>
                       <Text className="text-xs text-muted mt-1">
                         {entry.date} • {category?.name || 'その他'}
+                        {entry.splits && ` ほか${entry.splits.length - 1}カテゴリ`}
                       </Text>
                     </View>
-                    <Text className="text-sm font-semibold text-foreground">
-                      ¥{entry.amount.toLocaleString()}
+                    <Text
+                      className="text-sm font-semibold"
+                      style={{ color: entry.type === 'income' ? colors.success : colors.foreground }}
+                    >
+                      {entry.type === 'income' ? '+' : ''}¥{entry.amount.toLocaleString()}
                     </Text>
-                  </View>
+                  </TouchableOpacity>
                 );
               })}
             </View>
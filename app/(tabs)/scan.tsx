@@ -1,28 +1,96 @@
 import { useState, useRef } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, Platform } from 'react-native';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  LayoutChangeEvent,
+} from 'react-native';
 import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
 import * as ImagePicker from 'expo-image-picker';
 import * as Haptics from 'expo-haptics';
+import * as Linking from 'expo-linking';
 import { router } from 'expo-router';
 import { ScreenContainer } from '@/components/screen-container';
 import { useColors } from '@/hooks/use-colors';
-import { analyzeKakeiboImage } from '@/lib/ai-analysis';
-import { addEntry } from '@/lib/storage';
-import { KakeiboEntry } from '@/types/kakeibo';
+import { useAuth } from '@/hooks/use-auth';
+import { useScanSession } from '@/hooks/use-scan-session';
+import { ScanPageTray } from '@/components/scan-page-tray';
+import { SegmentedControl } from '@/components/segmented-control';
+import { MAX_SCAN_PAGES, mergeScanPages, ScanMode, setScanDraft } from '@/lib/scan-draft';
+import { cropToScanGuide, ImageSize, SCAN_GUIDE } from '@/lib/image-preprocess';
+import { getLoginUrl } from '@/constants/oauth';
+import { trpc } from '@/lib/trpc';
+
+const SCAN_MODE_OPTIONS: { value: ScanMode; label: string }[] = [
+  { value: 'handwritten', label: '手書き' },
+  { value: 'receipt', label: 'レシート' },
+];
 
 /**
  * スキャン画面
- * カメラで家計簿を撮影し、AI解析を実行
- * Web環境では画像選択のみ対応
+ * カメラで家計簿を撮影（複数ページ可）し、1枚ずつAI解析してから結果確認画面へ遷移
+ * 手書きの家計簿とレシートを切り替えられる（切り替えた後に追加したページから反映）
+ * Web環境では画像選択のみ対応。AI解析はサーバーで行うためログインが必要
  */
 export default function ScanScreen() {
   const colors = useColors();
+  const { isAuthenticated, loading: isAuthLoading } = useAuth();
+  const usageQuery = trpc.analysis.usage.useQuery(undefined, { enabled: isAuthenticated });
   const [facing, setFacing] = useState<CameraType>('back');
   const [permission, requestPermission] = useCameraPermissions();
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [mode, setMode] = useState<ScanMode>('handwritten');
+  const [previewSize, setPreviewSize] = useState<ImageSize | null>(null);
+  const {
+    pages,
+    completedPages,
+    doneCount,
+    isAnalyzing,
+    canAddPages,
+    addPages,
+    removePage,
+    retryPage,
+    reset,
+  } = useScanSession();
+
+  // 今月のAI解析の残り回数（解析待ちのページの分も差し引く）
+  const usage = usageQuery.data;
+  const pendingCount = pages.filter(
+    (page) => page.status === 'pending' || page.status === 'analyzing'
+  ).length;
+  const remainingScans = usage ? Math.max(0, usage.quota - usage.scans - pendingCount) : null;
+  const quotaText = usage ? `今月のAI解析 残り${Math.max(0, usage.quota - usage.scans)}回` : null;
   const cameraRef = useRef<CameraView>(null);
   const isWeb = Platform.OS === 'web';
 
+  if (isAuthLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <ScreenContainer className="items-center justify-center p-6">
+        <Text className="text-lg text-foreground text-center mb-4">
+          AI解析を使うにはログインしてください
+        </Text>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.primary }]}
+          onPress={() => Linking.openURL(getLoginUrl())}
+        >
+          <Text className="text-background font-semibold">ログイン</Text>
+        </TouchableOpacity>
+      </ScreenContainer>
+    );
+  }
+
   // Web環境ではカメラ権限チェックをスキップ
   if (!isWeb) {
     // カメラ権限の確認
@@ -51,11 +119,30 @@ export default function ScanScreen() {
     }
   }
 
-  // カメラで撮影
+  const alertQuotaExceeded = () => {
+    const resetsAt = usage?.resetsAt;
+    Alert.alert(
+      'AI解析の上限',
+      `今月のAI解析の上限（${usage?.quota ?? 0}回）に達しました。` +
+        (resetsAt ? `${resetsAt.getMonth() + 1}月1日から再び利用できます。` : '')
+    );
+  };
+
+  // カメラで撮影（撮影したページは解析待ちに追加し、続けて撮影できる）
   const handleTakePhoto = async () => {
-    if (!cameraRef.current || isAnalyzing) return;
+    if (!cameraRef.current || isCapturing) return;
+
+    if (!canAddPages) {
+      Alert.alert('スキャン', `一度に読み込めるのは${MAX_SCAN_PAGES}ページまでです`);
+      return;
+    }
+    if (remainingScans === 0) {
+      alertQuotaExceeded();
+      return;
+    }
 
     try {
+      setIsCapturing(true);
       if (Platform.OS !== 'web') {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
       }
@@ -65,26 +152,44 @@ export default function ScanScreen() {
       });
 
       if (photo) {
-        await analyzeImage(photo.uri);
+        // ガイド枠の外（机や周りの物）は解析に送らない
+        const imageUri = previewSize ? await cropToScanGuide(photo.uri, previewSize) : photo.uri;
+        addPages([imageUri], mode);
       }
     } catch (error) {
       console.error('Photo capture error:', error);
       Alert.alert('エラー', '写真の撮影に失敗しました');
+    } finally {
+      setIsCapturing(false);
     }
   };
 
-  // ギャラリーから選択
+  // ギャラリーから選択（複数選択可）
   const handlePickImage = async () => {
-    if (isAnalyzing) return;
+    if (!canAddPages) {
+      Alert.alert('スキャン', `一度に読み込めるのは${MAX_SCAN_PAGES}ページまでです`);
+      return;
+    }
+    if (remainingScans === 0) {
+      alertQuotaExceeded();
+      return;
+    }
 
     try {
+      const remaining = Math.min(MAX_SCAN_PAGES - pages.length, remainingScans ?? MAX_SCAN_PAGES);
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ['images'],
         quality: 0.8,
+        allowsMultipleSelection: true,
+        selectionLimit: remaining,
+        orderedSelection: true,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        await analyzeImage(result.assets[0].uri);
+      if (!result.canceled && result.assets.length > 0) {
+        const added = addPages(result.assets.map((asset) => asset.uri), mode);
+        if (added < result.assets.length) {
+          Alert.alert('スキャン', `${MAX_SCAN_PAGES}ページを超えた分は読み込みませんでした`);
+        }
       }
     } catch (error) {
       console.error('Image picker error:', error);
@@ -92,70 +197,83 @@ export default function ScanScreen() {
     }
   };
 
-  // 画像を解析
-  const analyzeImage = async (imageUri: string) => {
-    setIsAnalyzing(true);
+  // ガイド枠の切り抜き範囲の計算に使う
+  const handlePreviewLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setPreviewSize({ width, height });
+  };
 
-    try {
-      // AI解析を実行
-      const result = await analyzeKakeiboImage(imageUri);
+  // 取り除くページを確認
+  const handleRemovePage = (id: string) => {
+    Alert.alert('ページを取り除く', 'このページをスキャンから取り除きますか?', [
+      { text: 'キャンセル', style: 'cancel' },
+      { text: '取り除く', style: 'destructive', onPress: () => removePage(id) },
+    ]);
+  };
 
-      if (result.entries.length === 0) {
-        Alert.alert('解析結果', '家計簿のデータが見つかりませんでした。もう一度お試しください。');
-        setIsAnalyzing(false);
-        return;
-      }
+  // 解析済みのページをまとめて結果確認画面へ
+  const openReview = () => {
+    const { rows } = mergeScanPages(completedPages);
+    const hasReceipts = completedPages.some((page) => page.mode === 'receipt');
+    if (rows.length === 0 && !hasReceipts) {
+      Alert.alert('解析結果', '家計簿のデータが見つかりませんでした。もう一度お試しください。');
+      return;
+    }
 
-      // 解析結果を保存
-      console.log('AI解析結果:', JSON.stringify(result, null, 2));
-      
-      for (const entry of result.entries) {
-        // AIが推測したカテゴリ名を正規化
-        const categoryName = entry.suggestedCategory || 'その他';
-        console.log(`項目: ${entry.itemName}, 推測カテゴリ: ${categoryName}`);
-        
-        const kakeiboEntry: KakeiboEntry = {
-          id: `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          date: entry.date,
-          itemName: entry.itemName,
-          amount: entry.amount,
-          categoryId: categoryName, // AIが推測したカテゴリ名をそのまま使用
-          categoryName: categoryName,
-          imageUri,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
-
-        console.log('保存するエントリ:', JSON.stringify(kakeiboEntry, null, 2));
-        await addEntry(kakeiboEntry);
-      }
-      
-      console.log(`${result.entries.length}件のデータを保存しました`)
+    // 結果確認・編集画面で確認してから保存する
+    setScanDraft({ pages: completedPages });
+    reset();
 
-      // 成功のハプティックフィードバック
-      if (Platform.OS !== 'web') {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      }
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
 
-      // ホーム画面に戻る
-      Alert.alert(
-        '解析完了',
-        `${result.entries.length}件のデータを保存しました`,
-        [
-          {
-            text: 'OK',
-            onPress: () => router.push('/'),
-          },
-        ]
-      );
-    } catch (error) {
-      console.error('Analysis error:', error);
-      Alert.alert('エラー', 'AI解析に失敗しました。インターネット接続を確認してください。');
-    } finally {
-      setIsAnalyzing(false);
+    router.push('/scan-review');
+  };
+
+  const handleReview = () => {
+    if (isAnalyzing) return;
+
+    const failedCount = pages.length - doneCount;
+    if (failedCount === 0) {
+      openReview();
+      return;
     }
+
+    Alert.alert(
+      '解析に失敗したページがあります',
+      [
+        `${failedCount}ページの解析に失敗しました。`,
+        ...new Set(pages.flatMap((page) => (page.error ? [page.error] : []))),
+        '失敗したページはタップすると再解析できます。解析できたページだけで確認しますか?',
+      ].join('\n'),
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        { text: '確認へ進む', onPress: openReview },
+      ]
+    );
   };
 
+  const progressText = isAnalyzing
+    ? `AI解析中... ${doneCount}/${pages.length}ページ`
+    : `${doneCount}/${pages.length}ページを解析しました`;
+
+  const reviewButton = (
+    <TouchableOpacity
+      style={[styles.reviewButton, { backgroundColor: isAnalyzing ? colors.muted : colors.primary }]}
+      onPress={handleReview}
+      disabled={isAnalyzing}
+    >
+      <Text className="text-background font-semibold">
+        {isAnalyzing ? '解析中...' : `結果を確認（${pages.length}ページ）`}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const modeToggle = (
+    <SegmentedControl options={SCAN_MODE_OPTIONS} value={mode} onChange={setMode} />
+  );
+
   // Web環境では画像選択のみ表示
   if (isWeb) {
     return (
@@ -165,39 +283,49 @@ export default function ScanScreen() {
           <View className="items-center gap-2">
             <Text className="text-2xl font-bold text-foreground">家計簿をスキャン</Text>
             <Text className="text-base text-muted text-center">
-              手書き家計簿の画像を選択してください
+              {mode === 'receipt' ? 'レシートの画像を選択してください' : '手書き家計簿の画像を選択してください'}
             </Text>
+            {quotaText && <Text className="text-sm text-muted">{quotaText}</Text>}
           </View>
 
+          {modeToggle}
+
           {/* 画像選択ボタン */}
-          {isAnalyzing ? (
-            <View
-              style={[
-                styles.webButton,
-                { backgroundColor: colors.primary },
-              ]}
-            >
-              <ActivityIndicator size="large" color="#FFFFFF" />
-              <Text className="text-white text-lg mt-4">AI解析中...</Text>
-              <Text className="text-white text-sm mt-2">しばらくお待ちください</Text>
+          <TouchableOpacity
+            style={[
+              styles.webButton,
+              { backgroundColor: canAddPages ? colors.primary : colors.muted },
+            ]}
+            onPress={handlePickImage}
+            disabled={!canAddPages}
+          >
+            <Text className="text-background text-xl font-semibold">
+              {pages.length > 0 ? 'ページを追加' : '画像を選択'}
+            </Text>
+            <Text className="text-background text-sm mt-2">
+              複数ページをまとめて選択できます（{MAX_SCAN_PAGES}ページまで）
+            </Text>
+          </TouchableOpacity>
+
+          {/* 解析の進み具合 */}
+          {pages.length > 0 && (
+            <View className="bg-surface rounded-2xl p-4 border border-border gap-3">
+              <View className="flex-row items-center gap-2">
+                {isAnalyzing && <ActivityIndicator size="small" color={colors.primary} />}
+                <Text className="text-sm text-foreground">{progressText}</Text>
+              </View>
+              <ScanPageTray pages={pages} onRetry={retryPage} onRemove={handleRemovePage} />
+              {reviewButton}
             </View>
-          ) : (
-            <TouchableOpacity
-              style={[
-                styles.webButton,
-                { backgroundColor: colors.primary },
-              ]}
-              onPress={handlePickImage}
-            >
-              <Text className="text-background text-xl font-semibold">画像を選択</Text>
-            </TouchableOpacity>
           )}
 
           {/* 説明 */}
           <View className="bg-surface rounded-2xl p-6 border border-border">
             <Text className="text-sm text-muted leading-relaxed">
               手書き家計簿の写真を選択すると、AIが自動的に日付・項目・金額を認識して、
-              デジタルデータとして保存します。
+              確認・修正したうえでデジタルデータとして保存します。
+              複数ページはまとめて確認でき、ページの重なりで二重に読み取った行は1件にまとめます。
+              レシートは店名・日付・品目・税率ごとの内訳・合計を読み取り、合計の1件か品目ごとに保存できます。
             </Text>
           </View>
         </View>
@@ -208,37 +336,61 @@ export default function ScanScreen() {
   // ネイティブ環境ではカメラプレビューを表示
   return (
     <ScreenContainer edges={['top', 'left', 'right', 'bottom']}>
-      <View className="flex-1">
+      <View className="flex-1" onLayout={handlePreviewLayout}>
         {/* カメラプレビュー */}
         <CameraView
           ref={cameraRef}
           style={StyleSheet.absoluteFill}
           facing={facing}
         >
+          {/* スキャンの種類と今月の残り回数 */}
+          <View style={styles.topContainer}>
+            <View style={styles.modeToggle}>{modeToggle}</View>
+            {quotaText && (
+              <View style={styles.quotaBadge}>
+                <Text className="text-white text-xs">{quotaText}</Text>
+              </View>
+            )}
+          </View>
+
           {/* ガイドライン */}
           <View style={styles.guidelineContainer}>
             <View style={[styles.guideline, { borderColor: colors.primary }]} />
           </View>
 
+          {/* スキャン中のページ */}
+          {pages.length > 0 && (
+            <View style={styles.trayContainer}>
+              <View className="flex-row items-center justify-between gap-2">
+                <View className="flex-row items-center gap-2 flex-1">
+                  {isAnalyzing && <ActivityIndicator size="small" color="#FFFFFF" />}
+                  <Text className="text-white text-sm">{progressText}</Text>
+                </View>
+                {reviewButton}
+              </View>
+              <ScanPageTray pages={pages} onRetry={retryPage} onRemove={handleRemovePage} />
+            </View>
+          )}
+
           {/* コントロール */}
           <View style={styles.controlsContainer}>
             {/* ギャラリーボタン */}
             <TouchableOpacity
               style={[styles.controlButton, { backgroundColor: 'rgba(0,0,0,0.5)' }]}
               onPress={handlePickImage}
-              disabled={isAnalyzing}
+              disabled={!canAddPages}
             >
               <Text className="text-white text-sm">ギャラリー</Text>
             </TouchableOpacity>
 
-            {/* シャッターボタン */}
-            {isAnalyzing ? (
+            {/* シャッターボタン（解析中も続けて撮影できる） */}
+            {isCapturing ? (
               <View style={[styles.shutterButton, { backgroundColor: colors.primary }]}>
                 <ActivityIndicator size="large" color="#FFFFFF" />
               </View>
             ) : (
               <TouchableOpacity
-                style={[styles.shutterButton, { backgroundColor: colors.primary }]}
+                style={[styles.shutterButton, { backgroundColor: canAddPages ? colors.primary : colors.muted }]}
                 onPress={handleTakePhoto}
               >
                 <View style={styles.shutterInner} />
@@ -249,20 +401,11 @@ export default function ScanScreen() {
             <TouchableOpacity
               style={[styles.controlButton, { backgroundColor: 'rgba(0,0,0,0.5)' }]}
               onPress={() => setFacing(facing === 'back' ? 'front' : 'back')}
-              disabled={isAnalyzing}
+              disabled={isCapturing}
             >
               <Text className="text-white text-sm">切替</Text>
             </TouchableOpacity>
           </View>
-
-          {/* 解析中のオーバーレイ */}
-          {isAnalyzing && (
-            <View style={styles.analyzingOverlay}>
-              <ActivityIndicator size="large" color={colors.primary} />
-              <Text className="text-white text-lg mt-4">AI解析中...</Text>
-              <Text className="text-white text-sm mt-2">しばらくお待ちください</Text>
-            </View>
-          )}
         </CameraView>
       </View>
     </ScreenContainer>
@@ -270,15 +413,32 @@ export default function ScanScreen() {
 }
 
 const styles = StyleSheet.create({
+  topContainer: {
+    position: 'absolute',
+    top: 12,
+    alignSelf: 'center',
+    alignItems: 'center',
+    gap: 8,
+    zIndex: 1,
+  },
+  modeToggle: {
+    width: 200,
+  },
+  quotaBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
   guidelineContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
-    padding: 20,
+    padding: SCAN_GUIDE.padding,
   },
   guideline: {
-    width: '90%',
-    height: '70%',
+    width: `${SCAN_GUIDE.widthRatio * 100}%`,
+    height: `${SCAN_GUIDE.heightRatio * 100}%`,
     borderWidth: 2,
     borderRadius: 12,
     borderStyle: 'dashed',
@@ -330,10 +490,19 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 8,
   },
-  analyzingOverlay: {
-    ...StyleSheet.absoluteFillObject,
-    backgroundColor: 'rgba(0,0,0,0.8)',
-    justifyContent: 'center',
-    alignItems: 'center',
+  trayContainer: {
+    position: 'absolute',
+    bottom: 140,
+    left: 12,
+    right: 12,
+    gap: 8,
+    padding: 12,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  reviewButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
   },
 });
@@ -2,17 +2,45 @@ import { useState } from 'react';
 import { ScrollView, Text, View, TouchableOpacity, Alert, Share, Platform } from 'react-native';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as Haptics from 'expo-haptics';
+import * as Linking from 'expo-linking';
+import { router } from 'expo-router';
 import { ScreenContainer } from '@/components/screen-container';
 import { useColors } from '@/hooks/use-colors';
+import { useSync } from '@/hooks/use-sync';
+import { getLoginUrl } from '@/constants/oauth';
 import { generateCSV, clearAllData } from '@/lib/storage';
 
 /**
  * 設定画面
- * CSVエクスポート、データ削除、アプリ情報
+ * カテゴリ管理、予算設定、定期記録、同期、世帯、CSVエクスポート、データ削除、アプリ情報
  */
 export default function SettingsScreen() {
   const colors = useColors();
   const [isExporting, setIsExporting] = useState(false);
+  const { isAuthenticated, isSyncing, lastSyncedAt, syncNow } = useSync();
+
+  // 今すぐ同期
+  const handleSync = async () => {
+    if (isSyncing) return;
+
+    try {
+      const result = await syncNow();
+      if (!result) return;
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+
+      Alert.alert('同期完了', `送信 ${result.pushed}件・受信 ${result.pulled}件`);
+    } catch (error) {
+      console.error('Sync error:', error);
+      Alert.alert('エラー', '同期に失敗しました。通信環境を確認してもう一度お試しください');
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+    }
+  };
 
   // CSVエクスポート
   const handleExportCSV = async () => {
@@ -110,6 +138,178 @@ export default function SettingsScreen() {
             <Text className="text-base text-muted">アプリの設定と管理</Text>
           </View>
 
+          {/* カテゴリ管理セクション */}
+          <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
+            <Text className="text-lg font-semibold text-foreground mb-4">カテゴリ</Text>
+
+            <TouchableOpacity
+              style={{
+                backgroundColor: colors.primary,
+                paddingVertical: 16,
+                paddingHorizontal: 24,
+                borderRadius: 12,
+              }}
+              onPress={() => router.push('/categories')}
+            >
+              <Text className="text-background text-center font-semibold">カテゴリ管理</Text>
+            </TouchableOpacity>
+
+            <Text className="text-xs text-muted mt-2">
+              カテゴリの追加・名前や色の変更・並び替え・削除を行います。
+            </Text>
+
+            <TouchableOpacity
+              style={{
+                borderWidth: 1,
+                borderColor: colors.primary,
+                paddingVertical: 16,
+                paddingHorizontal: 24,
+                borderRadius: 12,
+                marginTop: 16,
+              }}
+              onPress={() => router.push('/learned-categories')}
+            >
+              <Text className="text-center font-semibold" style={{ color: colors.primary }}>
+                学習したカテゴリ
+              </Text>
+            </TouchableOpacity>
+
+            <Text className="text-xs text-muted mt-2">
+              修正した項目名とカテゴリの対応を確認・変更します。次のスキャンから自動で使われます。
+            </Text>
+
+            <TouchableOpacity
+              style={{
+                borderWidth: 1,
+                borderColor: colors.primary,
+                paddingVertical: 16,
+                paddingHorizontal: 24,
+                borderRadius: 12,
+                marginTop: 16,
+              }}
+              onPress={() => router.push('/rules')}
+            >
+              <Text className="text-center font-semibold" style={{ color: colors.primary }}>
+                自動分類ルール
+              </Text>
+            </TouchableOpacity>
+
+            <Text className="text-xs text-muted mt-2">
+              項目名・金額・曜日の条件で、スキャンや定期記録で作成した記録のカテゴリ・タグ・メモを自動で設定します。
+            </Text>
+          </View>
+
+          {/* 予算セクション */}
+          <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
+            <Text className="text-lg font-semibold text-foreground mb-4">予算</Text>
+
+            <TouchableOpacity
+              style={{
+                backgroundColor: colors.primary,
+                paddingVertical: 16,
+                paddingHorizontal: 24,
+                borderRadius: 12,
+              }}
+              onPress={() => router.push('/budgets')}
+            >
+              <Text className="text-background text-center font-semibold">予算設定</Text>
+            </TouchableOpacity>
+
+            <Text className="text-xs text-muted mt-2">
+              月の初めに全体とカテゴリごとの予算を設定します。残額は翌月へ繰り越せます。
+            </Text>
+          </View>
+
+          {/* 定期記録セクション */}
+          <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
+            <Text className="text-lg font-semibold text-foreground mb-4">定期記録</Text>
+
+            <TouchableOpacity
+              style={{
+                backgroundColor: colors.primary,
+                paddingVertical: 16,
+                paddingHorizontal: 24,
+                borderRadius: 12,
+              }}
+              onPress={() => router.push('/recurring')}
+            >
+              <Text className="text-background text-center font-semibold">定期的な支出・収入</Text>
+            </TouchableOpacity>
+
+            <Text className="text-xs text-muted mt-2">
+              家賃・通信費・サブスクリプションなど、毎回撮影しない固定費を自動で記録します。
+            </Text>
+          </View>
+
+          {/* 同期セクション */}
+          <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
+            <Text className="text-lg font-semibold text-foreground mb-4">同期</Text>
+
+            {isAuthenticated ? (
+              <>
+                <TouchableOpacity
+                  style={{
+                    backgroundColor: colors.primary,
+                    paddingVertical: 16,
+                    paddingHorizontal: 24,
+                    borderRadius: 12,
+                  }}
+                  onPress={handleSync}
+                  disabled={isSyncing}
+                >
+                  <Text className="text-background text-center font-semibold">
+                    {isSyncing ? '同期中...' : '今すぐ同期'}
+                  </Text>
+                </TouchableOpacity>
+
+                <Text className="text-xs text-muted mt-2">
+                  {lastSyncedAt
+                    ? `最終同期: ${new Date(lastSyncedAt).toLocaleString('ja-JP')}`
+                    : 'まだ同期していません'}
+                </Text>
+              </>
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={{
+                    backgroundColor: colors.primary,
+                    paddingVertical: 16,
+                    paddingHorizontal: 24,
+                    borderRadius: 12,
+                  }}
+                  onPress={() => Linking.openURL(getLoginUrl())}
+                >
+                  <Text className="text-background text-center font-semibold">ログインして同期</Text>
+                </TouchableOpacity>
+
+                <Text className="text-xs text-muted mt-2">
+                  ログインすると、家計簿とカテゴリを複数の端末で同期できます。オフラインでの変更は次回の同期で送信されます。
+                </Text>
+              </>
+            )}
+          </View>
+
+          {/* 世帯セクション */}
+          <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
+            <Text className="text-lg font-semibold text-foreground mb-4">世帯</Text>
+
+            <TouchableOpacity
+              style={{
+                backgroundColor: colors.primary,
+                paddingVertical: 16,
+                paddingHorizontal: 24,
+                borderRadius: 12,
+              }}
+              onPress={() => router.push('/household')}
+            >
+              <Text className="text-background text-center font-semibold">家族と共有</Text>
+            </TouchableOpacity>
+
+            <Text className="text-xs text-muted mt-2">
+              招待コードで家族を招待し、1つの家計簿を一緒に記録します。
+            </Text>
+          </View>
+
           {/* データ管理セクション */}
           <View className="w-full bg-surface rounded-2xl p-6 shadow-sm border border-border">
             <Text className="text-lg font-semibold text-foreground mb-4">データ管理</Text>
@@ -183,7 +383,7 @@ export default function SettingsScreen() {
               <View>
                 <Text className="text-sm font-semibold text-foreground mb-1">1. 家計簿をスキャン</Text>
                 <Text className="text-xs text-muted">
-                  「スキャン」タブから手書き家計簿を撮影します。AIが自動的に日付・項目・金額を認識します。
+                  「スキャン」タブから手書き家計簿を撮影します（AI解析にはログインが必要です）。AIが自動的に日付・項目・金額を認識します。
                 </Text>
               </View>
 
@@ -216,8 +416,8 @@ export default function SettingsScreen() {
 
             <Text className="text-sm text-muted leading-relaxed">
               Kakeibo Lensは、ユーザーのプライバシーを重視しています。
-              すべての家計簿データは端末内に保存され、外部サーバーには送信されません。
-              AI解析時のみ、画像データが一時的にサーバーに送信されますが、解析後すぐに削除されます。
+              家計簿データは端末内に保存され、ログインして同期した場合のみ、エントリーとカテゴリがサーバーに保存されます。
+              AI解析時は、画像データが一時的にサーバーに送信されますが、解析後すぐに削除されます。
             </Text>
           </View>
         </View>
@@ -18,6 +18,7 @@ import type { EdgeInsets, Metrics, Rect } from "react-native-safe-area-context";
 
 import { trpc, createTRPCClient } from "@/lib/trpc";
 import { initManusRuntime, subscribeSafeAreaInsets } from "@/lib/_core/manus-runtime";
+import { ensureMigrated, materializeRecurringEntries } from "@/lib/storage";
 
 const DEFAULT_WEB_INSETS: EdgeInsets = { top: 0, right: 0, bottom: 0, left: 0 };
 const DEFAULT_WEB_FRAME: Rect = { x: 0, y: 0, width: 0, height: 0 };
@@ -38,6 +39,14 @@ export default function RootLayout() {
     initManusRuntime();
   }, []);
 
+  // Upgrade locally stored ledger data to the current schema version,
+  // then record any recurring entries (rent, subscriptions, ...) that have come due
+  useEffect(() => {
+    ensureMigrated()
+      .then(() => materializeRecurringEntries())
+      .catch((error) => console.error("Failed to create recurring entries:", error));
+  }, []);
+
   const handleSafeAreaUpdate = useCallback((metrics: Metrics) => {
     setInsets(metrics.insets);
     setFrame(metrics.frame);
@@ -87,6 +96,15 @@ export default function RootLayout() {
           <Stack screenOptions={{ headerShown: false }}>
             <Stack.Screen name="(tabs)" />
             <Stack.Screen name="oauth/callback" />
+            <Stack.Screen name="scan-review" />
+            <Stack.Screen name="entry/[id]" />
+            <Stack.Screen name="categories" />
+            <Stack.Screen name="learned-categories" />
+            <Stack.Screen name="rules" />
+            <Stack.Screen name="budgets" />
+            <Stack.Screen name="reflection/[month]" />
+            <Stack.Screen name="recurring" />
+            <Stack.Screen name="household" />
           </Stack>
           <StatusBar style="auto" />
         </QueryClientProvider>
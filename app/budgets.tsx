@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import {
+  ScrollView,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Switch,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { ScreenContainer } from '@/components/screen-container';
+import { CategoryIcon } from '@/components/category-icon';
+import { useColors } from '@/hooks/use-colors';
+import { loadBudgets, loadCategories, setMonthBudgets, getMonthKey } from '@/lib/storage';
+import { previousMonthKey, resolveBudget } from '@/lib/budget';
+import { formatDate } from '@/lib/entry-form';
+import { Budget, Category } from '@/types/kakeibo';
+
+/**
+ * 編集中の予算（amountは入力中の文字列、空欄は予算なし）
+ */
+interface BudgetDraft {
+  categoryId: string | null;
+  amount: string;
+  carryOver: boolean;
+}
+
+function nextMonthKey(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const date = new Date(year, monthNumber, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function toDraft(budgets: Budget[], categoryId: string | null, month: string): BudgetDraft {
+  const budget = resolveBudget(budgets, categoryId, month);
+  return {
+    categoryId,
+    amount: budget ? String(budget.amount) : '',
+    carryOver: budget?.carryOver ?? false,
+  };
+}
+
+/**
+ * 予算設定画面
+ * 月ごとに全体予算とカテゴリ別予算、繰り越しの有無を設定
+ */
+export default function BudgetsScreen() {
+  const colors = useColors();
+  const [month, setMonth] = useState(getMonthKey(formatDate(new Date())));
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [drafts, setDrafts] = useState<BudgetDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 予算とカテゴリを読み込み
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [loadedBudgets, loadedCategories] = await Promise.all([loadBudgets(), loadCategories()]);
+        setBudgets(loadedBudgets);
+        setCategories(loadedCategories.filter((c) => c.type === 'expense'));
+      } catch (error) {
+        console.error('Failed to load budgets:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  // 表示中の月に適用される予算をフォームへ反映
+  useEffect(() => {
+    setDrafts([
+      toDraft(budgets, null, month),
+      ...categories.map((category) => toDraft(budgets, category.id, month)),
+    ]);
+  }, [budgets, categories, month]);
+
+  const updateDraft = (categoryId: string | null, updates: Partial<BudgetDraft>) => {
+    setDrafts((current) =>
+      current.map((draft) => (draft.categoryId === categoryId ? { ...draft, ...updates } : draft))
+    );
+  };
+
+  // 保存（前月から引き継いだ値と変わらない行は書き込まない）
+  const handleSave = async () => {
+    if (isSaving) return;
+
+    const invalid = drafts.some((draft) => {
+      const value = draft.amount.replace(/[,¥円\s]/g, '');
+      return value !== '' && !/^\d+$/.test(value);
+    });
+    if (invalid) {
+      Alert.alert('入力内容を確認してください', '予算は0以上の整数で入力してください');
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      }
+      return;
+    }
+
+    const updates = drafts
+      .map((draft) => ({
+        categoryId: draft.categoryId,
+        amount: Number(draft.amount.replace(/[,¥円\s]/g, '') || 0),
+        carryOver: draft.carryOver,
+      }))
+      .filter((update) => {
+        const current = resolveBudget(budgets, update.categoryId, month);
+        return (
+          (current?.amount ?? 0) !== update.amount ||
+          (update.amount > 0 && (current?.carryOver ?? false) !== update.carryOver)
+        );
+      });
+
+    try {
+      setIsSaving(true);
+
+      if (updates.length > 0) {
+        await setMonthBudgets(month, updates);
+      }
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+
+      router.back();
+    } catch (error) {
+      console.error('Save budgets error:', error);
+      Alert.alert('エラー', '予算の保存に失敗しました');
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  const [year, monthNumber] = month.split('-').map(Number);
+
+  const renderRow = (draft: BudgetDraft, label: string, category?: Category) => (
+    <View key={draft.categoryId ?? 'total'} className="py-3 gap-2 border-b border-border">
+      <View className="flex-row items-center gap-3">
+        {category && <CategoryIcon icon={category.icon} color={category.color} />}
+        <Text className="flex-1 text-base text-foreground">{label}</Text>
+        <TextInput
+          value={draft.amount}
+          onChangeText={(text) => updateDraft(draft.categoryId, { amount: text })}
+          placeholder="予算なし"
+          placeholderTextColor={colors.muted}
+          keyboardType="number-pad"
+          className="w-32 text-base text-foreground text-right bg-background rounded-lg px-3 py-2 border border-border"
+        />
+      </View>
+      <View className="flex-row items-center justify-end gap-2">
+        <Text className="text-xs text-muted">前月の残額を繰り越す</Text>
+        <Switch
+          value={draft.carryOver}
+          onValueChange={(value) => updateDraft(draft.categoryId, { carryOver: value })}
+          trackColor={{ true: colors.primary, false: colors.border }}
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <ScreenContainer className="p-6">
+      {/* ヘッダー */}
+      <View className="flex-row items-center justify-between mb-4">
+        <TouchableOpacity onPress={() => router.back()} disabled={isSaving}>
+          <Text className="text-base text-muted">戻る</Text>
+        </TouchableOpacity>
+        <Text className="text-lg font-semibold text-foreground">予算設定</Text>
+        <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+          <Text className="text-base font-semibold" style={{ color: colors.primary }}>
+            {isSaving ? '保存中...' : '保存'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }} keyboardShouldPersistTaps="handled">
+        <View className="flex-1 gap-4 pb-8">
+          {/* 月選択 */}
+          <View className="flex-row items-center justify-between bg-surface rounded-2xl p-4 border border-border">
+            <TouchableOpacity onPress={() => setMonth(previousMonthKey(month))} style={{ padding: 8 }}>
+              <Text className="text-xl font-bold" style={{ color: colors.primary }}>
+                ←
+              </Text>
+            </TouchableOpacity>
+            <Text className="text-lg font-bold text-foreground">
+              {year}年 {monthNumber}月
+            </Text>
+            <TouchableOpacity onPress={() => setMonth(nextMonthKey(month))} style={{ padding: 8 }}>
+              <Text className="text-xl font-bold" style={{ color: colors.primary }}>
+                →
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <View className="bg-surface rounded-2xl px-4 border border-border">
+            {drafts.map((draft) => {
+              if (draft.categoryId === null) return renderRow(draft, '全体の予算');
+              const category = categories.find((c) => c.id === draft.categoryId);
+              return category ? renderRow(draft, category.name, category) : null;
+            })}
+          </View>
+
+          <Text className="text-xs text-muted">
+            設定した予算は翌月以降も引き継がれます。空欄にするとその月から予算なしになります。
+          </Text>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
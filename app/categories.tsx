@@ -0,0 +1,468 @@
+import { useState, useEffect } from 'react';
+import {
+  ScrollView,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { ScreenContainer } from '@/components/screen-container';
+import { CategoryIcon } from '@/components/category-icon';
+import { CategoryPicker } from '@/components/category-picker';
+import { EntryTypeToggle } from '@/components/entry-type-toggle';
+import { useColors } from '@/hooks/use-colors';
+import { useHousehold } from '@/hooks/use-household';
+import {
+  loadCategories,
+  addCategory,
+  updateCategory,
+  deleteCategory,
+  reorderCategories,
+  countCategoryReferences,
+  generateId,
+} from '@/lib/storage';
+import { Category, CATEGORY_COLORS, CATEGORY_ICONS, EntryType } from '@/types/kakeibo';
+
+/**
+ * 編集中のカテゴリ（idがnullなら新規作成）
+ */
+interface CategoryDraft {
+  id: string | null;
+  type: EntryType; // 作成後は変更不可（既存記録の種別と食い違うため）
+  name: string;
+  color: string;
+  icon: string;
+}
+
+/**
+ * 削除待ちのカテゴリと既存記録・定期記録の移動先
+ */
+interface PendingDelete {
+  category: Category;
+  references: { entries: number; recurring: number };
+  reassignToId: string;
+}
+
+/**
+ * 移動する記録の件数の表示（例: 3件の記録と1件の定期記録）
+ */
+function describeReferences({ entries, recurring }: PendingDelete['references']): string {
+  const parts: string[] = [];
+  if (entries > 0) parts.push(`${entries}件の記録`);
+  if (recurring > 0) parts.push(`${recurring}件の定期記録`);
+  return parts.join('と');
+}
+
+const SECTIONS: { type: EntryType; title: string }[] = [
+  { type: 'expense', title: '支出カテゴリ' },
+  { type: 'income', title: '収入カテゴリ' },
+];
+
+/**
+ * カテゴリ管理画面
+ * カテゴリの追加・編集・並び替え・削除
+ */
+export default function CategoriesScreen() {
+  const colors = useColors();
+  const { canDeleteCategories } = useHousehold();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [draft, setDraft] = useState<CategoryDraft | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // カテゴリを読み込み
+  const reload = async () => {
+    try {
+      setCategories(await loadCategories());
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const notify = (type: Haptics.NotificationFeedbackType) => {
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(type);
+    }
+  };
+
+  // 新規作成を開始
+  const handleStartCreate = () => {
+    setPendingDelete(null);
+    setDraft({
+      id: null,
+      type: 'expense',
+      name: '',
+      color: CATEGORY_COLORS[0],
+      icon: CATEGORY_ICONS[0],
+    });
+  };
+
+  // 既存カテゴリの編集を開始
+  const handleStartEdit = (category: Category) => {
+    setPendingDelete(null);
+    setDraft({
+      id: category.id,
+      type: category.type,
+      name: category.name,
+      color: category.color,
+      icon: category.icon ?? 'ellipsis-horizontal',
+    });
+  };
+
+  // 追加・更新を保存
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    if (name === '') {
+      Alert.alert('入力内容を確認してください', 'カテゴリ名を入力してください');
+      return;
+    }
+    if (categories.some((c) => c.name === name && c.id !== draft.id)) {
+      Alert.alert('入力内容を確認してください', `「${name}」は既に存在します`);
+      return;
+    }
+
+    try {
+      if (draft.id) {
+        await updateCategory(draft.id, { name, color: draft.color, icon: draft.icon });
+      } else {
+        await addCategory({
+          id: generateId('category'),
+          type: draft.type,
+          name,
+          color: draft.color,
+          icon: draft.icon,
+          createdAt: new Date().toISOString(),
+        });
+      }
+
+      notify(Haptics.NotificationFeedbackType.Success);
+      setDraft(null);
+      await reload();
+    } catch (error) {
+      console.error('Save category error:', error);
+      Alert.alert('エラー', 'カテゴリの保存に失敗しました');
+      notify(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  // 並び替え（direction: -1 で上へ、1 で下へ）。同じ種別のカテゴリの間で入れ替える
+  const handleMove = async (category: Category, direction: -1 | 1) => {
+    const index = categories.findIndex((c) => c.id === category.id);
+    let target = index + direction;
+    while (target >= 0 && target < categories.length && categories[target].type !== category.type) {
+      target += direction;
+    }
+    if (index < 0 || target < 0 || target >= categories.length) return;
+
+    const reordered = [...categories];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setCategories(reordered);
+
+    try {
+      await reorderCategories(reordered.map((c) => c.id));
+    } catch (error) {
+      console.error('Reorder categories error:', error);
+      await reload();
+    }
+  };
+
+  // 削除（記録・定期記録がある場合は移動先の選択へ）
+  const handleRequestDelete = async (category: Category) => {
+    // 全員の記録が移動するため、共有の家計簿では管理者のみ
+    if (!canDeleteCategories) {
+      Alert.alert('削除できません', 'カテゴリの削除は世帯の管理者のみ行えます');
+      return;
+    }
+
+    // 記録の移動先は同じ種別のカテゴリに限る
+    const others = categories.filter((c) => c.id !== category.id && c.type === category.type);
+    const references = await countCategoryReferences(category.id);
+
+    if (references.entries === 0 && references.recurring === 0) {
+      Alert.alert('カテゴリを削除', `「${category.name}」を削除しますか?`, [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '削除',
+          style: 'destructive',
+          onPress: () => performDelete(category),
+        },
+      ]);
+      return;
+    }
+
+    if (others.length === 0) {
+      Alert.alert('削除できません', '記録の移動先となるカテゴリがありません');
+      return;
+    }
+
+    setDraft(null);
+    setPendingDelete({
+      category,
+      references,
+      reassignToId: (others.find((c) => c.name.startsWith('その他')) ?? others[0]).id,
+    });
+  };
+
+  const performDelete = async (category: Category, reassignToId?: string) => {
+    try {
+      await deleteCategory(category.id, reassignToId);
+      notify(Haptics.NotificationFeedbackType.Success);
+      setDraft(null);
+      setPendingDelete(null);
+      await reload();
+    } catch (error) {
+      console.error('Delete category error:', error);
+      Alert.alert('エラー', 'カテゴリの削除に失敗しました');
+      notify(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  // 移動先を確定して削除
+  const handleConfirmReassign = () => {
+    if (!pendingDelete) return;
+
+    const target = categories.find((c) => c.id === pendingDelete.reassignToId);
+    Alert.alert(
+      'カテゴリを削除',
+      `「${pendingDelete.category.name}」の${describeReferences(pendingDelete.references)}を「${target?.name}」へ移動して削除します。この操作は取り消せません。`,
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '削除',
+          style: 'destructive',
+          onPress: () => performDelete(pendingDelete.category, pendingDelete.reassignToId),
+        },
+      ]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  return (
+    <ScreenContainer className="p-6">
+      {/* ヘッダー */}
+      <View className="flex-row items-center justify-between mb-4">
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text className="text-base text-muted">戻る</Text>
+        </TouchableOpacity>
+        <Text className="text-lg font-semibold text-foreground">カテゴリ管理</Text>
+        <TouchableOpacity onPress={handleStartCreate}>
+          <Text className="text-base font-semibold" style={{ color: colors.primary }}>
+            追加
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }} keyboardShouldPersistTaps="handled">
+        <View className="flex-1 gap-4 pb-8">
+          {/* 編集フォーム */}
+          {draft && (
+            <View className="bg-surface rounded-2xl p-4 border border-border gap-4">
+              <EntryTypeToggle
+                value={draft.type}
+                onChange={(type) => setDraft({ ...draft, type })}
+                disabled={draft.id !== null}
+              />
+
+              <View className="flex-row items-center gap-3">
+                <CategoryIcon icon={draft.icon} color={draft.color} size={40} />
+                <TextInput
+                  value={draft.name}
+                  onChangeText={(text) => setDraft({ ...draft, name: text })}
+                  placeholder="カテゴリ名"
+                  placeholderTextColor={colors.muted}
+                  className="flex-1 text-base text-foreground bg-background rounded-lg px-3 py-2 border border-border"
+                />
+              </View>
+
+              <View className="gap-2">
+                <Text className="text-xs text-muted">色</Text>
+                <View className="flex-row flex-wrap gap-2">
+                  {CATEGORY_COLORS.map((color) => (
+                    <TouchableOpacity
+                      key={color}
+                      onPress={() => setDraft({ ...draft, color })}
+                      style={{
+                        width: 32,
+                        height: 32,
+                        borderRadius: 16,
+                        backgroundColor: color,
+                        borderWidth: draft.color === color ? 3 : 0,
+                        borderColor: colors.foreground,
+                      }}
+                    />
+                  ))}
+                </View>
+              </View>
+
+              <View className="gap-2">
+                <Text className="text-xs text-muted">アイコン</Text>
+                <View className="flex-row flex-wrap gap-2">
+                  {CATEGORY_ICONS.map((icon) => (
+                    <TouchableOpacity
+                      key={icon}
+                      onPress={() => setDraft({ ...draft, icon })}
+                      style={{
+                        opacity: draft.icon === icon ? 1 : 0.4,
+                      }}
+                    >
+                      <CategoryIcon icon={icon} color={draft.color} size={36} />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View className="flex-row gap-3">
+                <TouchableOpacity
+                  onPress={() => setDraft(null)}
+                  style={{
+                    flex: 1,
+                    paddingVertical: 12,
+                    borderRadius: 12,
+                    borderWidth: 1,
+                    borderColor: colors.border,
+                  }}
+                >
+                  <Text className="text-center text-foreground">キャンセル</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleSaveDraft}
+                  style={{
+                    flex: 1,
+                    paddingVertical: 12,
+                    borderRadius: 12,
+                    backgroundColor: colors.primary,
+                  }}
+                >
+                  <Text className="text-center text-background font-semibold">保存</Text>
+                </TouchableOpacity>
+              </View>
+
+              {draft.id && (
+                <TouchableOpacity
+                  onPress={() => {
+                    const category = categories.find((c) => c.id === draft.id);
+                    if (category) handleRequestDelete(category);
+                  }}
+                >
+                  <Text className="text-center text-sm" style={{ color: colors.error }}>
+                    このカテゴリを削除
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {/* 削除時の移動先選択 */}
+          {pendingDelete && (
+            <View className="bg-surface rounded-2xl p-4 border gap-3" style={{ borderColor: colors.error }}>
+              <Text className="text-sm text-foreground">
+                「{pendingDelete.category.name}」には{describeReferences(pendingDelete.references)}
+                があります。記録の移動先を選んでください。
+              </Text>
+              <CategoryPicker
+                categories={categories.filter(
+                  (c) => c.id !== pendingDelete.category.id && c.type === pendingDelete.category.type
+                )}
+                selectedId={pendingDelete.reassignToId}
+                onSelect={(category) => setPendingDelete({ ...pendingDelete, reassignToId: category.id })}
+              />
+              <View className="flex-row gap-3">
+                <TouchableOpacity
+                  onPress={() => setPendingDelete(null)}
+                  style={{
+                    flex: 1,
+                    paddingVertical: 12,
+                    borderRadius: 12,
+                    borderWidth: 1,
+                    borderColor: colors.border,
+                  }}
+                >
+                  <Text className="text-center text-foreground">キャンセル</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleConfirmReassign}
+                  style={{
+                    flex: 1,
+                    paddingVertical: 12,
+                    borderRadius: 12,
+                    backgroundColor: colors.error,
+                  }}
+                >
+                  <Text className="text-center text-white font-semibold">移動して削除</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {/* カテゴリ一覧（種別ごと） */}
+          {SECTIONS.map((section) => {
+            const sectionCategories = categories.filter((c) => c.type === section.type);
+            return (
+              <View key={section.type} className="gap-2">
+                <Text className="text-sm font-semibold text-muted">{section.title}</Text>
+                <View className="bg-surface rounded-2xl p-4 border border-border">
+                  {sectionCategories.length === 0 && (
+                    <Text className="text-sm text-muted text-center py-2">カテゴリがありません</Text>
+                  )}
+                  {sectionCategories.map((category, index) => (
+                    <View key={category.id} className="flex-row items-center py-2">
+                      <TouchableOpacity
+                        className="flex-1 flex-row items-center gap-3"
+                        activeOpacity={0.7}
+                        onPress={() => handleStartEdit(category)}
+                      >
+                        <CategoryIcon icon={category.icon} color={category.color} />
+                        <Text className="text-base text-foreground">{category.name}</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        onPress={() => handleMove(category, -1)}
+                        disabled={index === 0}
+                        style={{ padding: 8, opacity: index === 0 ? 0.3 : 1 }}
+                      >
+                        <Text className="text-base text-foreground">↑</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        onPress={() => handleMove(category, 1)}
+                        disabled={index === sectionCategories.length - 1}
+                        style={{
+                          padding: 8,
+                          opacity: index === sectionCategories.length - 1 ? 0.3 : 1,
+                        }}
+                      >
+                        <Text className="text-base text-foreground">↓</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            );
+          })}
+
+          <Text className="text-xs text-muted">
+            カテゴリをタップすると名前・色・アイコンを編集できます。矢印で表示順を並び替えます。
+          </Text>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,527 @@
+import { useState, useEffect } from 'react';
+import {
+  ScrollView,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Image } from 'expo-image';
+import * as Haptics from 'expo-haptics';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ScreenContainer } from '@/components/screen-container';
+import { CategoryPicker } from '@/components/category-picker';
+import { EntryTypeToggle } from '@/components/entry-type-toggle';
+import { SegmentedControl } from '@/components/segmented-control';
+import { useColors } from '@/hooks/use-colors';
+import { useHousehold } from '@/hooks/use-household';
+import {
+  getEntry,
+  addEntry,
+  updateEntry,
+  deleteEntry,
+  loadCategories,
+  recordCategoryCorrections,
+  generateId,
+} from '@/lib/storage';
+import { formatDate, isValidDate, parseAmount, parseTags } from '@/lib/entry-form';
+import {
+  convertSplitInput,
+  parseSplitValue,
+  resolveSplitInput,
+  splitEntryFields,
+  splitRemainder,
+  SplitInputMode,
+  SplitInputRow,
+} from '@/lib/split';
+import { MIN_SPLIT_PARTS } from '@/shared/entry-split';
+import { Category, EntryType, KakeiboEntry } from '@/types/kakeibo';
+
+// 手入力で新規作成するときのルート（/entry/new?type=income）
+const NEW_ENTRY_ID = 'new';
+
+const SPLIT_INPUT_OPTIONS: { value: SplitInputMode; label: string }[] = [
+  { value: 'amount', label: '金額' },
+  { value: 'percentage', label: '割合（%）' },
+];
+
+/**
+ * 種別ごとの既定カテゴリ（「その他」「その他収入」、なければ先頭）
+ */
+function defaultCategoryFor(type: EntryType, categories: Category[]): Category | undefined {
+  const candidates = categories.filter((c) => c.type === type);
+  return candidates.find((c) => c.name.startsWith('その他')) ?? candidates[0];
+}
+
+/**
+ * 記録の詳細・編集画面
+ * 保存済みエントリーの編集と削除、手入力での新規作成
+ */
+export default function EntryDetailScreen() {
+  const colors = useColors();
+  const { canDeleteEntry, recordedByName } = useHousehold();
+  const { id, type: initialType } = useLocalSearchParams<{ id: string; type?: EntryType }>();
+  const isNew = id === NEW_ENTRY_ID;
+  const [entry, setEntry] = useState<KakeiboEntry | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [type, setType] = useState<EntryType>('expense');
+  const [date, setDate] = useState('');
+  const [itemName, setItemName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+  const [note, setNote] = useState('');
+  const [tags, setTags] = useState('');
+  // カテゴリごとの内訳（分割していなければnull）
+  const [splitRows, setSplitRows] = useState<SplitInputRow[] | null>(null);
+  const [splitMode, setSplitMode] = useState<SplitInputMode>('amount');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // エントリーとカテゴリを読み込み
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [loadedEntry, loadedCategories] = await Promise.all([
+          isNew ? undefined : getEntry(id),
+          loadCategories(),
+        ]);
+        setCategories(loadedCategories);
+
+        if (isNew) {
+          const newType = initialType === 'income' ? 'income' : 'expense';
+          setType(newType);
+          setDate(formatDate(new Date()));
+          setCategoryId(defaultCategoryFor(newType, loadedCategories)?.id ?? '');
+        } else if (loadedEntry) {
+          setEntry(loadedEntry);
+          setType(loadedEntry.type);
+          setDate(loadedEntry.date);
+          setItemName(loadedEntry.itemName);
+          setAmount(String(loadedEntry.amount));
+          setCategoryId(loadedEntry.categoryId);
+          setNote(loadedEntry.note ?? '');
+          setTags(loadedEntry.tags?.join(', ') ?? '');
+          if (loadedEntry.splits) {
+            setSplitRows(
+              loadedEntry.splits.map((split) => ({ categoryId: split.categoryId, value: String(split.amount) }))
+            );
+          }
+        }
+      } catch (error) {
+        console.error('Failed to load entry:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [id, isNew, initialType]);
+
+  // 種別を切り替え（カテゴリは切り替え先の既定カテゴリに戻す）
+  const handleChangeType = (newType: EntryType) => {
+    if (newType === type) return;
+    setType(newType);
+    setCategoryId(defaultCategoryFor(newType, categories)?.id ?? '');
+    setSplitRows(null);
+  };
+
+  const typeCategories = categories.filter((c) => c.type === type);
+
+  // まだ内訳にないカテゴリ（内訳を追加するときの初期値）
+  const unusedCategoryId = (rows: SplitInputRow[]) =>
+    typeCategories.find((c) => !rows.some((row) => row.categoryId === c.id))?.id ?? typeCategories[0]?.id ?? '';
+
+  // 分割を始める（今のカテゴリに全額を割り当て、2つ目の内訳を空欄で追加）
+  const handleStartSplit = () => {
+    const parsedAmount = parseAmount(amount);
+    const first = { categoryId, value: parsedAmount !== null ? String(parsedAmount) : '' };
+    setSplitMode('amount');
+    setSplitRows([first, { categoryId: unusedCategoryId([first]), value: '' }]);
+  };
+
+  // 分割をやめる（1つ目の内訳のカテゴリに戻す）
+  const handleCancelSplit = () => {
+    if (splitRows?.[0]) setCategoryId(splitRows[0].categoryId);
+    setSplitRows(null);
+  };
+
+  const handleSplitModeChange = (mode: SplitInputMode) => {
+    if (!splitRows || mode === splitMode) return;
+    const parsedAmount = parseAmount(amount);
+    setSplitRows(
+      parsedAmount !== null
+        ? convertSplitInput(parsedAmount, splitRows, mode)
+        : splitRows.map((row) => ({ ...row, value: '' }))
+    );
+    setSplitMode(mode);
+  };
+
+  const updateSplitRow = (index: number, updates: Partial<SplitInputRow>) => {
+    setSplitRows((rows) => rows && rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const handleAddSplitRow = () => {
+    setSplitRows((rows) => rows && [...rows, { categoryId: unusedCategoryId(rows), value: '' }]);
+  };
+
+  const handleRemoveSplitRow = (index: number) => {
+    setSplitRows((rows) => rows && rows.filter((_, i) => i !== index));
+  };
+
+  // 保存
+  const handleSave = async () => {
+    if ((!entry && !isNew) || isSaving) return;
+
+    const parsedAmount = parseAmount(amount);
+    if (!isValidDate(date) || itemName.trim() === '' || parsedAmount === null) {
+      Alert.alert('入力内容を確認してください', '日付（YYYY-MM-DD）・項目名・金額を確認してください');
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      }
+      return;
+    }
+
+    const splits = splitRows && resolveSplitInput(parsedAmount, splitRows, splitMode, categories);
+    if (splitRows && !splits) {
+      Alert.alert(
+        '内訳を確認してください',
+        '内訳の合計が金額（割合は100%）と一致するように入力してください。同じカテゴリは1つにまとめてください'
+      );
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      }
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      const category = categories.find((c) => c.id === categoryId);
+      const parsedTags = parseTags(tags);
+      const fields = {
+        type,
+        date,
+        itemName: itemName.trim(),
+        amount: parsedAmount,
+        ...(splits
+          ? splitEntryFields(splits)
+          : { categoryId, categoryName: category?.name ?? entry?.categoryName, splits: undefined }),
+        note: note.trim() === '' ? undefined : note.trim(),
+        tags: parsedTags.length > 0 ? parsedTags : undefined,
+      };
+
+      if (entry) {
+        await updateEntry(entry.id, fields);
+        // カテゴリを付け替えたら項目名とともに覚え、次のスキャンから使う
+        if (!splits && categoryId !== entry.categoryId) {
+          await recordCategoryCorrections([{ itemName: fields.itemName, categoryId }]).catch((error) =>
+            console.error('Failed to learn category:', error)
+          );
+        }
+      } else {
+        const now = new Date().toISOString();
+        await addEntry({ ...fields, id: generateId('entry'), createdAt: now, updatedAt: now });
+      }
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+
+      router.back();
+    } catch (error) {
+      console.error('Update entry error:', error);
+      Alert.alert('エラー', '保存に失敗しました');
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 削除（確認ダイアログ）
+  const handleDelete = () => {
+    if (!entry) return;
+
+    const message = entry.recurringId
+      ? `「${entry.itemName}」のこの回だけを削除します。次回以降は引き続き自動で記録されます。`
+      : `「${entry.itemName}」を削除します。この操作は取り消せません。`;
+
+    Alert.alert('記録を削除', message, [
+      {
+        text: 'キャンセル',
+        style: 'cancel',
+      },
+      {
+        text: '削除',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteEntry(entry.id);
+
+            if (Platform.OS !== 'web') {
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            }
+
+            router.back();
+          } catch (error) {
+            console.error('Delete entry error:', error);
+            Alert.alert('エラー', '削除に失敗しました');
+
+            if (Platform.OS !== 'web') {
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+            }
+          }
+        },
+      },
+    ]);
+  };
+
+  // 内訳の残り（金額か100%に対して、割り当てていない分・超過分）
+  const renderSplitRemainder = (rows: SplitInputRow[]) => {
+    const parsedAmount = parseAmount(amount);
+    if (parsedAmount === null) return null;
+
+    const remainder = splitRemainder(parsedAmount, rows, splitMode);
+    const format = (value: number) =>
+      splitMode === 'amount' ? `¥${value.toLocaleString()}` : `${value}%`;
+    return (
+      <Text className="text-xs" style={{ color: remainder === 0 ? colors.muted : colors.warning }}>
+        {remainder === 0
+          ? '内訳の合計が一致しています'
+          : remainder > 0
+            ? `残り ${format(remainder)}`
+            : `${format(-remainder)} 超過`}
+      </Text>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  if (!entry && !isNew) {
+    return (
+      <ScreenContainer className="items-center justify-center p-6">
+        <Text className="text-lg text-muted text-center mb-4">記録が見つかりません</Text>
+        <TouchableOpacity
+          style={{
+            backgroundColor: colors.primary,
+            paddingHorizontal: 24,
+            paddingVertical: 12,
+            borderRadius: 24,
+          }}
+          onPress={() => router.back()}
+        >
+          <Text className="text-background font-semibold">戻る</Text>
+        </TouchableOpacity>
+      </ScreenContainer>
+    );
+  }
+
+  return (
+    <ScreenContainer className="p-6">
+      {/* ヘッダー */}
+      <View className="flex-row items-center justify-between mb-4">
+        <TouchableOpacity onPress={() => router.back()} disabled={isSaving}>
+          <Text className="text-base text-muted">戻る</Text>
+        </TouchableOpacity>
+        <Text className="text-lg font-semibold text-foreground">
+          {isNew ? '記録の追加' : '記録の編集'}
+        </Text>
+        <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+          <Text className="text-base font-semibold" style={{ color: colors.primary }}>
+            {isSaving ? '保存中...' : '保存'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }} keyboardShouldPersistTaps="handled">
+        <View className="flex-1 gap-4 pb-8">
+          {/* 撮影元の画像 */}
+          {entry?.imageUri && (
+            <Image
+              source={{ uri: entry.imageUri }}
+              style={{ width: '100%', height: 220, borderRadius: 16, backgroundColor: colors.surface }}
+              contentFit="contain"
+            />
+          )}
+
+          <View className="bg-surface rounded-2xl p-4 border border-border gap-3">
+            <EntryTypeToggle value={type} onChange={handleChangeType} />
+
+            <View className="gap-1">
+              <Text className="text-xs text-muted">日付</Text>
+              <TextInput
+                value={date}
+                onChangeText={setDate}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={colors.muted}
+                className="text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                style={{ borderColor: isValidDate(date) ? colors.border : colors.warning }}
+              />
+            </View>
+
+            <View className="gap-1">
+              <Text className="text-xs text-muted">項目名</Text>
+              <TextInput
+                value={itemName}
+                onChangeText={setItemName}
+                placeholder="項目名"
+                placeholderTextColor={colors.muted}
+                className="text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                style={{ borderColor: itemName.trim() !== '' ? colors.border : colors.warning }}
+              />
+            </View>
+
+            <View className="gap-1">
+              <Text className="text-xs text-muted">金額</Text>
+              <TextInput
+                value={amount}
+                onChangeText={setAmount}
+                placeholder="金額"
+                placeholderTextColor={colors.muted}
+                keyboardType="number-pad"
+                className="text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                style={{ borderColor: parseAmount(amount) !== null ? colors.border : colors.warning }}
+              />
+            </View>
+
+            <View className="gap-1">
+              <View className="flex-row items-center justify-between">
+                <Text className="text-xs text-muted">カテゴリ</Text>
+                <TouchableOpacity onPress={splitRows ? handleCancelSplit : handleStartSplit}>
+                  <Text className="text-xs font-semibold" style={{ color: colors.primary }}>
+                    {splitRows ? '分割をやめる' : '複数のカテゴリに分ける'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              {splitRows ? (
+                <View className="gap-3">
+                  <SegmentedControl
+                    options={SPLIT_INPUT_OPTIONS}
+                    value={splitMode}
+                    onChange={handleSplitModeChange}
+                  />
+                  {splitRows.map((row, index) => (
+                    <View key={index} className="gap-2 pb-3 border-b border-border">
+                      <CategoryPicker
+                        categories={typeCategories}
+                        selectedId={row.categoryId}
+                        onSelect={(category) => updateSplitRow(index, { categoryId: category.id })}
+                      />
+                      <View className="flex-row items-center gap-2">
+                        <TextInput
+                          value={row.value}
+                          onChangeText={(value) => updateSplitRow(index, { value })}
+                          placeholder={splitMode === 'amount' ? '金額' : '割合'}
+                          placeholderTextColor={colors.muted}
+                          keyboardType="number-pad"
+                          className="flex-1 text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                          style={{
+                            borderColor:
+                              parseSplitValue(row.value, splitMode) !== null ? colors.border : colors.warning,
+                          }}
+                        />
+                        {splitMode === 'percentage' && <Text className="text-base text-muted">%</Text>}
+                        {splitRows.length > MIN_SPLIT_PARTS && (
+                          <TouchableOpacity onPress={() => handleRemoveSplitRow(index)}>
+                            <Text className="text-sm" style={{ color: colors.error }}>
+                              削除
+                            </Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    </View>
+                  ))}
+                  <View className="flex-row items-center justify-between">
+                    <TouchableOpacity onPress={handleAddSplitRow}>
+                      <Text className="text-sm font-semibold" style={{ color: colors.primary }}>
+                        ＋ 内訳を追加
+                      </Text>
+                    </TouchableOpacity>
+                    {renderSplitRemainder(splitRows)}
+                  </View>
+                </View>
+              ) : (
+                <CategoryPicker
+                  categories={typeCategories}
+                  selectedId={categoryId}
+                  onSelect={(category) => setCategoryId(category.id)}
+                />
+              )}
+            </View>
+
+            <View className="gap-1">
+              <Text className="text-xs text-muted">メモ</Text>
+              <TextInput
+                value={note}
+                onChangeText={setNote}
+                placeholder="メモ（任意）"
+                placeholderTextColor={colors.muted}
+                multiline
+                className="text-base text-foreground bg-background rounded-lg px-3 py-2 border border-border"
+                style={{ minHeight: 80, textAlignVertical: 'top' }}
+              />
+            </View>
+
+            <View className="gap-1">
+              <Text className="text-xs text-muted">タグ</Text>
+              <TextInput
+                value={tags}
+                onChangeText={setTags}
+                placeholder="カンマ区切り（任意）"
+                placeholderTextColor={colors.muted}
+                className="text-base text-foreground bg-background rounded-lg px-3 py-2 border border-border"
+              />
+            </View>
+          </View>
+
+          {entry && (
+            <>
+              {entry.recurringId && (
+                <Text className="text-xs text-muted">
+                  定期記録から自動で作成された記録です。この回の金額や日付だけを変更できます。
+                </Text>
+              )}
+
+              <Text className="text-xs text-muted">
+                {recordedByName(entry) && `記録: ${recordedByName(entry)} / `}
+                登録: {new Date(entry.createdAt).toLocaleString()} / 更新:{' '}
+                {new Date(entry.updatedAt).toLocaleString()}
+              </Text>
+
+              {/* 削除（世帯のメンバーは自分が記録したものだけ） */}
+              {canDeleteEntry(entry) ? (
+                <TouchableOpacity
+                  style={{
+                    backgroundColor: colors.error,
+                    paddingVertical: 16,
+                    paddingHorizontal: 24,
+                    borderRadius: 12,
+                  }}
+                  onPress={handleDelete}
+                  disabled={isSaving}
+                >
+                  <Text className="text-white text-center font-semibold">この記録を削除</Text>
+                </TouchableOpacity>
+              ) : (
+                <Text className="text-xs text-muted">
+                  ほかのメンバーが記録したものは、記録した本人か世帯の管理者のみ削除できます。
+                </Text>
+              )}
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,359 @@
+import { useState } from 'react';
+import {
+  ScrollView,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Share,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import * as Linking from 'expo-linking';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ScreenContainer } from '@/components/screen-container';
+import { useColors } from '@/hooks/use-colors';
+import { useHousehold } from '@/hooks/use-household';
+import { useSync } from '@/hooks/use-sync';
+import { getLoginUrl } from '@/constants/oauth';
+import { trpc } from '@/lib/trpc';
+import { canManageHousehold, HouseholdRole } from '@/shared/household';
+
+const ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: '管理者',
+  member: 'メンバー',
+};
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * 世帯（共有の家計簿）画面
+ * メンバーと権限の管理、招待コードの発行、招待コードでの参加・退出
+ * 招待リンク（/household?code=...）から開いた場合は参加欄にコードを入れておく
+ */
+export default function HouseholdScreen() {
+  const colors = useColors();
+  const params = useLocalSearchParams<{ code?: string }>();
+  const { isAuthenticated, household, isShared, isLoading, refetch } = useHousehold();
+  const { syncNow } = useSync();
+  const [name, setName] = useState<string | null>(null);
+  const [joinCode, setJoinCode] = useState(params.code ?? '');
+  const [invite, setInvite] = useState<{ code: string; expiresAt: Date } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const renameMutation = trpc.household.rename.useMutation();
+  const createInviteMutation = trpc.household.createInvite.useMutation();
+  const joinMutation = trpc.household.join.useMutation();
+  const leaveMutation = trpc.household.leave.useMutation();
+  const removeMemberMutation = trpc.household.removeMember.useMutation();
+  const setRoleMutation = trpc.household.setRole.useMutation();
+
+  // 操作を実行し、失敗したらサーバーのメッセージを表示
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    if (isBusy) return;
+    try {
+      setIsBusy(true);
+      await action();
+      await refetch();
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+    } catch (error) {
+      console.error('Household error:', error);
+      Alert.alert('エラー', errorMessage(error, fallback));
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRename = () => {
+    const trimmed = (name ?? '').trim();
+    if (!trimmed) {
+      Alert.alert('入力エラー', '世帯の名前を入力してください');
+      return;
+    }
+    run(async () => {
+      await renameMutation.mutateAsync({ name: trimmed });
+      setName(null);
+    }, '名前の変更に失敗しました');
+  };
+
+  const handleCreateInvite = () => {
+    run(async () => {
+      setInvite(await createInviteMutation.mutateAsync());
+    }, '招待コードの発行に失敗しました');
+  };
+
+  const handleShareInvite = async () => {
+    if (!invite || !household) return;
+    const link = Linking.createURL('/household', { queryParams: { code: invite.code } });
+    await Share.share({
+      message: `Kakeibo Lensの「${household.name}」に参加してください。\n招待コード: ${invite.code}\n${link}`,
+    });
+  };
+
+  // 参加・退出で同期先の世帯が変わるので、未送信の変更を今の世帯へ送ってから切り替え、続けて同期する
+  // （端末の記録は新しい世帯の記録に置き換わり、今の世帯の記録はサーバーに残る）
+  const handleJoin = () => {
+    const code = joinCode.trim().toUpperCase();
+    if (!code) {
+      Alert.alert('入力エラー', '招待コードを入力してください');
+      return;
+    }
+
+    Alert.alert(
+      '世帯に参加',
+      'この端末には参加先の家計簿が表示されます。今の家計簿の記録は元の世帯に残ります。参加しますか?',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '参加',
+          onPress: () =>
+            run(async () => {
+              await syncNow();
+              await joinMutation.mutateAsync({ code });
+              setJoinCode('');
+              await syncNow();
+              Alert.alert('参加しました', '家計簿を共有しました');
+            }, '参加に失敗しました'),
+        },
+      ]
+    );
+  };
+
+  const handleLeave = () => {
+    Alert.alert(
+      '世帯から退出',
+      '退出すると、この端末は自分だけの新しい家計簿になります。これまでの記録は共有の家計簿に残ります。退出しますか?',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '退出',
+          style: 'destructive',
+          onPress: () =>
+            run(async () => {
+              await syncNow();
+              await leaveMutation.mutateAsync();
+              await syncNow();
+            }, '退出に失敗しました'),
+        },
+      ]
+    );
+  };
+
+  const handleRemoveMember = (userId: number, memberName: string) => {
+    Alert.alert('メンバーを削除', `${memberName}さんを世帯から削除しますか?`, [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: '削除',
+        style: 'destructive',
+        onPress: () =>
+          run(async () => {
+            await removeMemberMutation.mutateAsync({ userId });
+          }, 'メンバーの削除に失敗しました'),
+      },
+    ]);
+  };
+
+  const handleToggleRole = (userId: number, role: HouseholdRole) => {
+    run(async () => {
+      await setRoleMutation.mutateAsync({ userId, role: role === 'owner' ? 'member' : 'owner' });
+    }, '権限の変更に失敗しました');
+  };
+
+  const header = (
+    <View className="flex-row items-center justify-between mb-4">
+      <TouchableOpacity onPress={() => router.back()} disabled={isBusy}>
+        <Text className="text-base text-muted">戻る</Text>
+      </TouchableOpacity>
+      <Text className="text-lg font-semibold text-foreground">世帯</Text>
+      <View style={{ width: 32 }} />
+    </View>
+  );
+
+  if (!isAuthenticated) {
+    return (
+      <ScreenContainer className="p-6">
+        {header}
+        <View className="bg-surface rounded-2xl p-6 border border-border gap-4">
+          <Text className="text-base text-foreground">
+            家族と家計簿を共有するには、ログインして同期を有効にしてください。
+          </Text>
+          <TouchableOpacity
+            style={{ backgroundColor: colors.primary, paddingVertical: 16, borderRadius: 12 }}
+            onPress={() => Linking.openURL(getLoginUrl())}
+          >
+            <Text className="text-background text-center font-semibold">ログイン</Text>
+          </TouchableOpacity>
+        </View>
+      </ScreenContainer>
+    );
+  }
+
+  if (isLoading || !household) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  const isOwner = canManageHousehold(household.role);
+
+  return (
+    <ScreenContainer className="p-6">
+      {header}
+
+      <ScrollView contentContainerStyle={{ paddingBottom: 32 }}>
+        <View className="gap-6">
+          {/* 世帯名 */}
+          <View className="bg-surface rounded-2xl p-6 shadow-sm border border-border gap-3">
+            <Text className="text-sm text-muted">世帯の名前</Text>
+            {isOwner ? (
+              <View className="flex-row items-center gap-3">
+                <TextInput
+                  value={name ?? household.name}
+                  onChangeText={setName}
+                  maxLength={64}
+                  className="flex-1 text-base text-foreground bg-background rounded-lg px-3 py-2 border border-border"
+                />
+                <TouchableOpacity onPress={handleRename} disabled={isBusy || name === null}>
+                  <Text
+                    className="text-base font-semibold"
+                    style={{ color: name === null ? colors.muted : colors.primary }}
+                  >
+                    保存
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <Text className="text-lg font-semibold text-foreground">{household.name}</Text>
+            )}
+            <Text className="text-xs text-muted">あなたの権限: {ROLE_LABELS[household.role]}</Text>
+          </View>
+
+          {/* メンバー */}
+          <View className="bg-surface rounded-2xl p-6 shadow-sm border border-border">
+            <Text className="text-lg font-semibold text-foreground mb-2">メンバー</Text>
+            {household.members.map((member) => {
+              const isSelf = member.userId === household.userId;
+              const memberName = member.name ?? 'メンバー';
+              return (
+                <View key={member.userId} className="py-3 gap-2 border-b border-border">
+                  <View className="flex-row items-center justify-between">
+                    <Text className="text-base text-foreground">
+                      {memberName}
+                      {isSelf ? '（あなた）' : ''}
+                    </Text>
+                    <Text className="text-xs text-muted">{ROLE_LABELS[member.role]}</Text>
+                  </View>
+                  {isOwner && !isSelf && (
+                    <View className="flex-row justify-end gap-4">
+                      <TouchableOpacity
+                        onPress={() => handleToggleRole(member.userId, member.role)}
+                        disabled={isBusy}
+                      >
+                        <Text className="text-sm" style={{ color: colors.primary }}>
+                          {member.role === 'owner' ? 'メンバーにする' : '管理者にする'}
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        onPress={() => handleRemoveMember(member.userId, memberName)}
+                        disabled={isBusy}
+                      >
+                        <Text className="text-sm" style={{ color: colors.error }}>
+                          削除
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+            <Text className="text-xs text-muted mt-3">
+              管理者はメンバーの招待・削除とカテゴリの削除ができます。メンバーは記録の追加・編集と、自分が記録したものの削除ができます。
+            </Text>
+          </View>
+
+          {/* 招待 */}
+          {isOwner && (
+            <View className="bg-surface rounded-2xl p-6 shadow-sm border border-border gap-3">
+              <Text className="text-lg font-semibold text-foreground">家族を招待</Text>
+              {invite && (
+                <View className="items-center gap-1 py-2">
+                  <Text className="text-3xl font-bold text-foreground" style={{ letterSpacing: 4 }}>
+                    {invite.code}
+                  </Text>
+                  <Text className="text-xs text-muted">
+                    有効期限: {invite.expiresAt.toLocaleDateString('ja-JP')}
+                  </Text>
+                </View>
+              )}
+              <TouchableOpacity
+                style={{ backgroundColor: colors.primary, paddingVertical: 14, borderRadius: 12 }}
+                onPress={invite ? handleShareInvite : handleCreateInvite}
+                disabled={isBusy}
+              >
+                <Text className="text-background text-center font-semibold">
+                  {invite ? '招待リンクを送る' : '招待コードを発行'}
+                </Text>
+              </TouchableOpacity>
+              {invite && (
+                <TouchableOpacity onPress={handleCreateInvite} disabled={isBusy}>
+                  <Text className="text-sm text-center" style={{ color: colors.primary }}>
+                    コードを発行し直す
+                  </Text>
+                </TouchableOpacity>
+              )}
+              <Text className="text-xs text-muted">
+                招待コードは7日間有効です。発行し直すと以前のコードは使えなくなります。
+              </Text>
+            </View>
+          )}
+
+          {/* 参加 */}
+          <View className="bg-surface rounded-2xl p-6 shadow-sm border border-border gap-3">
+            <Text className="text-lg font-semibold text-foreground">招待コードで参加</Text>
+            <TextInput
+              value={joinCode}
+              onChangeText={setJoinCode}
+              placeholder="招待コード（8文字）"
+              placeholderTextColor={colors.muted}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              maxLength={8}
+              className="text-base text-foreground bg-background rounded-lg px-3 py-2 border border-border"
+            />
+            <TouchableOpacity
+              style={{ backgroundColor: colors.primary, paddingVertical: 14, borderRadius: 12 }}
+              onPress={handleJoin}
+              disabled={isBusy}
+            >
+              <Text className="text-background text-center font-semibold">参加</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* 退出 */}
+          {isShared && (
+            <TouchableOpacity
+              style={{ backgroundColor: colors.error, paddingVertical: 14, borderRadius: 12 }}
+              onPress={handleLeave}
+              disabled={isBusy}
+            >
+              <Text className="text-white text-center font-semibold">世帯から退出</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
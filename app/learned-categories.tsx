@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import { ScrollView, Text, View, TouchableOpacity, ActivityIndicator, Alert, Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { ScreenContainer } from '@/components/screen-container';
+import { CategoryIcon } from '@/components/category-icon';
+import { CategoryPicker } from '@/components/category-picker';
+import { useColors } from '@/hooks/use-colors';
+import {
+  loadCategories,
+  loadLearnedCategories,
+  updateLearnedCategory,
+  deleteLearnedCategory,
+} from '@/lib/storage';
+import { Category, LearnedCategory } from '@/types/kakeibo';
+
+/**
+ * 学習したカテゴリの管理画面
+ * スキャン結果や記録の編集でカテゴリを修正すると、項目名とカテゴリの対応を覚えて次のスキャンから使う
+ * ここでは覚えた対応の付け替えと削除ができる
+ */
+export default function LearnedCategoriesScreen() {
+  const colors = useColors();
+  const [learned, setLearned] = useState<LearnedCategory[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // 学習したカテゴリとカテゴリを読み込み
+  const reload = async () => {
+    try {
+      const [loadedLearned, loadedCategories] = await Promise.all([
+        loadLearnedCategories(),
+        loadCategories(),
+      ]);
+      setLearned(loadedLearned);
+      setCategories(loadedCategories);
+    } catch (error) {
+      console.error('Failed to load learned categories:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  // カテゴリを付け替え
+  const handleChangeCategory = async (item: LearnedCategory, category: Category) => {
+    try {
+      await updateLearnedCategory(item.key, category.id);
+      setEditingKey(null);
+      await reload();
+    } catch (error) {
+      console.error('Update learned category error:', error);
+      Alert.alert('エラー', '変更に失敗しました');
+    }
+  };
+
+  // 削除（確認ダイアログ）
+  const handleDelete = (item: LearnedCategory) => {
+    const message = `「${item.itemName}」のカテゴリを忘れます。記録済みのデータは変わりません。`;
+    Alert.alert('学習したカテゴリを削除', message, [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: '削除',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteLearnedCategory(item.key);
+            if (Platform.OS !== 'web') {
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            }
+            await reload();
+          } catch (error) {
+            console.error('Delete learned category error:', error);
+            Alert.alert('エラー', '削除に失敗しました');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  return (
+    <ScreenContainer className="p-6">
+      {/* ヘッダー */}
+      <View className="flex-row items-center justify-between mb-4">
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text className="text-base text-muted">戻る</Text>
+        </TouchableOpacity>
+        <Text className="text-lg font-semibold text-foreground">学習したカテゴリ</Text>
+        <View style={{ width: 32 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }}>
+        <View className="flex-1 gap-4 pb-8">
+          <View className="bg-surface rounded-2xl p-4 border border-border">
+            {learned.length === 0 && (
+              <Text className="text-sm text-muted text-center py-4">
+                スキャン結果や記録のカテゴリを修正すると、ここに表示されます
+              </Text>
+            )}
+            {learned.map((item) => {
+              const category = categories.find((c) => c.id === item.categoryId);
+              const isEditing = editingKey === item.key;
+              return (
+                <View key={item.key} className="py-2 gap-2">
+                  <View className="flex-row items-center gap-3">
+                    <CategoryIcon icon={category?.icon} color={category?.color ?? colors.muted} />
+                    <TouchableOpacity
+                      className="flex-1"
+                      activeOpacity={0.7}
+                      onPress={() => setEditingKey(isEditing ? null : item.key)}
+                    >
+                      <Text className="text-base text-foreground">{item.itemName}</Text>
+                      <Text className="text-xs text-muted mt-1">
+                        {category?.name ?? '削除されたカテゴリ'} • {item.count}回修正
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => handleDelete(item)}>
+                      <Text className="text-sm" style={{ color: colors.error }}>
+                        削除
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                  {isEditing && (
+                    <CategoryPicker
+                      categories={categories.filter((c) => c.type === (category?.type ?? 'expense'))}
+                      selectedId={item.categoryId}
+                      onSelect={(selected) => handleChangeCategory(item, selected)}
+                    />
+                  )}
+                </View>
+              );
+            })}
+          </View>
+
+          <Text className="text-xs text-muted">
+            スキャンした項目名がここにある項目名と同じか、それを含むときにこのカテゴリを提案します。
+            AI解析にも過去の修正として伝えます。
+          </Text>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
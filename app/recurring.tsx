@@ -0,0 +1,584 @@
+import { useState, useEffect } from 'react';
+import {
+  ScrollView,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Switch,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { ScreenContainer } from '@/components/screen-container';
+import { CategoryIcon } from '@/components/category-icon';
+import { CategoryPicker } from '@/components/category-picker';
+import { EntryTypeToggle } from '@/components/entry-type-toggle';
+import { useColors } from '@/hooks/use-colors';
+import {
+  loadCategories,
+  loadRecurringEntries,
+  upsertRecurringEntry,
+  deleteRecurringEntry,
+  setOccurrenceSkipped,
+  materializeRecurringEntries,
+  generateId,
+} from '@/lib/storage';
+import { describeSchedule, getUpcomingOccurrences } from '@/lib/recurring';
+import { formatDate, isValidDate, parseAmount } from '@/lib/entry-form';
+import { Category, EntryType, RecurrenceSchedule, RecurringEntry } from '@/types/kakeibo';
+
+const SCHEDULE_KINDS: { kind: RecurrenceSchedule['kind']; label: string }[] = [
+  { kind: 'monthly', label: '毎月' },
+  { kind: 'yearly', label: '毎年' },
+  { kind: 'weekly', label: 'N週ごと' },
+];
+
+// 編集中に表示する今後の発生日の件数
+const UPCOMING_COUNT = 3;
+
+/**
+ * 編集中の定期記録（idがnullなら新規作成、数値は入力中の文字列）
+ */
+interface RecurringDraft {
+  id: string | null;
+  type: EntryType;
+  itemName: string;
+  amount: string;
+  categoryId: string;
+  note: string;
+  scheduleKind: RecurrenceSchedule['kind'];
+  dayOfMonth: string;
+  month: string;
+  day: string;
+  intervalWeeks: string;
+  startDate: string;
+  endDate: string;
+  isActive: boolean;
+}
+
+function parseInRange(value: string, min: number, max: number): number | null {
+  if (!/^\d+$/.test(value.trim())) return null;
+  const parsed = Number(value);
+  return parsed >= min && parsed <= max ? parsed : null;
+}
+
+/**
+ * 入力中の繰り返し方を変換（不正な値はnull）
+ */
+function toSchedule(draft: RecurringDraft): RecurrenceSchedule | null {
+  switch (draft.scheduleKind) {
+    case 'monthly': {
+      const dayOfMonth = parseInRange(draft.dayOfMonth, 1, 31);
+      return dayOfMonth === null ? null : { kind: 'monthly', dayOfMonth };
+    }
+    case 'yearly': {
+      const month = parseInRange(draft.month, 1, 12);
+      const day = parseInRange(draft.day, 1, 31);
+      return month === null || day === null ? null : { kind: 'yearly', month, day };
+    }
+    case 'weekly': {
+      const intervalWeeks = parseInRange(draft.intervalWeeks, 1, 52);
+      return intervalWeeks === null ? null : { kind: 'weekly', intervalWeeks };
+    }
+  }
+}
+
+function defaultCategoryId(type: EntryType, categories: Category[]): string {
+  const candidates = categories.filter((c) => c.type === type);
+  return (candidates.find((c) => c.name.startsWith('その他')) ?? candidates[0])?.id ?? '';
+}
+
+/**
+ * 定期記録の管理画面
+ * 家賃・通信費・サブスクリプションなど、毎回撮影しない固定費の登録と、1回分のスキップ
+ */
+export default function RecurringScreen() {
+  const colors = useColors();
+  const [recurringEntries, setRecurringEntries] = useState<RecurringEntry[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [draft, setDraft] = useState<RecurringDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const today = formatDate(new Date());
+
+  // 定期記録とカテゴリを読み込み
+  const reload = async () => {
+    try {
+      const [loadedRecurring, loadedCategories] = await Promise.all([
+        loadRecurringEntries(),
+        loadCategories(),
+      ]);
+      setRecurringEntries(loadedRecurring);
+      setCategories(loadedCategories);
+    } catch (error) {
+      console.error('Failed to load recurring entries:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const notify = (type: Haptics.NotificationFeedbackType) => {
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(type);
+    }
+  };
+
+  // 新規作成を開始
+  const handleStartCreate = () => {
+    const [, month, day] = today.split('-').map(Number);
+    setDraft({
+      id: null,
+      type: 'expense',
+      itemName: '',
+      amount: '',
+      categoryId: defaultCategoryId('expense', categories),
+      note: '',
+      scheduleKind: 'monthly',
+      dayOfMonth: String(day),
+      month: String(month),
+      day: String(day),
+      intervalWeeks: '1',
+      startDate: today,
+      endDate: '',
+      isActive: true,
+    });
+  };
+
+  // 既存の定期記録の編集を開始
+  const handleStartEdit = (recurring: RecurringEntry) => {
+    const { schedule } = recurring;
+    setDraft({
+      id: recurring.id,
+      type: recurring.type,
+      itemName: recurring.itemName,
+      amount: String(recurring.amount),
+      categoryId: recurring.categoryId,
+      note: recurring.note ?? '',
+      scheduleKind: schedule.kind,
+      dayOfMonth: schedule.kind === 'monthly' ? String(schedule.dayOfMonth) : '1',
+      month: schedule.kind === 'yearly' ? String(schedule.month) : '1',
+      day: schedule.kind === 'yearly' ? String(schedule.day) : '1',
+      intervalWeeks: schedule.kind === 'weekly' ? String(schedule.intervalWeeks) : '1',
+      startDate: recurring.startDate,
+      endDate: recurring.endDate ?? '',
+      isActive: recurring.isActive,
+    });
+  };
+
+  // 追加・更新を保存
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    const amount = parseAmount(draft.amount);
+    const schedule = toSchedule(draft);
+    const endDate = draft.endDate.trim();
+    if (
+      draft.itemName.trim() === '' ||
+      amount === null ||
+      schedule === null ||
+      !isValidDate(draft.startDate) ||
+      (endDate !== '' && (!isValidDate(endDate) || endDate < draft.startDate))
+    ) {
+      Alert.alert('入力内容を確認してください', '項目名・金額・繰り返し・開始日/終了日を確認してください');
+      notify(Haptics.NotificationFeedbackType.Warning);
+      return;
+    }
+
+    const existing = recurringEntries.find((r) => r.id === draft.id);
+    const now = new Date().toISOString();
+
+    try {
+      await upsertRecurringEntry({
+        id: existing?.id ?? generateId('recurring'),
+        type: draft.type,
+        itemName: draft.itemName.trim(),
+        amount,
+        categoryId: draft.categoryId,
+        note: draft.note.trim() === '' ? undefined : draft.note.trim(),
+        schedule,
+        startDate: draft.startDate,
+        endDate: endDate === '' ? undefined : endDate,
+        generatedThrough: existing?.generatedThrough,
+        skippedDates: existing?.skippedDates ?? [],
+        isActive: draft.isActive,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+
+      // 開始日が今日以前なら、到来済みの分をすぐに作成する
+      const created = await materializeRecurringEntries();
+
+      notify(Haptics.NotificationFeedbackType.Success);
+      setDraft(null);
+      await reload();
+
+      if (created > 0) {
+        Alert.alert('定期記録', `${created}件の記録を作成しました`);
+      }
+    } catch (error) {
+      console.error('Save recurring entry error:', error);
+      Alert.alert('エラー', '定期記録の保存に失敗しました');
+      notify(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  // 削除（作成済みの記録は残る）
+  const handleDelete = (recurring: RecurringEntry) => {
+    Alert.alert(
+      '定期記録を削除',
+      `「${recurring.itemName}」を削除します。これまでに作成された記録は残ります。`,
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '削除',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteRecurringEntry(recurring.id);
+              notify(Haptics.NotificationFeedbackType.Success);
+              setDraft(null);
+              await reload();
+            } catch (error) {
+              console.error('Delete recurring entry error:', error);
+              Alert.alert('エラー', '定期記録の削除に失敗しました');
+              notify(Haptics.NotificationFeedbackType.Error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // 1回分のスキップを切り替え
+  const handleToggleSkip = async (recurring: RecurringEntry, date: string) => {
+    try {
+      await setOccurrenceSkipped(recurring.id, date, !recurring.skippedDates.includes(date));
+      await reload();
+    } catch (error) {
+      console.error('Skip occurrence error:', error);
+      Alert.alert('エラー', 'スキップの設定に失敗しました');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  const editing = draft?.id ? recurringEntries.find((r) => r.id === draft.id) : undefined;
+
+  const renderNumberInput = (
+    value: string,
+    onChange: (text: string) => void,
+    suffix: string,
+    isValid: boolean
+  ) => (
+    <View className="flex-row items-center gap-1">
+      <TextInput
+        value={value}
+        onChangeText={onChange}
+        keyboardType="number-pad"
+        className="w-16 text-base text-foreground text-center bg-background rounded-lg px-2 py-2 border"
+        style={{ borderColor: isValid ? colors.border : colors.warning }}
+      />
+      <Text className="text-sm text-foreground">{suffix}</Text>
+    </View>
+  );
+
+  return (
+    <ScreenContainer className="p-6">
+      {/* ヘッダー */}
+      <View className="flex-row items-center justify-between mb-4">
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text className="text-base text-muted">戻る</Text>
+        </TouchableOpacity>
+        <Text className="text-lg font-semibold text-foreground">定期記録</Text>
+        <TouchableOpacity onPress={handleStartCreate}>
+          <Text className="text-base font-semibold" style={{ color: colors.primary }}>
+            追加
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }} keyboardShouldPersistTaps="handled">
+        <View className="flex-1 gap-4 pb-8">
+          {/* 編集フォーム */}
+          {draft && (
+            <View className="bg-surface rounded-2xl p-4 border border-border gap-3">
+              <EntryTypeToggle
+                value={draft.type}
+                onChange={(type) =>
+                  setDraft({ ...draft, type, categoryId: defaultCategoryId(type, categories) })
+                }
+              />
+
+              <View className="gap-1">
+                <Text className="text-xs text-muted">項目名</Text>
+                <TextInput
+                  value={draft.itemName}
+                  onChangeText={(text) => setDraft({ ...draft, itemName: text })}
+                  placeholder="家賃、携帯電話料金など"
+                  placeholderTextColor={colors.muted}
+                  className="text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                  style={{ borderColor: draft.itemName.trim() !== '' ? colors.border : colors.warning }}
+                />
+              </View>
+
+              <View className="gap-1">
+                <Text className="text-xs text-muted">金額</Text>
+                <TextInput
+                  value={draft.amount}
+                  onChangeText={(text) => setDraft({ ...draft, amount: text })}
+                  placeholder="金額"
+                  placeholderTextColor={colors.muted}
+                  keyboardType="number-pad"
+                  className="text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                  style={{
+                    borderColor: parseAmount(draft.amount) !== null ? colors.border : colors.warning,
+                  }}
+                />
+              </View>
+
+              <View className="gap-1">
+                <Text className="text-xs text-muted">カテゴリ</Text>
+                <CategoryPicker
+                  categories={categories.filter((c) => c.type === draft.type)}
+                  selectedId={draft.categoryId}
+                  onSelect={(category) => setDraft({ ...draft, categoryId: category.id })}
+                />
+              </View>
+
+              <View className="gap-2">
+                <Text className="text-xs text-muted">繰り返し</Text>
+                <View className="flex-row gap-2">
+                  {SCHEDULE_KINDS.map((option) => {
+                    const isSelected = draft.scheduleKind === option.kind;
+                    return (
+                      <TouchableOpacity
+                        key={option.kind}
+                        onPress={() => setDraft({ ...draft, scheduleKind: option.kind })}
+                        style={{
+                          paddingHorizontal: 14,
+                          paddingVertical: 8,
+                          borderRadius: 16,
+                          borderWidth: 1,
+                          borderColor: isSelected ? colors.primary : colors.border,
+                          backgroundColor: isSelected ? colors.primary : 'transparent',
+                        }}
+                      >
+                        <Text
+                          className={isSelected ? 'text-sm text-white font-semibold' : 'text-sm text-foreground'}
+                        >
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {draft.scheduleKind === 'monthly' &&
+                  renderNumberInput(
+                    draft.dayOfMonth,
+                    (text) => setDraft({ ...draft, dayOfMonth: text }),
+                    '日（月末を超える日は月末）',
+                    parseInRange(draft.dayOfMonth, 1, 31) !== null
+                  )}
+                {draft.scheduleKind === 'yearly' && (
+                  <View className="flex-row gap-3">
+                    {renderNumberInput(
+                      draft.month,
+                      (text) => setDraft({ ...draft, month: text }),
+                      '月',
+                      parseInRange(draft.month, 1, 12) !== null
+                    )}
+                    {renderNumberInput(
+                      draft.day,
+                      (text) => setDraft({ ...draft, day: text }),
+                      '日',
+                      parseInRange(draft.day, 1, 31) !== null
+                    )}
+                  </View>
+                )}
+                {draft.scheduleKind === 'weekly' &&
+                  renderNumberInput(
+                    draft.intervalWeeks,
+                    (text) => setDraft({ ...draft, intervalWeeks: text }),
+                    '週ごと（開始日の曜日）',
+                    parseInRange(draft.intervalWeeks, 1, 52) !== null
+                  )}
+              </View>
+
+              <View className="flex-row gap-3">
+                <View className="flex-1 gap-1">
+                  <Text className="text-xs text-muted">開始日</Text>
+                  <TextInput
+                    value={draft.startDate}
+                    onChangeText={(text) => setDraft({ ...draft, startDate: text })}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={colors.muted}
+                    className="text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                    style={{ borderColor: isValidDate(draft.startDate) ? colors.border : colors.warning }}
+                  />
+                </View>
+                <View className="flex-1 gap-1">
+                  <Text className="text-xs text-muted">終了日（任意）</Text>
+                  <TextInput
+                    value={draft.endDate}
+                    onChangeText={(text) => setDraft({ ...draft, endDate: text })}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={colors.muted}
+                    className="text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                    style={{
+                      borderColor:
+                        draft.endDate.trim() === '' || isValidDate(draft.endDate.trim())
+                          ? colors.border
+                          : colors.warning,
+                    }}
+                  />
+                </View>
+              </View>
+
+              <View className="gap-1">
+                <Text className="text-xs text-muted">メモ</Text>
+                <TextInput
+                  value={draft.note}
+                  onChangeText={(text) => setDraft({ ...draft, note: text })}
+                  placeholder="メモ（任意）"
+                  placeholderTextColor={colors.muted}
+                  className="text-base text-foreground bg-background rounded-lg px-3 py-2 border border-border"
+                />
+              </View>
+
+              <View className="flex-row items-center justify-between">
+                <Text className="text-sm text-foreground">自動で記録する</Text>
+                <Switch
+                  value={draft.isActive}
+                  onValueChange={(value) => setDraft({ ...draft, isActive: value })}
+                  trackColor={{ true: colors.primary, false: colors.border }}
+                />
+              </View>
+
+              {/* 今後の予定（1回分だけスキップできる） */}
+              {editing && (
+                <View className="gap-2">
+                  <Text className="text-xs text-muted">今後の予定</Text>
+                  {getUpcomingOccurrences(editing, today, UPCOMING_COUNT).map((date) => {
+                    const isSkipped = editing.skippedDates.includes(date);
+                    return (
+                      <View key={date} className="flex-row items-center justify-between">
+                        <Text
+                          className="text-sm"
+                          style={{
+                            color: isSkipped ? colors.muted : colors.foreground,
+                            textDecorationLine: isSkipped ? 'line-through' : 'none',
+                          }}
+                        >
+                          {date}
+                        </Text>
+                        <TouchableOpacity onPress={() => handleToggleSkip(editing, date)}>
+                          <Text className="text-sm" style={{ color: colors.primary }}>
+                            {isSkipped ? 'スキップを取り消す' : 'この回をスキップ'}
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                    );
+                  })}
+                  <Text className="text-xs text-muted">
+                    作成済みの回は、ホームや分析画面の記録から金額の修正・削除ができます。
+                  </Text>
+                </View>
+              )}
+
+              <View className="flex-row gap-3">
+                <TouchableOpacity
+                  onPress={() => setDraft(null)}
+                  style={{
+                    flex: 1,
+                    paddingVertical: 12,
+                    borderRadius: 12,
+                    borderWidth: 1,
+                    borderColor: colors.border,
+                  }}
+                >
+                  <Text className="text-center text-foreground">キャンセル</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleSaveDraft}
+                  style={{
+                    flex: 1,
+                    paddingVertical: 12,
+                    borderRadius: 12,
+                    backgroundColor: colors.primary,
+                  }}
+                >
+                  <Text className="text-center text-background font-semibold">保存</Text>
+                </TouchableOpacity>
+              </View>
+
+              {editing && (
+                <TouchableOpacity onPress={() => handleDelete(editing)}>
+                  <Text className="text-center text-sm" style={{ color: colors.error }}>
+                    この定期記録を削除
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {/* 定期記録一覧 */}
+          <View className="bg-surface rounded-2xl p-4 border border-border">
+            {recurringEntries.length === 0 && (
+              <Text className="text-sm text-muted text-center py-4">
+                家賃や通信費などを登録すると、毎回自動で記録されます
+              </Text>
+            )}
+            {recurringEntries.map((recurring) => {
+              const category = categories.find((c) => c.id === recurring.categoryId);
+              const [next] = getUpcomingOccurrences(recurring, today, UPCOMING_COUNT).filter(
+                (date) => !recurring.skippedDates.includes(date)
+              );
+              return (
+                <TouchableOpacity
+                  key={recurring.id}
+                  className="flex-row items-center gap-3 py-2"
+                  activeOpacity={0.7}
+                  onPress={() => handleStartEdit(recurring)}
+                  style={{ opacity: recurring.isActive ? 1 : 0.5 }}
+                >
+                  <CategoryIcon icon={category?.icon} color={category?.color ?? colors.muted} />
+                  <View className="flex-1">
+                    <Text className="text-base text-foreground">{recurring.itemName}</Text>
+                    <Text className="text-xs text-muted mt-1">
+                      {describeSchedule(recurring.schedule)}
+                      {recurring.isActive && next ? ` • 次回 ${next}` : ''}
+                      {!recurring.isActive ? ' • 停止中' : ''}
+                    </Text>
+                  </View>
+                  <Text
+                    className="text-sm font-semibold"
+                    style={{ color: recurring.type === 'income' ? colors.success : colors.foreground }}
+                  >
+                    {recurring.type === 'income' ? '+' : ''}¥{recurring.amount.toLocaleString()}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text className="text-xs text-muted">
+            アプリを開いたときに、発生日を迎えた分が自動で記録されます。
+          </Text>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
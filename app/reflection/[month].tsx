@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import {
+  ScrollView,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ScreenContainer } from '@/components/screen-container';
+import { useColors } from '@/hooks/use-colors';
+import { getEntriesByMonth, getReflection, loadCategories, saveReflection } from '@/lib/storage';
+import { calculateMonthlySummary } from '@/lib/summary';
+import { createReviewSnapshot } from '@/lib/reflection';
+import { parseAmount } from '@/lib/entry-form';
+import { MonthlyReflection, MonthlySummary } from '@/types/kakeibo';
+
+/**
+ * 任意入力の金額を変換（空欄はundefined、不正な値はnull）
+ */
+function parseOptionalAmount(value: string): number | undefined | null {
+  if (value.trim() === '') return undefined;
+  if (/^[0０]$/.test(value.trim())) return 0;
+  return parseAmount(value);
+}
+
+/**
+ * 月次の振り返り画面
+ * 月初の目標（いくらあるか・いくら貯めたいか）と、
+ * 月末の振り返り（いくら使ったか・どうすれば改善できるか）を記録
+ */
+export default function ReflectionScreen() {
+  const colors = useColors();
+  const { month } = useLocalSearchParams<{ month: string }>();
+  const [reflection, setReflection] = useState<MonthlyReflection | undefined>(undefined);
+  const [summary, setSummary] = useState<MonthlySummary | null>(null);
+  const [availableAmount, setAvailableAmount] = useState('');
+  const [savingsGoal, setSavingsGoal] = useState('');
+  const [improvement, setImprovement] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [year, monthNumber] = month.split('-').map(Number);
+
+  // 振り返りと対象月の記録を読み込み
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [loadedReflection, entries, categories] = await Promise.all([
+          getReflection(month),
+          getEntriesByMonth(year, monthNumber),
+          loadCategories(),
+        ]);
+        setReflection(loadedReflection);
+        setSummary(calculateMonthlySummary(entries, categories, year, monthNumber));
+        setAvailableAmount(loadedReflection?.availableAmount?.toString() ?? '');
+        setSavingsGoal(loadedReflection?.savingsGoal?.toString() ?? '');
+        setImprovement(loadedReflection?.improvement ?? '');
+      } catch (error) {
+        console.error('Failed to load reflection:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [month, year, monthNumber]);
+
+  // 保存（改善点を書いたときに、その時点の集計を振り返りとして記録する）
+  const handleSave = async () => {
+    if (!summary || isSaving) return;
+
+    const parsedAvailable = parseOptionalAmount(availableAmount);
+    const parsedGoal = parseOptionalAmount(savingsGoal);
+    if (parsedAvailable === null || parsedGoal === null) {
+      Alert.alert('入力内容を確認してください', '金額は0以上の整数で入力してください');
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      }
+      return;
+    }
+
+    const trimmedImprovement = improvement.trim();
+
+    try {
+      setIsSaving(true);
+
+      await saveReflection(month, {
+        availableAmount: parsedAvailable,
+        savingsGoal: parsedGoal,
+        ...(trimmedImprovement !== ''
+          ? {
+              ...createReviewSnapshot(summary),
+              improvement: trimmedImprovement,
+              reviewedAt: new Date().toISOString(),
+            }
+          : { improvement: undefined, reviewedAt: undefined }),
+      });
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+
+      router.back();
+    } catch (error) {
+      console.error('Save reflection error:', error);
+      Alert.alert('エラー', '振り返りの保存に失敗しました');
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || !summary) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  const goal = parseOptionalAmount(savingsGoal);
+  const goalDifference = typeof goal === 'number' ? summary.balance - goal : null;
+
+  return (
+    <ScreenContainer className="p-6">
+      {/* ヘッダー */}
+      <View className="flex-row items-center justify-between mb-4">
+        <TouchableOpacity onPress={() => router.back()} disabled={isSaving}>
+          <Text className="text-base text-muted">戻る</Text>
+        </TouchableOpacity>
+        <Text className="text-lg font-semibold text-foreground">
+          {year}年{monthNumber}月の振り返り
+        </Text>
+        <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+          <Text className="text-base font-semibold" style={{ color: colors.primary }}>
+            {isSaving ? '保存中...' : '保存'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }} keyboardShouldPersistTaps="handled">
+        <View className="flex-1 gap-4 pb-8">
+          {/* 月初の目標 */}
+          <View className="bg-surface rounded-2xl p-4 border border-border gap-3">
+            <Text className="text-lg font-semibold text-foreground">月初の目標</Text>
+
+            <View className="gap-1">
+              <Text className="text-xs text-muted">1. 今、いくらありますか？</Text>
+              <TextInput
+                value={availableAmount}
+                onChangeText={setAvailableAmount}
+                placeholder="手元のお金（任意）"
+                placeholderTextColor={colors.muted}
+                keyboardType="number-pad"
+                className="text-base text-foreground bg-background rounded-lg px-3 py-2 border border-border"
+              />
+            </View>
+
+            <View className="gap-1">
+              <Text className="text-xs text-muted">2. いくら貯めたいですか？</Text>
+              <TextInput
+                value={savingsGoal}
+                onChangeText={setSavingsGoal}
+                placeholder="今月の貯金目標"
+                placeholderTextColor={colors.muted}
+                keyboardType="number-pad"
+                className="text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                style={{ borderColor: goal !== null ? colors.border : colors.warning }}
+              />
+            </View>
+          </View>
+
+          {/* 月末の振り返り */}
+          <View className="bg-surface rounded-2xl p-4 border border-border gap-3">
+            <Text className="text-lg font-semibold text-foreground">月末の振り返り</Text>
+
+            <View className="gap-2">
+              <Text className="text-xs text-muted">3. いくら使いましたか？（記録から自動入力）</Text>
+              <View className="flex-row justify-between">
+                <Text className="text-sm text-muted">収入</Text>
+                <Text className="text-sm font-semibold" style={{ color: colors.success }}>
+                  ¥{summary.totalIncome.toLocaleString()}
+                </Text>
+              </View>
+              <View className="flex-row justify-between">
+                <Text className="text-sm text-muted">支出</Text>
+                <Text className="text-sm font-semibold text-foreground">
+                  ¥{summary.totalAmount.toLocaleString()}
+                </Text>
+              </View>
+              <View className="flex-row justify-between">
+                <Text className="text-sm text-muted">貯められた額</Text>
+                <Text
+                  className="text-sm font-semibold"
+                  style={{ color: summary.balance < 0 ? colors.error : colors.foreground }}
+                >
+                  ¥{summary.balance.toLocaleString()}
+                </Text>
+              </View>
+              {goalDifference !== null && (
+                <Text
+                  className="text-sm text-right"
+                  style={{ color: goalDifference >= 0 ? colors.success : colors.warning }}
+                >
+                  {goalDifference >= 0
+                    ? '目標を達成しました'
+                    : `目標まであと ¥${(-goalDifference).toLocaleString()}`}
+                </Text>
+              )}
+              {summary.categoryBreakdown.length > 0 && (
+                <Text className="text-xs text-muted">
+                  支出の多いカテゴリ:{' '}
+                  {summary.categoryBreakdown
+                    .slice(0, 3)
+                    .map((item) => `${item.categoryName} ¥${item.amount.toLocaleString()}`)
+                    .join('、')}
+                </Text>
+              )}
+            </View>
+
+            <View className="gap-1">
+              <Text className="text-xs text-muted">4. どうすれば改善できますか？</Text>
+              <TextInput
+                value={improvement}
+                onChangeText={setImprovement}
+                placeholder="来月に向けて気づいたこと"
+                placeholderTextColor={colors.muted}
+                multiline
+                className="text-base text-foreground bg-background rounded-lg px-3 py-2 border border-border"
+                style={{ minHeight: 100, textAlignVertical: 'top' }}
+              />
+            </View>
+
+            {reflection?.reviewedAt && (
+              <Text className="text-xs text-muted">
+                振り返り: {new Date(reflection.reviewedAt).toLocaleString()}
+              </Text>
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,614 @@
+import { useState, useEffect } from 'react';
+import {
+  ScrollView,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Switch,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { ScreenContainer } from '@/components/screen-container';
+import { CategoryPicker } from '@/components/category-picker';
+import { SegmentedControl } from '@/components/segmented-control';
+import { useColors } from '@/hooks/use-colors';
+import {
+  loadCategories,
+  loadEntries,
+  loadEntryRules,
+  upsertEntryRule,
+  deleteEntryRule,
+  reorderEntryRules,
+  applyRulesToExistingEntries,
+  generateId,
+} from '@/lib/storage';
+import { compileRulePattern, describeRule, previewRules, RulePreview, WEEKDAY_LABELS } from '@/lib/rules';
+import { parseAmount } from '@/lib/entry-form';
+import { Category, EntryRule, EntryRuleAction, EntryRuleConditions } from '@/types/kakeibo';
+
+type ItemNameMatch = NonNullable<EntryRuleConditions['itemName']>['match'];
+
+const MATCH_OPTIONS: { value: ItemNameMatch; label: string }[] = [
+  { value: 'contains', label: '含む' },
+  { value: 'regex', label: '正規表現' },
+];
+
+// プレビューに表示する記録の件数
+const PREVIEW_LIMIT = 20;
+
+/**
+ * 編集中のルール（idがnullなら新規作成、金額は入力中の文字列、categoryIdがnullならカテゴリは変えない）
+ */
+interface RuleDraft {
+  id: string | null;
+  name: string;
+  match: ItemNameMatch;
+  pattern: string;
+  minAmount: string;
+  maxAmount: string;
+  weekdays: number[];
+  categoryId: string | null;
+  tag: string;
+  note: string;
+  isActive: boolean;
+}
+
+/**
+ * 入力中のルールを条件と動作に変換（不正な入力はエラーメッセージ）
+ */
+function toRuleFields(draft: RuleDraft): Pick<EntryRule, 'conditions' | 'actions'> | string {
+  const pattern = draft.pattern.trim();
+  if (draft.match === 'regex' && pattern !== '' && !compileRulePattern(pattern)) {
+    return '正規表現の書き方を確認してください';
+  }
+
+  const minAmount = draft.minAmount.trim() === '' ? undefined : parseAmount(draft.minAmount);
+  const maxAmount = draft.maxAmount.trim() === '' ? undefined : parseAmount(draft.maxAmount);
+  if (minAmount === null || maxAmount === null) return '金額を確認してください';
+  if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+    return '金額の範囲を確認してください';
+  }
+
+  const conditions: EntryRuleConditions = {
+    itemName: pattern !== '' ? { match: draft.match, pattern } : undefined,
+    minAmount,
+    maxAmount,
+    weekdays: draft.weekdays.length > 0 ? [...draft.weekdays].sort() : undefined,
+  };
+  if (Object.values(conditions).every((value) => value === undefined)) {
+    return '項目名・金額・曜日のいずれかの条件を入力してください';
+  }
+
+  const actions: EntryRuleAction[] = [];
+  if (draft.categoryId) actions.push({ kind: 'setCategory', categoryId: draft.categoryId });
+  if (draft.tag.trim() !== '') actions.push({ kind: 'addTag', tag: draft.tag.trim() });
+  if (draft.note.trim() !== '') actions.push({ kind: 'setNote', note: draft.note.trim() });
+  if (actions.length === 0) return 'カテゴリ・タグ・メモのいずれかを設定してください';
+
+  return { conditions, actions };
+}
+
+/**
+ * 自動分類ルールの管理画面
+ * 項目名・金額・曜日の条件で、スキャンや定期記録で作成した記録のカテゴリ・タグ・メモを自動で設定する
+ * 編集中のルールは既存の記録で試し、変わる内容を確認してから既存の記録にも適用できる
+ */
+export default function RulesScreen() {
+  const colors = useColors();
+  const [rules, setRules] = useState<EntryRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [preview, setPreview] = useState<RulePreview[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // ルールとカテゴリを読み込み
+  const reload = async () => {
+    try {
+      const [loadedRules, loadedCategories] = await Promise.all([loadEntryRules(), loadCategories()]);
+      setRules(loadedRules);
+      setCategories(loadedCategories);
+    } catch (error) {
+      console.error('Failed to load entry rules:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const notify = (type: Haptics.NotificationFeedbackType) => {
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(type);
+    }
+  };
+
+  // 編集内容が変わったらプレビューをやり直す
+  const updateDraft = (updated: RuleDraft) => {
+    setDraft(updated);
+    setPreview(null);
+  };
+
+  // 新規作成を開始
+  const handleStartCreate = () => {
+    setPreview(null);
+    setDraft({
+      id: null,
+      name: '',
+      match: 'contains',
+      pattern: '',
+      minAmount: '',
+      maxAmount: '',
+      weekdays: [],
+      categoryId: null,
+      tag: '',
+      note: '',
+      isActive: true,
+    });
+  };
+
+  // 既存のルールの編集を開始
+  const handleStartEdit = (rule: EntryRule) => {
+    const { itemName, minAmount, maxAmount, weekdays } = rule.conditions;
+    const actionOf = <K extends EntryRuleAction['kind']>(kind: K) =>
+      rule.actions.find((a): a is Extract<EntryRuleAction, { kind: K }> => a.kind === kind);
+    setPreview(null);
+    setDraft({
+      id: rule.id,
+      name: rule.name,
+      match: itemName?.match ?? 'contains',
+      pattern: itemName?.pattern ?? '',
+      minAmount: minAmount !== undefined ? String(minAmount) : '',
+      maxAmount: maxAmount !== undefined ? String(maxAmount) : '',
+      weekdays: weekdays ?? [],
+      categoryId: actionOf('setCategory')?.categoryId ?? null,
+      tag: actionOf('addTag')?.tag ?? '',
+      note: actionOf('setNote')?.note ?? '',
+      isActive: rule.isActive,
+    });
+  };
+
+  // 入力中のルールを組み立てる（不正な入力は警告してnull）
+  const buildRule = (current: RuleDraft): EntryRule | null => {
+    const fields = toRuleFields(current);
+    if (current.name.trim() === '' || typeof fields === 'string') {
+      Alert.alert('入力内容を確認してください', typeof fields === 'string' ? fields : 'ルール名を入力してください');
+      notify(Haptics.NotificationFeedbackType.Warning);
+      return null;
+    }
+
+    const existing = rules.find((r) => r.id === current.id);
+    const now = new Date().toISOString();
+    return {
+      id: existing?.id ?? generateId('rule'),
+      name: current.name.trim(),
+      ...fields,
+      priority: existing?.priority ?? rules.length,
+      isActive: current.isActive,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+  };
+
+  // 既存の記録で試す（停止中のルールも試せるよう、有効にして当てる）
+  const handlePreview = async () => {
+    if (!draft) return;
+    const rule = buildRule(draft);
+    if (!rule) return;
+
+    try {
+      const entries = await loadEntries();
+      setPreview(previewRules(entries, [{ ...rule, isActive: true }], categories));
+    } catch (error) {
+      console.error('Preview rule error:', error);
+      Alert.alert('エラー', 'ルールを試せませんでした');
+    }
+  };
+
+  // 追加・更新を保存
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    const rule = buildRule(draft);
+    if (!rule) return;
+
+    try {
+      await upsertEntryRule(rule);
+      notify(Haptics.NotificationFeedbackType.Success);
+      setDraft(null);
+      setPreview(null);
+      await reload();
+    } catch (error) {
+      console.error('Save entry rule error:', error);
+      Alert.alert('エラー', 'ルールの保存に失敗しました');
+      notify(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  // プレビューした内容を既存の記録にも適用（確認ダイアログ）
+  const handleApplyToExisting = () => {
+    if (!draft || !preview || preview.length === 0) return;
+    const rule = buildRule(draft);
+    if (!rule) return;
+
+    Alert.alert('既存の記録に適用', `${preview.length}件の記録を変更します。この操作は取り消せません。`, [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: '適用',
+        onPress: async () => {
+          try {
+            const updated = await applyRulesToExistingEntries([{ ...rule, isActive: true }]);
+            notify(Haptics.NotificationFeedbackType.Success);
+            setPreview(null);
+            Alert.alert('自動分類ルール', `${updated}件の記録を変更しました`);
+          } catch (error) {
+            console.error('Apply entry rule error:', error);
+            Alert.alert('エラー', '記録の変更に失敗しました');
+            notify(Haptics.NotificationFeedbackType.Error);
+          }
+        },
+      },
+    ]);
+  };
+
+  // 削除（適用済みの記録は変わらない）
+  const handleDelete = (rule: EntryRule) => {
+    Alert.alert('ルールを削除', `「${rule.name}」を削除します。適用済みの記録は変わりません。`, [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: '削除',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteEntryRule(rule.id);
+            notify(Haptics.NotificationFeedbackType.Success);
+            setDraft(null);
+            setPreview(null);
+            await reload();
+          } catch (error) {
+            console.error('Delete entry rule error:', error);
+            Alert.alert('エラー', 'ルールの削除に失敗しました');
+            notify(Haptics.NotificationFeedbackType.Error);
+          }
+        },
+      },
+    ]);
+  };
+
+  // 優先度を1つ上げる・下げる
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    const ids = rules.map((rule) => rule.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    try {
+      await reorderEntryRules(ids);
+      await reload();
+    } catch (error) {
+      console.error('Reorder entry rules error:', error);
+      Alert.alert('エラー', '並び替えに失敗しました');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  const editing = draft?.id ? rules.find((r) => r.id === draft.id) : undefined;
+
+  // プレビューの1件（変わる項目を「前 → 後」で表示）
+  const renderPreviewItem = ({ before, after, changes }: RulePreview) => (
+    <View key={before.id} className="py-2 border-b border-border">
+      <Text className="text-sm text-foreground">
+        {before.date} {before.itemName} ¥{before.amount.toLocaleString()}
+      </Text>
+      {changes.includes('category') && (
+        <Text className="text-xs text-muted mt-1">
+          カテゴリ: {before.categoryName ?? '未分類'} → {after.categoryName}
+        </Text>
+      )}
+      {changes.includes('tags') && (
+        <Text className="text-xs text-muted mt-1">タグ: {after.tags?.map((tag) => `#${tag}`).join(' ')}</Text>
+      )}
+      {changes.includes('note') && (
+        <Text className="text-xs text-muted mt-1">
+          メモ: {before.note ?? 'なし'} → {after.note ?? 'なし'}
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <ScreenContainer className="p-6">
+      {/* ヘッダー */}
+      <View className="flex-row items-center justify-between mb-4">
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text className="text-base text-muted">戻る</Text>
+        </TouchableOpacity>
+        <Text className="text-lg font-semibold text-foreground">自動分類ルール</Text>
+        <TouchableOpacity onPress={handleStartCreate}>
+          <Text className="text-base font-semibold" style={{ color: colors.primary }}>
+            追加
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }} keyboardShouldPersistTaps="handled">
+        <View className="flex-1 gap-4 pb-8">
+          {/* 編集フォーム */}
+          {draft && (
+            <View className="bg-surface rounded-2xl p-4 border border-border gap-3">
+              <View className="gap-1">
+                <Text className="text-xs text-muted">ルール名</Text>
+                <TextInput
+                  value={draft.name}
+                  onChangeText={(text) => setDraft({ ...draft, name: text })}
+                  placeholder="コンビニ、週末の外食など"
+                  placeholderTextColor={colors.muted}
+                  className="text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                  style={{ borderColor: draft.name.trim() !== '' ? colors.border : colors.warning }}
+                />
+              </View>
+
+              {/* 条件 */}
+              <Text className="text-sm font-semibold text-foreground">条件（すべて満たす記録に適用）</Text>
+              <View className="gap-2">
+                <Text className="text-xs text-muted">項目名</Text>
+                <SegmentedControl
+                  options={MATCH_OPTIONS}
+                  value={draft.match}
+                  onChange={(match) => updateDraft({ ...draft, match })}
+                />
+                <TextInput
+                  value={draft.pattern}
+                  onChangeText={(text) => updateDraft({ ...draft, pattern: text })}
+                  placeholder={draft.match === 'regex' ? '^(セブン|ローソン)' : 'セブン'}
+                  placeholderTextColor={colors.muted}
+                  autoCapitalize="none"
+                  className="text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                  style={{
+                    borderColor:
+                      draft.match === 'regex' && draft.pattern.trim() !== '' && !compileRulePattern(draft.pattern)
+                        ? colors.warning
+                        : colors.border,
+                  }}
+                />
+              </View>
+
+              <View className="flex-row gap-3">
+                {(['minAmount', 'maxAmount'] as const).map((field) => (
+                  <View key={field} className="flex-1 gap-1">
+                    <Text className="text-xs text-muted">{field === 'minAmount' ? '金額（以上）' : '金額（以下）'}</Text>
+                    <TextInput
+                      value={draft[field]}
+                      onChangeText={(text) => updateDraft({ ...draft, [field]: text })}
+                      placeholder="指定なし"
+                      placeholderTextColor={colors.muted}
+                      keyboardType="number-pad"
+                      className="text-base text-foreground bg-background rounded-lg px-3 py-2 border"
+                      style={{
+                        borderColor:
+                          draft[field].trim() === '' || parseAmount(draft[field]) !== null
+                            ? colors.border
+                            : colors.warning,
+                      }}
+                    />
+                  </View>
+                ))}
+              </View>
+
+              <View className="gap-2">
+                <Text className="text-xs text-muted">曜日（指定なしは毎日）</Text>
+                <View className="flex-row gap-2">
+                  {WEEKDAY_LABELS.map((label, day) => {
+                    const isSelected = draft.weekdays.includes(day);
+                    return (
+                      <TouchableOpacity
+                        key={label}
+                        onPress={() =>
+                          updateDraft({
+                            ...draft,
+                            weekdays: isSelected ? draft.weekdays.filter((d) => d !== day) : [...draft.weekdays, day],
+                          })
+                        }
+                        style={{
+                          width: 36,
+                          paddingVertical: 8,
+                          borderRadius: 18,
+                          borderWidth: 1,
+                          borderColor: isSelected ? colors.primary : colors.border,
+                          backgroundColor: isSelected ? colors.primary : 'transparent',
+                        }}
+                      >
+                        <Text
+                          className={
+                            isSelected
+                              ? 'text-sm text-center text-white font-semibold'
+                              : 'text-sm text-center text-foreground'
+                          }
+                        >
+                          {label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+
+              {/* 動作 */}
+              <Text className="text-sm font-semibold text-foreground">設定する内容</Text>
+              <View className="gap-2">
+                <View className="flex-row items-center justify-between">
+                  <Text className="text-xs text-muted">カテゴリ</Text>
+                  <TouchableOpacity onPress={() => updateDraft({ ...draft, categoryId: null })}>
+                    <Text className="text-xs" style={{ color: draft.categoryId ? colors.primary : colors.muted }}>
+                      変更しない
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                <CategoryPicker
+                  categories={categories}
+                  selectedId={draft.categoryId ?? ''}
+                  onSelect={(category) => updateDraft({ ...draft, categoryId: category.id })}
+                />
+              </View>
+
+              <View className="gap-1">
+                <Text className="text-xs text-muted">タグ</Text>
+                <TextInput
+                  value={draft.tag}
+                  onChangeText={(text) => updateDraft({ ...draft, tag: text })}
+                  placeholder="追加するタグ（任意）"
+                  placeholderTextColor={colors.muted}
+                  className="text-base text-foreground bg-background rounded-lg px-3 py-2 border border-border"
+                />
+              </View>
+
+              <View className="gap-1">
+                <Text className="text-xs text-muted">メモ</Text>
+                <TextInput
+                  value={draft.note}
+                  onChangeText={(text) => updateDraft({ ...draft, note: text })}
+                  placeholder="設定するメモ（任意）"
+                  placeholderTextColor={colors.muted}
+                  className="text-base text-foreground bg-background rounded-lg px-3 py-2 border border-border"
+                />
+              </View>
+
+              <View className="flex-row items-center justify-between">
+                <Text className="text-sm text-foreground">新しい記録に適用する</Text>
+                <Switch
+                  value={draft.isActive}
+                  onValueChange={(value) => setDraft({ ...draft, isActive: value })}
+                  trackColor={{ true: colors.primary, false: colors.border }}
+                />
+              </View>
+
+              {/* 既存の記録で試す */}
+              <TouchableOpacity
+                onPress={handlePreview}
+                style={{
+                  paddingVertical: 12,
+                  borderRadius: 12,
+                  borderWidth: 1,
+                  borderColor: colors.primary,
+                }}
+              >
+                <Text className="text-center font-semibold" style={{ color: colors.primary }}>
+                  既存の記録で試す
+                </Text>
+              </TouchableOpacity>
+
+              {preview && (
+                <View className="gap-1">
+                  <Text className="text-sm text-foreground">
+                    {preview.length > 0 ? `${preview.length}件の記録が変わります` : '変わる記録はありません'}
+                  </Text>
+                  {preview.slice(0, PREVIEW_LIMIT).map(renderPreviewItem)}
+                  {preview.length > PREVIEW_LIMIT && (
+                    <Text className="text-xs text-muted">ほか{preview.length - PREVIEW_LIMIT}件</Text>
+                  )}
+                  {preview.length > 0 && (
+                    <TouchableOpacity onPress={handleApplyToExisting} className="mt-2">
+                      <Text className="text-center text-sm" style={{ color: colors.primary }}>
+                        この内容で既存の記録を変更する
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+
+              <View className="flex-row gap-3">
+                <TouchableOpacity
+                  onPress={() => {
+                    setDraft(null);
+                    setPreview(null);
+                  }}
+                  style={{
+                    flex: 1,
+                    paddingVertical: 12,
+                    borderRadius: 12,
+                    borderWidth: 1,
+                    borderColor: colors.border,
+                  }}
+                >
+                  <Text className="text-center text-foreground">キャンセル</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleSaveDraft}
+                  style={{
+                    flex: 1,
+                    paddingVertical: 12,
+                    borderRadius: 12,
+                    backgroundColor: colors.primary,
+                  }}
+                >
+                  <Text className="text-center text-background font-semibold">保存</Text>
+                </TouchableOpacity>
+              </View>
+
+              {editing && (
+                <TouchableOpacity onPress={() => handleDelete(editing)}>
+                  <Text className="text-center text-sm" style={{ color: colors.error }}>
+                    このルールを削除
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {/* ルール一覧（上から順に評価） */}
+          <View className="bg-surface rounded-2xl p-4 border border-border">
+            {rules.length === 0 && (
+              <Text className="text-sm text-muted text-center py-4">
+                条件と設定する内容を登録すると、新しい記録に自動で適用されます
+              </Text>
+            )}
+            {rules.map((rule, index) => (
+              <View
+                key={rule.id}
+                className="flex-row items-center gap-3 py-2"
+                style={{ opacity: rule.isActive ? 1 : 0.5 }}
+              >
+                <TouchableOpacity className="flex-1" activeOpacity={0.7} onPress={() => handleStartEdit(rule)}>
+                  <Text className="text-base text-foreground">{rule.name}</Text>
+                  <Text className="text-xs text-muted mt-1">
+                    {describeRule(rule, categories)}
+                    {!rule.isActive ? ' • 停止中' : ''}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleMove(index, -1)} disabled={index === 0}>
+                  <Text className="text-base" style={{ color: index === 0 ? colors.border : colors.muted }}>
+                    ↑
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleMove(index, 1)} disabled={index === rules.length - 1}>
+                  <Text
+                    className="text-base"
+                    style={{ color: index === rules.length - 1 ? colors.border : colors.muted }}
+                  >
+                    ↓
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+
+          <Text className="text-xs text-muted">
+            スキャンや定期記録で作成した記録に、上のルールから順に適用します。
+            カテゴリとメモは先に一致したルールが決め、タグは一致したルールの分だけ追加します。
+            スキャン結果の確認画面で選び直したカテゴリは変えません。
+          </Text>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,492 @@
+import { useState, useEffect } from 'react';
+import {
+  ScrollView,
+  Text,
+  View,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  useWindowDimensions,
+} from 'react-native';
+import { Image } from 'expo-image';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { ScreenContainer } from '@/components/screen-container';
+import { CategoryPicker } from '@/components/category-picker';
+import { ImageRegionSnippet } from '@/components/image-region-snippet';
+import { SegmentedControl } from '@/components/segmented-control';
+import { useColors } from '@/hooks/use-colors';
+import { getScanDraft, clearScanDraft, isLowConfidence, mergeScanPages } from '@/lib/scan-draft';
+import { formatReceiptTaxes, receiptToEntries, ReceiptEntry, ReceiptSaveMode } from '@/lib/receipt';
+import { resolveCategory } from '@/lib/ai-analysis';
+import { findLearnedCategory } from '@/lib/learned-categories';
+import {
+  addEntriesWithRules,
+  loadCategories,
+  loadLearnedCategories,
+  recordCategoryCorrections,
+  generateId,
+} from '@/lib/storage';
+import { formatDate, isValidDate, parseAmount } from '@/lib/entry-form';
+import { Category, ImageRegion, KakeiboEntry, LearnedCategory } from '@/types/kakeibo';
+
+/**
+ * 編集中の1行（入力途中の値を保持するため金額は文字列）
+ */
+interface ReviewRow {
+  key: string;
+  date: string;
+  itemName: string;
+  amount: string;
+  categoryId: string;
+  suggestedCategoryId?: string; // 最初に提案したカテゴリ（変更されたら保存時に学習する。手で追加した行はなし）
+  isLearned?: boolean; // 提案が過去の修正から学習したカテゴリ
+  pageIndex?: number; // 読み取ったページ（手で追加した行はなし）
+  region?: ImageRegion; // 手書きの行が写っている範囲
+  needsCheck: boolean; // 読み取りに自信がなく、まだ修正されていない
+}
+
+const RECEIPT_SAVE_OPTIONS: { value: ReceiptSaveMode; label: string }[] = [
+  { value: 'total', label: '合計で1件' },
+  { value: 'itemized', label: '品目ごと' },
+];
+
+// 解析結果の行を編集用の行に変換（過去に修正した項目名はAIの推測より学習したカテゴリを優先する）
+function toReviewRow(
+  entry: ReceiptEntry,
+  pageIndex: number,
+  categories: Category[],
+  learned: LearnedCategory[]
+): ReviewRow {
+  const learnedCategory = findLearnedCategory(entry.itemName, learned, categories);
+  const categoryId = (learnedCategory ?? resolveCategory(entry.suggestedCategory, categories))?.id ?? '';
+  return {
+    key: generateId('row'),
+    date: entry.date,
+    itemName: entry.itemName,
+    amount: String(entry.amount),
+    categoryId,
+    suggestedCategoryId: categoryId,
+    isLearned: learnedCategory !== undefined,
+    pageIndex,
+    region: entry.region,
+    needsCheck: isLowConfidence(entry),
+  };
+}
+
+/**
+ * 結果確認・編集画面
+ * AI解析結果を確認・修正してから保存する
+ * 複数ページのスキャンは1つの一覧にまとめ、重なったページで二重に読み取った行は除いておく
+ * 信頼度の低い行は警告色で示し、読み取った手書き部分を切り出して並べる
+ * レシートは合計の1件か品目ごとかを選べる（切り替えるとそのレシートの行を作り直す）
+ */
+export default function ScanReviewScreen() {
+  const colors = useColors();
+  const { width: windowWidth } = useWindowDimensions();
+  const [draft] = useState(() => getScanDraft());
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [learned, setLearned] = useState<LearnedCategory[]>([]);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [duplicateCount, setDuplicateCount] = useState(0);
+  const [receiptModes, setReceiptModes] = useState<Record<number, ReceiptSaveMode>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // カテゴリを読み込み、解析結果を編集用の行に変換
+  useEffect(() => {
+    const prepare = async () => {
+      try {
+        const [loadedCategories, loadedLearned] = await Promise.all([
+          loadCategories(),
+          loadLearnedCategories(),
+        ]);
+        // スキャンした行は支出として保存するため、収入カテゴリは選べない
+        const expenseCategories = loadedCategories.filter((c) => c.type !== 'income');
+        setCategories(expenseCategories);
+        setLearned(loadedLearned);
+
+        const pages = draft?.pages ?? [];
+        const merged = mergeScanPages(pages);
+        setDuplicateCount(merged.duplicateCount);
+        // レシートは合計の1件から始める
+        const receiptRows = pages.flatMap((page, pageIndex) =>
+          page.mode === 'receipt'
+            ? receiptToEntries(page.receipt, 'total').map((entry) =>
+                toReviewRow(entry, pageIndex, expenseCategories, loadedLearned)
+              )
+            : []
+        );
+        setRows([
+          ...merged.rows.map((entry) => toReviewRow(entry, entry.pageIndex, expenseCategories, loadedLearned)),
+          ...receiptRows,
+        ]);
+      } catch (error) {
+        console.error('Failed to prepare review:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    prepare();
+  }, [draft]);
+
+  // 行の値を更新（修正した行は確認済みとみなす）
+  const updateRow = (key: string, updates: Partial<ReviewRow>) => {
+    setRows((current) =>
+      current.map((row) => (row.key === key ? { ...row, ...updates, needsCheck: false } : row))
+    );
+  };
+
+  // レシートの保存方法を切り替え、そのレシートの行を作り直す（元の行があった位置に入れる）
+  const handleReceiptModeChange = (pageIndex: number, mode: ReceiptSaveMode) => {
+    const page = draft?.pages[pageIndex];
+    if (page?.mode !== 'receipt') return;
+
+    setReceiptModes((current) => ({ ...current, [pageIndex]: mode }));
+    const replacement = receiptToEntries(page.receipt, mode).map((entry) =>
+      toReviewRow(entry, pageIndex, categories, learned)
+    );
+    setRows((current) => {
+      const position = current.findIndex((row) => row.pageIndex === pageIndex);
+      const others = current.filter((row) => row.pageIndex !== pageIndex);
+      const insertAt = position === -1 ? others.length : position;
+      return [...others.slice(0, insertAt), ...replacement, ...others.slice(insertAt)];
+    });
+  };
+
+  // 行を削除
+  const handleRemoveRow = (key: string) => {
+    setRows((current) => current.filter((row) => row.key !== key));
+  };
+
+  // 行を追加（直前の行の日付を引き継ぐ）
+  const handleAddRow = () => {
+    setRows((current) => [
+      ...current,
+      {
+        key: generateId('row'),
+        date: current[current.length - 1]?.date ?? formatDate(new Date()),
+        itemName: '',
+        amount: '',
+        categoryId: resolveCategory(undefined, categories)?.id ?? '',
+        needsCheck: false,
+      },
+    ]);
+  };
+
+  // 破棄して戻る
+  const handleCancel = () => {
+    Alert.alert('スキャン結果を破棄', '保存せずに戻りますか?', [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: '破棄',
+        style: 'destructive',
+        onPress: () => {
+          clearScanDraft();
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  // 検証してから保存
+  const handleSave = async () => {
+    if (isSaving) return;
+
+    if (rows.length === 0) {
+      Alert.alert('保存', '保存する項目がありません');
+      return;
+    }
+
+    const invalidIndex = rows.findIndex(
+      (row) => !isValidDate(row.date) || row.itemName.trim() === '' || parseAmount(row.amount) === null
+    );
+    if (invalidIndex !== -1) {
+      Alert.alert(
+        '入力内容を確認してください',
+        `${invalidIndex + 1}行目の日付（YYYY-MM-DD）・項目名・金額を確認してください`
+      );
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      }
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      const now = new Date().toISOString();
+      const entries: KakeiboEntry[] = rows.map((row) => {
+        const category = categories.find((c) => c.id === row.categoryId);
+        return {
+          id: generateId('entry'),
+          type: 'expense',
+          date: row.date,
+          itemName: row.itemName.trim(),
+          amount: parseAmount(row.amount) as number,
+          categoryId: row.categoryId,
+          categoryName: category?.name,
+          imageUri: row.pageIndex !== undefined ? draft?.pages[row.pageIndex]?.imageUri : undefined,
+          createdAt: now,
+          updatedAt: now,
+        };
+      });
+
+      // 自動分類ルールを適用して保存（確認画面でユーザーが選んだカテゴリは変えない）
+      await addEntriesWithRules(
+        entries,
+        entries
+          .filter((_, index) => rows[index].categoryId !== rows[index].suggestedCategoryId)
+          .map((entry) => entry.id)
+      );
+      // 提案から変えたカテゴリを覚え、次のスキャンから使う
+      await recordCategoryCorrections(
+        rows
+          .filter((row) => row.suggestedCategoryId !== undefined && row.categoryId !== row.suggestedCategoryId)
+          .map((row) => ({ itemName: row.itemName.trim(), categoryId: row.categoryId }))
+      ).catch((error) => console.error('Failed to learn categories:', error));
+      clearScanDraft();
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+
+      Alert.alert('保存完了', `${entries.length}件のデータを保存しました`, [
+        {
+          text: 'OK',
+          onPress: () => router.dismissTo('/'),
+        },
+      ]);
+    } catch (error) {
+      console.error('Save error:', error);
+      Alert.alert('エラー', '保存に失敗しました');
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color={colors.primary} />
+      </ScreenContainer>
+    );
+  }
+
+  // アプリ再起動などでスキャン結果が失われた場合
+  if (!draft) {
+    return (
+      <ScreenContainer className="items-center justify-center p-6">
+        <Text className="text-lg text-muted text-center mb-4">確認するスキャン結果がありません</Text>
+        <TouchableOpacity
+          style={{
+            backgroundColor: colors.primary,
+            paddingHorizontal: 24,
+            paddingVertical: 12,
+            borderRadius: 24,
+          }}
+          onPress={() => router.back()}
+        >
+          <Text className="text-background font-semibold">戻る</Text>
+        </TouchableOpacity>
+      </ScreenContainer>
+    );
+  }
+
+  const isMultiPage = draft.pages.length > 1;
+  const needsCheckCount = rows.filter((row) => row.needsCheck).length;
+  // 画面の左右余白（p-6）とカードの内側余白（p-4）を除いた幅
+  const snippetWidth = Math.min(windowWidth, 640) - 48 - 32;
+
+  return (
+    <ScreenContainer className="p-6">
+      {/* ヘッダー（左: 破棄、右: 保存） */}
+      <View className="flex-row items-center justify-between mb-4">
+        <TouchableOpacity onPress={handleCancel} disabled={isSaving}>
+          <Text className="text-base" style={{ color: colors.error }}>
+            破棄
+          </Text>
+        </TouchableOpacity>
+        <Text className="text-lg font-semibold text-foreground">結果確認</Text>
+        <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+          <Text className="text-base font-semibold" style={{ color: colors.primary }}>
+            {isSaving ? '保存中...' : '保存'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }} keyboardShouldPersistTaps="handled">
+        <View className="flex-1 gap-4 pb-8">
+          {/* 撮影した画像のサムネイル */}
+          {isMultiPage ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View className="flex-row gap-2">
+                {draft.pages.map((page, index) => (
+                  <View key={`${index}-${page.imageUri}`} className="items-center gap-1">
+                    <Image
+                      source={{ uri: page.imageUri }}
+                      style={{ width: 120, height: 160, borderRadius: 12, backgroundColor: colors.surface }}
+                      contentFit="contain"
+                    />
+                    <Text className="text-xs text-muted">{index + 1}ページ目</Text>
+                  </View>
+                ))}
+              </View>
+            </ScrollView>
+          ) : (
+            <Image
+              source={{ uri: draft.pages[0]?.imageUri }}
+              style={{ width: '100%', height: 180, borderRadius: 16, backgroundColor: colors.surface }}
+              contentFit="contain"
+            />
+          )}
+
+          <Text className="text-sm text-muted">
+            {isMultiPage ? `${draft.pages.length}ページから` : ''}
+            {rows.length}件の項目が見つかりました。誤認識があれば修正してください。
+          </Text>
+          {needsCheckCount > 0 && (
+            <Text className="text-sm" style={{ color: colors.warning }}>
+              読み取りに自信がない{needsCheckCount}件を色付きで示しています。手書きと見比べて確認してください。
+            </Text>
+          )}
+          {duplicateCount > 0 && (
+            <Text className="text-sm text-muted">
+              ページの重なりで二重に読み取った{duplicateCount}件を除きました。
+            </Text>
+          )}
+
+          {/* レシートの内容と保存方法 */}
+          {draft.pages.map((page, pageIndex) =>
+            page.mode === 'receipt' ? (
+              <View key={`receipt-${pageIndex}`} className="bg-surface rounded-2xl p-4 border border-border gap-2">
+                <View className="flex-row items-center justify-between">
+                  <Text className="text-base font-semibold text-foreground">
+                    {page.receipt.storeName ?? 'レシート'}
+                    {isMultiPage ? `（${pageIndex + 1}ページ目）` : ''}
+                  </Text>
+                  <Text className="text-base font-semibold text-foreground">
+                    ¥{page.receipt.total.toLocaleString()}
+                  </Text>
+                </View>
+                <Text className="text-sm text-muted">
+                  {page.receipt.date}・{page.receipt.items.length}品
+                </Text>
+                {page.receipt.taxes.length > 0 && (
+                  <Text className="text-xs text-muted">{formatReceiptTaxes(page.receipt)}</Text>
+                )}
+                <SegmentedControl
+                  options={RECEIPT_SAVE_OPTIONS}
+                  value={receiptModes[pageIndex] ?? 'total'}
+                  onChange={(mode) => handleReceiptModeChange(pageIndex, mode)}
+                  disabled={page.receipt.items.length === 0}
+                />
+                <Text className="text-xs text-muted">
+                  品目ごとの金額は合計と一致するよう税込で配分します。切り替えるとこのレシートの行の編集内容は元に戻ります。
+                </Text>
+              </View>
+            ) : null
+          )}
+
+          {/* 抽出されたデータのリスト */}
+          {rows.map((row, index) => {
+            const imageUri =
+              row.pageIndex !== undefined ? draft.pages[row.pageIndex]?.imageUri : undefined;
+            return (
+              <View
+                key={row.key}
+                className="bg-surface rounded-2xl p-4 border gap-3"
+                style={{ borderColor: row.needsCheck ? colors.warning : colors.border }}
+              >
+                <View className="flex-row items-center justify-between">
+                  <Text className="text-sm font-semibold text-foreground">
+                    {index + 1}行目
+                    {isMultiPage && row.pageIndex !== undefined ? `（${row.pageIndex + 1}ページ目）` : ''}
+                    {row.needsCheck && (
+                      <Text className="text-xs" style={{ color: colors.warning }}>
+                        {'  '}要確認
+                      </Text>
+                    )}
+                    {row.isLearned && row.categoryId === row.suggestedCategoryId && (
+                      <Text className="text-xs text-muted">{'  '}学習したカテゴリ</Text>
+                    )}
+                  </Text>
+                  <TouchableOpacity onPress={() => handleRemoveRow(row.key)}>
+                    <Text className="text-sm" style={{ color: colors.error }}>
+                      削除
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+
+                {/* 読み取った手書き部分 */}
+                {imageUri && row.region && (
+                  <ImageRegionSnippet imageUri={imageUri} region={row.region} width={snippetWidth} />
+                )}
+
+                <View className="flex-row gap-2">
+                  <TextInput
+                    value={row.date}
+                    onChangeText={(text) => updateRow(row.key, { date: text })}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={colors.muted}
+                    className="flex-1 text-sm text-foreground bg-background rounded-lg px-3 py-2 border"
+                    style={{ borderColor: isValidDate(row.date) ? colors.border : colors.warning }}
+                  />
+                  <TextInput
+                    value={row.amount}
+                    onChangeText={(text) => updateRow(row.key, { amount: text })}
+                    placeholder="金額"
+                    placeholderTextColor={colors.muted}
+                    keyboardType="number-pad"
+                    className="w-28 text-sm text-foreground bg-background rounded-lg px-3 py-2 border text-right"
+                    style={{
+                      borderColor: parseAmount(row.amount) !== null ? colors.border : colors.warning,
+                    }}
+                  />
+                </View>
+
+                <TextInput
+                  value={row.itemName}
+                  onChangeText={(text) => updateRow(row.key, { itemName: text })}
+                  placeholder="項目名"
+                  placeholderTextColor={colors.muted}
+                  className="text-sm text-foreground bg-background rounded-lg px-3 py-2 border"
+                  style={{ borderColor: row.itemName.trim() !== '' ? colors.border : colors.warning }}
+                />
+
+                <CategoryPicker
+                  categories={categories}
+                  selectedId={row.categoryId}
+                  onSelect={(category) => updateRow(row.key, { categoryId: category.id })}
+                />
+              </View>
+            );
+          })}
+
+          {/* 行を追加 */}
+          <TouchableOpacity
+            onPress={handleAddRow}
+            style={{
+              borderWidth: 1,
+              borderStyle: 'dashed',
+              borderColor: colors.primary,
+              paddingVertical: 14,
+              borderRadius: 12,
+            }}
+          >
+            <Text className="text-center font-semibold" style={{ color: colors.primary }}>
+              ＋ 項目を追加
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,47 @@
+import { Text, View } from 'react-native';
+import { useColors } from '@/hooks/use-colors';
+import { BudgetProgress } from '@/types/kakeibo';
+
+export interface BudgetProgressBarProps {
+  progress: BudgetProgress;
+}
+
+/**
+ * 予算の消化状況バー（80%以上で警告色、超過でエラー色）
+ */
+export function BudgetProgressBar({ progress }: BudgetProgressBarProps) {
+  const colors = useColors();
+  const barColor =
+    progress.status === 'over'
+      ? colors.error
+      : progress.status === 'warning'
+        ? colors.warning
+        : colors.primary;
+
+  return (
+    <View className="gap-1">
+      <View
+        style={{ height: 6, borderRadius: 3, backgroundColor: colors.border, overflow: 'hidden' }}
+      >
+        <View
+          style={{
+            width: `${Math.min(progress.ratio, 1) * 100}%`,
+            height: '100%',
+            backgroundColor: barColor,
+          }}
+        />
+      </View>
+      <Text
+        className="text-xs"
+        style={{ color: progress.status === 'ok' ? colors.muted : barColor }}
+      >
+        {progress.remaining >= 0
+          ? `残り ¥${progress.remaining.toLocaleString()}`
+          : `¥${(-progress.remaining).toLocaleString()} 超過`}{' '}
+        / 予算 ¥{progress.budget.toLocaleString()}
+        {progress.carriedOver !== 0 &&
+          `（繰越 ${progress.carriedOver > 0 ? '+' : '-'}¥${Math.abs(progress.carriedOver).toLocaleString()}）`}
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,31 @@
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { ComponentProps } from 'react';
+import { View } from 'react-native';
+
+type IoniconName = ComponentProps<typeof Ionicons>['name'];
+
+export interface CategoryIconProps {
+  icon?: string;
+  color: string;
+  size?: number;
+}
+
+/**
+ * カテゴリのアイコン（カテゴリ色の円の中にIoniconsを表示）
+ */
+export function CategoryIcon({ icon, color, size = 32 }: CategoryIconProps) {
+  return (
+    <View
+      style={{
+        width: size,
+        height: size,
+        borderRadius: size / 2,
+        backgroundColor: color,
+        justifyContent: 'center',
+        alignItems: 'center',
+      }}
+    >
+      <Ionicons name={(icon ?? 'ellipsis-horizontal') as IoniconName} size={size * 0.55} color="#FFFFFF" />
+    </View>
+  );
+}
@@ -0,0 +1,59 @@
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { useColors } from '@/hooks/use-colors';
+import { Category } from '@/types/kakeibo';
+
+export interface CategoryPickerProps {
+  categories: Category[];
+  selectedId: string;
+  onSelect: (category: Category) => void;
+}
+
+/**
+ * カテゴリ選択（横スクロールのチップ形式）
+ */
+export function CategoryPicker({ categories, selectedId, onSelect }: CategoryPickerProps) {
+  const colors = useColors();
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View className="flex-row gap-2">
+        {categories.map((category) => {
+          const isSelected = category.id === selectedId;
+          return (
+            <TouchableOpacity
+              key={category.id}
+              onPress={() => onSelect(category)}
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                paddingHorizontal: 12,
+                paddingVertical: 6,
+                borderRadius: 16,
+                borderWidth: 1,
+                borderColor: isSelected ? category.color : colors.border,
+                backgroundColor: isSelected ? category.color : 'transparent',
+              }}
+            >
+              {!isSelected && (
+                <View
+                  style={{
+                    width: 8,
+                    height: 8,
+                    borderRadius: 4,
+                    backgroundColor: category.color,
+                    marginRight: 6,
+                  }}
+                />
+              )}
+              <Text
+                className={isSelected ? 'text-xs font-semibold text-white' : 'text-xs text-foreground'}
+              >
+                {category.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,55 @@
+import { Text, TouchableOpacity, View } from 'react-native';
+import { useColors } from '@/hooks/use-colors';
+import { EntryType } from '@/types/kakeibo';
+
+export interface EntryTypeToggleProps {
+  value: EntryType;
+  onChange: (type: EntryType) => void;
+  disabled?: boolean;
+}
+
+const OPTIONS: { type: EntryType; label: string }[] = [
+  { type: 'expense', label: '支出' },
+  { type: 'income', label: '収入' },
+];
+
+/**
+ * 支出・収入の切り替え（セグメント形式）
+ */
+export function EntryTypeToggle({ value, onChange, disabled }: EntryTypeToggleProps) {
+  const colors = useColors();
+
+  return (
+    <View
+      className="flex-row rounded-xl border border-border overflow-hidden"
+      style={{ opacity: disabled ? 0.5 : 1 }}
+    >
+      {OPTIONS.map((option) => {
+        const isSelected = option.type === value;
+        const activeColor = option.type === 'income' ? colors.success : colors.primary;
+        return (
+          <TouchableOpacity
+            key={option.type}
+            onPress={() => onChange(option.type)}
+            disabled={disabled}
+            style={{
+              flex: 1,
+              paddingVertical: 10,
+              backgroundColor: isSelected ? activeColor : 'transparent',
+            }}
+          >
+            <Text
+              className={
+                isSelected
+                  ? 'text-center text-sm font-semibold text-white'
+                  : 'text-center text-sm text-foreground'
+              }
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { Image as NativeImage, View } from 'react-native';
+import { Image } from 'expo-image';
+import { useColors } from '@/hooks/use-colors';
+import { ImageRegion } from '@/types/kakeibo';
+
+export interface ImageRegionSnippetProps {
+  imageUri: string;
+  region: ImageRegion;
+  width: number; // 表示する幅（高さは範囲の縦横比から決める）
+  maxHeight?: number;
+}
+
+/**
+ * 画像の一部分（手書きの1行など）を切り出して表示
+ * 元画像を拡大して枠からはみ出した部分を隠す。画像サイズが分かるまでは何も表示しない
+ */
+export function ImageRegionSnippet({ imageUri, region, width, maxHeight = 64 }: ImageRegionSnippetProps) {
+  const colors = useColors();
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+    NativeImage.getSize(
+      imageUri,
+      (imageWidth, imageHeight) => {
+        if (isActive) setSize({ width: imageWidth, height: imageHeight });
+      },
+      (error) => console.warn('Failed to read image size:', error)
+    );
+    return () => {
+      isActive = false;
+    };
+  }, [imageUri]);
+
+  if (!size) return null;
+
+  // 範囲の幅が表示幅になるよう元画像を拡大する
+  const scale = width / (region.width * size.width);
+  const height = Math.min(maxHeight, region.height * size.height * scale);
+
+  return (
+    <View
+      style={{
+        width,
+        height,
+        overflow: 'hidden',
+        borderRadius: 6,
+        backgroundColor: colors.surface,
+      }}
+    >
+      <Image
+        source={{ uri: imageUri }}
+        style={{
+          position: 'absolute',
+          left: -region.x * size.width * scale,
+          top: -region.y * size.height * scale,
+          width: size.width * scale,
+          height: size.height * scale,
+        }}
+        contentFit="fill"
+      />
+    </View>
+  );
+}
@@ -0,0 +1,77 @@
+import { ActivityIndicator, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { Image } from 'expo-image';
+import { useColors } from '@/hooks/use-colors';
+import { ScanSessionPage } from '@/hooks/use-scan-session';
+
+export interface ScanPageTrayProps {
+  pages: ScanSessionPage[];
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * スキャン中のページ一覧（横スクロールのサムネイルと解析状況）
+ * 失敗したページはタップで再解析、長押しで取り除く
+ */
+export function ScanPageTray({ pages, onRetry, onRemove }: ScanPageTrayProps) {
+  const colors = useColors();
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View className="flex-row gap-2">
+        {pages.map((page, index) => {
+          const label =
+            page.status === 'done'
+              ? page.receipt
+                ? `${page.receipt.items.length}品`
+                : `${page.result?.entries.length ?? 0}件`
+              : page.status === 'failed'
+                ? '再試行'
+                : page.status === 'analyzing'
+                  ? '解析中'
+                  : '待機中';
+          return (
+            <TouchableOpacity
+              key={page.id}
+              onPress={() => page.status === 'failed' && onRetry(page.id)}
+              onLongPress={() => onRemove(page.id)}
+              disabled={page.status === 'analyzing'}
+              style={{
+                width: 64,
+                borderRadius: 8,
+                borderWidth: 2,
+                borderColor: page.status === 'failed' ? colors.error : colors.border,
+                backgroundColor: colors.surface,
+                overflow: 'hidden',
+              }}
+            >
+              <Image source={{ uri: page.imageUri }} style={{ width: 60, height: 72 }} contentFit="cover" />
+              {page.status === 'analyzing' && (
+                <View
+                  style={{
+                    position: 'absolute',
+                    top: 0,
+                    left: 0,
+                    width: 60,
+                    height: 72,
+                    justifyContent: 'center',
+                    alignItems: 'center',
+                    backgroundColor: 'rgba(0,0,0,0.4)',
+                  }}
+                >
+                  <ActivityIndicator color="#FFFFFF" />
+                </View>
+              )}
+              <Text
+                className="text-xs text-center py-1"
+                style={{ color: page.status === 'failed' ? colors.error : colors.foreground }}
+              >
+                {index + 1}. {label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,54 @@
+import { Text, TouchableOpacity, View } from 'react-native';
+import { useColors } from '@/hooks/use-colors';
+
+export interface SegmentedControlProps<T extends string> {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 選択肢の切り替え（セグメント形式。見た目は EntryTypeToggle と揃える）
+ */
+export function SegmentedControl<T extends string>({
+  options,
+  value,
+  onChange,
+  disabled,
+}: SegmentedControlProps<T>) {
+  const colors = useColors();
+
+  return (
+    <View
+      className="flex-row rounded-xl border border-border overflow-hidden bg-surface"
+      style={{ opacity: disabled ? 0.5 : 1 }}
+    >
+      {options.map((option) => {
+        const isSelected = option.value === value;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => onChange(option.value)}
+            disabled={disabled}
+            style={{
+              flex: 1,
+              paddingVertical: 8,
+              backgroundColor: isSelected ? colors.primary : 'transparent',
+            }}
+          >
+            <Text
+              className={
+                isSelected
+                  ? 'text-center text-sm font-semibold text-white'
+                  : 'text-center text-sm text-foreground'
+              }
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
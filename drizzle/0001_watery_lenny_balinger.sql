@@ -0,0 +1,31 @@
+CREATE TABLE `categories` (
+	`userId` int NOT NULL,
+	`id` varchar(64) NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`type` enum('expense','income') NOT NULL DEFAULT 'expense',
+	`color` varchar(16) NOT NULL,
+	`icon` varchar(64),
+	`sortOrder` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `categories_userId_id_pk` PRIMARY KEY(`userId`,`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `entries` (
+	`userId` int NOT NULL,
+	`id` varchar(64) NOT NULL,
+	`type` enum('expense','income') NOT NULL DEFAULT 'expense',
+	`date` date NOT NULL,
+	`itemName` varchar(255) NOT NULL,
+	`amount` int NOT NULL,
+	`categoryId` varchar(64) NOT NULL,
+	`categoryName` varchar(64),
+	`note` text,
+	`imageUri` text,
+	`recurringId` varchar(64),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `entries_userId_id_pk` PRIMARY KEY(`userId`,`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `entries_userId_date_idx` ON `entries` (`userId`,`date`);
\ No newline at end of file
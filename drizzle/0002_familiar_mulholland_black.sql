@@ -0,0 +1,6 @@
+ALTER TABLE `categories` ADD `deletedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `categories` ADD `syncedAt` timestamp DEFAULT (now()) NOT NULL ON UPDATE CURRENT_TIMESTAMP;--> statement-breakpoint
+ALTER TABLE `entries` ADD `deletedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `entries` ADD `syncedAt` timestamp DEFAULT (now()) NOT NULL ON UPDATE CURRENT_TIMESTAMP;--> statement-breakpoint
+CREATE INDEX `categories_userId_syncedAt_idx` ON `categories` (`userId`,`syncedAt`);--> statement-breakpoint
+CREATE INDEX `entries_userId_syncedAt_idx` ON `entries` (`userId`,`syncedAt`);
\ No newline at end of file
@@ -0,0 +1,43 @@
+CREATE TABLE `householdInvites` (
+	`code` varchar(16) NOT NULL,
+	`householdId` int NOT NULL,
+	`createdBy` int NOT NULL,
+	`expiresAt` timestamp NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `householdInvites_code` PRIMARY KEY(`code`)
+);
+--> statement-breakpoint
+CREATE TABLE `householdMembers` (
+	`householdId` int NOT NULL,
+	`userId` int NOT NULL,
+	`role` enum('owner','member') NOT NULL DEFAULT 'member',
+	`joinedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `householdMembers_householdId_userId_pk` PRIMARY KEY(`householdId`,`userId`),
+	CONSTRAINT `householdMembers_userId_idx` UNIQUE(`userId`)
+);
+--> statement-breakpoint
+CREATE TABLE `households` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `households_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `categories` ADD `householdId` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `entries` ADD `householdId` int NOT NULL;--> statement-breakpoint
+/* Existing users each become the owner of a household of their own that reuses their id. */
+INSERT INTO `households` (`id`, `name`) SELECT `id`, 'わが家の家計簿' FROM `users`;--> statement-breakpoint
+INSERT INTO `householdMembers` (`householdId`, `userId`, `role`) SELECT `id`, `id`, 'owner' FROM `users`;--> statement-breakpoint
+UPDATE `categories` SET `householdId` = `userId`;--> statement-breakpoint
+UPDATE `entries` SET `householdId` = `userId`;--> statement-breakpoint
+DROP INDEX `categories_userId_syncedAt_idx` ON `categories`;--> statement-breakpoint
+DROP INDEX `entries_userId_date_idx` ON `entries`;--> statement-breakpoint
+DROP INDEX `entries_userId_syncedAt_idx` ON `entries`;--> statement-breakpoint
+ALTER TABLE `categories` DROP PRIMARY KEY;--> statement-breakpoint
+ALTER TABLE `entries` DROP PRIMARY KEY;--> statement-breakpoint
+ALTER TABLE `categories` ADD PRIMARY KEY(`householdId`,`id`);--> statement-breakpoint
+ALTER TABLE `entries` ADD PRIMARY KEY(`householdId`,`id`);--> statement-breakpoint
+CREATE INDEX `categories_householdId_syncedAt_idx` ON `categories` (`householdId`,`syncedAt`);--> statement-breakpoint
+CREATE INDEX `entries_householdId_date_idx` ON `entries` (`householdId`,`date`);--> statement-breakpoint
+CREATE INDEX `entries_householdId_syncedAt_idx` ON `entries` (`householdId`,`syncedAt`);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `aiUsage` (
+	`userId` int NOT NULL,
+	`month` varchar(7) NOT NULL,
+	`scans` int NOT NULL DEFAULT 0,
+	`promptTokens` int NOT NULL DEFAULT 0,
+	`completionTokens` int NOT NULL DEFAULT 0,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `aiUsage_userId_month_pk` PRIMARY KEY(`userId`,`month`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `scanQuota` int;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `entries` ADD `splits` json;
\ No newline at end of file
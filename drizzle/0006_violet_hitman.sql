@@ -0,0 +1 @@
+ALTER TABLE `entries` ADD `tags` json;
\ No newline at end of file
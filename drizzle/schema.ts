@@ -1,4 +1,17 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import {
+  date,
+  index,
+  int,
+  json,
+  mysqlEnum,
+  mysqlTable,
+  primaryKey,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/mysql-core";
+import type { SplitPart } from "../shared/entry-split";
 
 /**
  * Core user table backing auth flow.
@@ -20,9 +33,161 @@ export const users = mysqlTable("users", {
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
+  /** AI scans allowed per month; null uses DEFAULT_MONTHLY_SCAN_QUOTA from shared/kakeibo-analysis.ts. */
+  scanQuota: int("scanQuota"),
 });
 
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
-// TODO: Add your tables here
+/** Household member role; like `users.role`, but scoped to one household. */
+export const HOUSEHOLD_ROLES = ["owner", "member"] as const;
+
+/**
+ * A shared ledger. Every user belongs to exactly one household; a user who has not
+ * joined anyone gets a household of their own on first use.
+ */
+export const households = mysqlTable("households", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 64 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Household = typeof households.$inferSelect;
+export type InsertHousehold = typeof households.$inferInsert;
+
+export const householdMembers = mysqlTable(
+  "householdMembers",
+  {
+    householdId: int("householdId").notNull(),
+    userId: int("userId").notNull(),
+    /** Owners manage the household and members; members record and edit entries. */
+    role: mysqlEnum("role", HOUSEHOLD_ROLES).default("member").notNull(),
+    joinedAt: timestamp("joinedAt").defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.householdId, table.userId] }),
+    uniqueIndex("householdMembers_userId_idx").on(table.userId),
+  ],
+);
+
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type InsertHouseholdMember = typeof householdMembers.$inferInsert;
+
+/** Invite codes for joining a household; issuing a new code replaces the previous one. */
+export const householdInvites = mysqlTable("householdInvites", {
+  code: varchar("code", { length: 16 }).primaryKey(),
+  householdId: int("householdId").notNull(),
+  createdBy: int("createdBy").notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type HouseholdInvite = typeof householdInvites.$inferSelect;
+
+/** Entry/category kind, mirroring `EntryType` in types/kakeibo.ts. */
+export const ENTRY_TYPES = ["expense", "income"] as const;
+
+/**
+ * Household ledger categories.
+ * `id` is the client-generated id (e.g. "default_0"), so it is only unique per household;
+ * members' default categories share ids and merge into one.
+ */
+export const categories = mysqlTable(
+  "categories",
+  {
+    householdId: int("householdId").notNull(),
+    /** Member who created the category. */
+    userId: int("userId").notNull(),
+    id: varchar("id", { length: 64 }).notNull(),
+    name: varchar("name", { length: 64 }).notNull(),
+    type: mysqlEnum("type", ENTRY_TYPES).default("expense").notNull(),
+    color: varchar("color", { length: 16 }).notNull(),
+    icon: varchar("icon", { length: 64 }),
+    /** Display order within the user's category list. */
+    sortOrder: int("sortOrder").default(0).notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    /** Last edit on the device; sync keeps whichever side has the newer value. */
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+    /** Tombstone: deleted rows are kept so the delete reaches the user's other devices. */
+    deletedAt: timestamp("deletedAt"),
+    /** Server-side change time, used as the cursor for incremental sync pulls. */
+    syncedAt: timestamp("syncedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.householdId, table.id] }),
+    index("categories_householdId_syncedAt_idx").on(table.householdId, table.syncedAt),
+  ],
+);
+
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = typeof categories.$inferInsert;
+
+/**
+ * Household ledger entries (one row per expense or income line).
+ * `id` is the client-generated id so entries created offline keep their identity.
+ */
+export const entries = mysqlTable(
+  "entries",
+  {
+    householdId: int("householdId").notNull(),
+    /** Member who recorded the entry ("recorded by" attribution). */
+    userId: int("userId").notNull(),
+    id: varchar("id", { length: 64 }).notNull(),
+    type: mysqlEnum("type", ENTRY_TYPES).default("expense").notNull(),
+    /** Calendar date of the entry (YYYY-MM-DD), not a timestamp. */
+    date: date("date", { mode: "string" }).notNull(),
+    itemName: varchar("itemName", { length: 255 }).notNull(),
+    /** Amount in yen. */
+    amount: int("amount").notNull(),
+    categoryId: varchar("categoryId", { length: 64 }).notNull(),
+    categoryName: varchar("categoryName", { length: 64 }),
+    note: text("note"),
+    imageUri: text("imageUri"),
+    /** Set when the entry was generated from a recurring definition on the device. */
+    recurringId: varchar("recurringId", { length: 64 }),
+    /**
+     * Per-category allocations of a split entry, adding up to `amount`; null when not split.
+     * `categoryId` then holds the largest allocation's category.
+     */
+    splits: json("splits").$type<SplitPart[]>(),
+    /** Free-form labels, e.g. added by the device's auto-categorization rules; null when untagged. */
+    tags: json("tags").$type<string[]>(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    /** Last edit on the device; sync keeps whichever side has the newer value. */
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+    /** Tombstone: deleted rows are kept so the delete reaches the user's other devices. */
+    deletedAt: timestamp("deletedAt"),
+    /** Server-side change time, used as the cursor for incremental sync pulls. */
+    syncedAt: timestamp("syncedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.householdId, table.id] }),
+    index("entries_householdId_date_idx").on(table.householdId, table.date),
+    index("entries_householdId_syncedAt_idx").on(table.householdId, table.syncedAt),
+  ],
+);
+
+export type Entry = typeof entries.$inferSelect;
+export type InsertEntry = typeof entries.$inferInsert;
+
+/**
+ * AI analysis usage per user and calendar month, counted against `users.scanQuota`.
+ * Token counts come from the LLM responses, including repair attempts.
+ */
+export const aiUsage = mysqlTable(
+  "aiUsage",
+  {
+    userId: int("userId").notNull(),
+    /** Calendar month (YYYY-MM) in server time. */
+    month: varchar("month", { length: 7 }).notNull(),
+    scans: int("scans").default(0).notNull(),
+    promptTokens: int("promptTokens").default(0).notNull(),
+    completionTokens: int("completionTokens").default(0).notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.month] })],
+);
+
+export type AiUsage = typeof aiUsage.$inferSelect;
@@ -0,0 +1,48 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { trpc } from '@/lib/trpc';
+import { canDeleteCategory, canDeleteEntry } from '@/shared/household';
+import { KakeiboEntry } from '@/types/kakeibo';
+
+/**
+ * ログイン中の世帯（共有の家計簿）とメンバー、操作の権限
+ * ログインしていなければ世帯はなく、端末内のデータはすべて操作できる
+ */
+export function useHousehold() {
+  const { isAuthenticated } = useAuth();
+  const query = trpc.household.get.useQuery(undefined, { enabled: isAuthenticated });
+  const household = isAuthenticated ? query.data : undefined;
+  const isShared = (household?.members.length ?? 0) > 1;
+
+  // サーバーから受信していない記録（recordedByなし）はこの端末で作成したもの
+  const canDelete = useCallback(
+    (entry: KakeiboEntry) =>
+      !household ||
+      entry.recordedBy === undefined ||
+      canDeleteEntry(household.role, household.userId, entry.recordedBy),
+    [household]
+  );
+
+  // 記録したメンバーの表示名（共有していない場合はなし）
+  const recordedByName = useCallback(
+    (entry: KakeiboEntry): string | undefined => {
+      if (!household || !isShared) return undefined;
+      if (entry.recordedBy === undefined || entry.recordedBy === household.userId) return 'あなた';
+      const member = household.members.find((m) => m.userId === entry.recordedBy);
+      if (!member) return '退出したメンバー';
+      return member.name ?? 'メンバー';
+    },
+    [household, isShared]
+  );
+
+  return {
+    isAuthenticated,
+    household,
+    isShared,
+    isLoading: isAuthenticated && query.isLoading,
+    refetch: query.refetch,
+    canDeleteEntry: canDelete,
+    canDeleteCategories: !household || canDeleteCategory(household.role),
+    recordedByName,
+  };
+}
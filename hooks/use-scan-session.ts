@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AnalysisRequestError, analyzeKakeiboImage, analyzeReceiptImage } from '@/lib/ai-analysis';
+import { categoryHints } from '@/lib/learned-categories';
+import { MAX_SCAN_PAGES, ScanMode, ScanPage } from '@/lib/scan-draft';
+import { generateId, loadCategories, loadLearnedCategories } from '@/lib/storage';
+import { trpc } from '@/lib/trpc';
+import { AIAnalysisResult, ReceiptAnalysisResult } from '@/types/kakeibo';
+
+// AI解析に伝える過去の修正（解析のたびに読み込み、直前に保存した修正も反映する）
+async function loadCategoryHints() {
+  const [learned, categories] = await Promise.all([loadLearnedCategories(), loadCategories()]);
+  return categoryHints(learned, categories);
+}
+
+export type ScanPageStatus = 'pending' | 'analyzing' | 'done' | 'failed';
+
+/**
+ * スキャン中の1ページ
+ */
+export interface ScanSessionPage {
+  id: string;
+  imageUri: string;
+  mode: ScanMode;
+  status: ScanPageStatus;
+  result?: AIAnalysisResult; // 手書きのページの解析結果
+  receipt?: ReceiptAnalysisResult; // レシートの解析結果
+  error?: string; // 解析に失敗した理由
+}
+
+/**
+ * 複数ページのスキャン
+ * 追加したページは1枚ずつ順番にAI解析し、解析中も続けて撮影・選択できる
+ * 手書きのページとレシートは追加したときのモードで解析する
+ * 解析はサーバー（ログインが必要）で行う
+ */
+export function useScanSession() {
+  const utils = trpc.useUtils();
+  const { client } = utils;
+  const [pages, setPages] = useState<ScanSessionPage[]>([]);
+  const isRunningRef = useRef(false);
+
+  // 上限を超えた分は追加しない。追加した枚数を返す
+  const addPages = useCallback(
+    (imageUris: string[], mode: ScanMode = 'handwritten'): number => {
+      const added = imageUris.slice(0, Math.max(0, MAX_SCAN_PAGES - pages.length));
+      if (added.length === 0) return 0;
+      setPages((current) => [
+        ...current,
+        ...added.map((imageUri) => ({ id: generateId('page'), imageUri, mode, status: 'pending' as const })),
+      ]);
+      return added.length;
+    },
+    [pages.length]
+  );
+
+  const removePage = useCallback((id: string) => {
+    setPages((current) => current.filter((page) => page.id !== id || page.status === 'analyzing'));
+  }, []);
+
+  const retryPage = useCallback((id: string) => {
+    setPages((current) =>
+      current.map((page) =>
+        page.id === id && page.status === 'failed' ? { ...page, status: 'pending', error: undefined } : page
+      )
+    );
+  }, []);
+
+  const reset = useCallback(() => setPages([]), []);
+
+  // 待機中のページを先頭から1枚ずつ解析する
+  useEffect(() => {
+    if (isRunningRef.current) return;
+    const next = pages.find((page) => page.status === 'pending');
+    if (!next) return;
+
+    isRunningRef.current = true;
+    const update = (changes: Partial<ScanSessionPage>) =>
+      setPages((current) => current.map((page) => (page.id === next.id ? { ...page, ...changes } : page)));
+
+    // 結果を反映する前に解除し、その再描画で次のページへ進める
+    update({ status: 'analyzing' });
+    const analysis: Promise<Partial<ScanSessionPage>> = loadCategoryHints().then((hints) =>
+      next.mode === 'receipt'
+        ? analyzeReceiptImage(client, next.imageUri, hints).then((receipt) => ({ receipt }))
+        : analyzeKakeiboImage(client, next.imageUri, hints).then((result) => ({ result }))
+    );
+    analysis.then(
+      (analyzed) => {
+        isRunningRef.current = false;
+        update({ status: 'done', ...analyzed });
+        utils.analysis.usage.invalidate();
+      },
+      (error) => {
+        console.error('Analysis error:', error);
+        isRunningRef.current = false;
+        const message = error instanceof Error ? error.message : 'AI解析に失敗しました';
+
+        // 今月の上限に達したら、待機中のページも解析せずに失敗とする
+        if (error instanceof AnalysisRequestError && error.code === 'QUOTA_EXCEEDED') {
+          setPages((current) =>
+            current.map((page) =>
+              page.id === next.id || page.status === 'pending'
+                ? { ...page, status: 'failed', error: message }
+                : page
+            )
+          );
+          utils.analysis.usage.invalidate();
+          return;
+        }
+        update({ status: 'failed', error: message });
+      }
+    );
+  }, [client, pages, utils]);
+
+  const completedPages: ScanPage[] = pages.flatMap((page): ScanPage[] => {
+    if (page.status !== 'done') return [];
+    if (page.receipt) return [{ mode: 'receipt', imageUri: page.imageUri, receipt: page.receipt }];
+    return page.result ? [{ imageUri: page.imageUri, result: page.result }] : [];
+  });
+
+  return {
+    pages,
+    completedPages,
+    doneCount: pages.filter((page) => page.status === 'done').length,
+    isAnalyzing: pages.some((page) => page.status === 'pending' || page.status === 'analyzing'),
+    hasFailures: pages.some((page) => page.status === 'failed'),
+    canAddPages: pages.length < MAX_SCAN_PAGES,
+    addPages,
+    removePage,
+    retryPage,
+    reset,
+  };
+}
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from '@/hooks/use-auth';
+import { trpc } from '@/lib/trpc';
+import {
+  applyRemoteChanges,
+  clearSyncedLedger,
+  collectLocalChanges,
+  completeSync,
+  getSyncState,
+} from '@/lib/storage';
+import { fromServerChanges, splitSyncChanges, SyncState } from '@/lib/sync';
+
+// server/routers.ts の sync.push が1回で受け付ける件数
+const PUSH_BATCH_SIZE = 500;
+
+type SyncClient = ReturnType<typeof trpc.useUtils>['client'];
+
+export interface SyncResult {
+  pushed: number; // 送信した変更の数
+  pulled: number; // 端末に反映した変更の数
+  state: SyncState;
+}
+
+/**
+ * 未送信の変更を送信してから、前回以降のサーバーの変更を受信する
+ * 送信に失敗した場合はキューを残したまま中断し、次回の同期で再送する
+ * 世帯の参加・退出などで同期先が変わっていたら、端末の記録を新しい世帯の記録に置き換える
+ */
+async function runSync(client: SyncClient): Promise<SyncResult> {
+  const previous = await getSyncState();
+  const { changes, outgoing } = await collectLocalChanges();
+  const switched = (householdId: number) =>
+    previous?.householdId !== undefined && previous.householdId !== householdId;
+
+  // 前の世帯の変更は、サーバーが同期先の世帯と照らし合わせて受け付けない
+  for (const batch of splitSyncChanges(outgoing, PUSH_BATCH_SIZE)) {
+    const result = await client.sync.push.mutate({ ...batch, householdId: previous?.householdId });
+    if (switched(result.householdId)) return switchLedger(client);
+  }
+
+  const remote = await client.sync.pull.query({ since: previous?.cursor ?? undefined });
+  if (switched(remote.householdId)) return switchLedger(client);
+
+  const pulled = await applyRemoteChanges(fromServerChanges(remote));
+  const cursor = remote.cursor?.toISOString() ?? previous?.cursor ?? null;
+  const state = await completeSync(changes, cursor, remote.householdId);
+  return { pushed: changes.length, pulled, state };
+}
+
+/**
+ * 前の世帯の記録を端末から消去して、新しい世帯の全件を受信する
+ * 作られたばかりの世帯（退出後など）にはカテゴリがないため、初回同期として端末のカテゴリを送る
+ */
+async function switchLedger(client: SyncClient): Promise<SyncResult> {
+  await clearSyncedLedger();
+  const remote = await client.sync.pull.query({});
+  if (remote.categories.length === 0) return runSync(client);
+
+  const pulled = await applyRemoteChanges(fromServerChanges(remote));
+  const state = await completeSync([], remote.cursor?.toISOString() ?? null, remote.householdId);
+  return { pushed: 0, pulled, state };
+}
+
+let syncPromise: Promise<SyncResult> | null = null;
+
+export function syncWithServer(client: SyncClient): Promise<SyncResult> {
+  // 複数の画面から同時に呼ばれても同期は1つだけ実行する
+  if (!syncPromise) {
+    syncPromise = runSync(client).finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+}
+
+/**
+ * ログイン中はサーバーと同期する（表示時とアプリがフォアグラウンドに戻ったとき）
+ * onPulledはサーバーの変更を端末に反映したときに呼ばれる
+ */
+export function useSync(options?: { onPulled?: () => void }) {
+  const { isAuthenticated } = useAuth();
+  const { client } = trpc.useUtils();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const onPulledRef = useRef(options?.onPulled);
+  onPulledRef.current = options?.onPulled;
+
+  useEffect(() => {
+    getSyncState().then((state) => setLastSyncedAt(state?.lastSyncedAt ?? null));
+  }, []);
+
+  // ログインしていなければ何もしない。失敗時はエラーを投げる
+  const syncNow = useCallback(async (): Promise<SyncResult | null> => {
+    if (!isAuthenticated) return null;
+    setIsSyncing(true);
+    try {
+      const result = await syncWithServer(client);
+      setLastSyncedAt(result.state.lastSyncedAt);
+      if (result.pulled > 0) onPulledRef.current?.();
+      return result;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [client, isAuthenticated]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const syncInBackground = () => {
+      syncNow().catch((error) => console.warn('Sync failed:', error));
+    };
+    syncInBackground();
+
+    const subscription = AppState.addEventListener('change', (status) => {
+      if (status === 'active') syncInBackground();
+    });
+    return () => subscription.remove();
+  }, [isAuthenticated, syncNow]);
+
+  return { isAuthenticated, isSyncing, lastSyncedAt, syncNow };
+}
@@ -3,60 +3,99 @@
  * GPT-4o Visionを使用した手書き家計簿の解析
  */
 
-import { AIAnalysisResult } from '@/types/kakeibo';
+import { TRPCClientError } from '@trpc/client';
+import { trpc } from '@/lib/trpc';
+import { AIAnalysisResult, Category, DEFAULT_CATEGORIES, ReceiptAnalysisResult } from '@/types/kakeibo';
+import { AnalysisErrorCode, CategoryHint, toAnalysisErrorCode } from '@/shared/kakeibo-analysis';
+
+// 失敗の種類ごとの表示メッセージ
+const ANALYSIS_ERROR_MESSAGES: Record<AnalysisErrorCode, string> = {
+  INVALID_IMAGE: '画像を読み込めませんでした。別の画像でお試しください。',
+  LLM_UNAVAILABLE: 'AI解析サービスに接続できませんでした。しばらくしてからお試しください。',
+  INVALID_OUTPUT: '家計簿を読み取れませんでした。明るい場所で撮り直してください。',
+  RATE_LIMITED: '短時間に解析が集中しています。しばらくしてからお試しください。',
+  QUOTA_EXCEEDED: '今月のAI解析の上限に達しました。',
+};
+
+// 待ち時間や上限回数を含むサーバーのメッセージをそのまま表示する
+const SERVER_MESSAGE_CODES: AnalysisErrorCode[] = ['RATE_LIMITED', 'QUOTA_EXCEEDED'];
+
+type AnalysisClient = ReturnType<typeof trpc.useUtils>['client'];
 
 /**
- * 画像をBase64エンコード
+ * AI解析の失敗（codeはサーバーが返した失敗の種類。通信エラーやログイン切れなどではなし）
  */
-async function imageToBase64(imageUri: string): Promise<string> {
-  const response = await fetch(imageUri);
-  const blob = await response.blob();
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64 = reader.result as string;
-      // Remove data URL prefix (e.g., "data:image/jpeg;base64,")
-      const base64Data = base64.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
+export class AnalysisRequestError extends Error {
+  constructor(
+    message: string,
+    public code?: AnalysisErrorCode
+  ) {
+    super(message);
+    this.name = 'AnalysisRequestError';
+  }
 }
 
 /**
- * 手書き家計簿の画像を解析
+ * 画像を解析に送れる形にしてサーバーで解析し、失敗は表示用のメッセージに変換する
  */
-export async function analyzeKakeiboImage(imageUri: string): Promise<AIAnalysisResult> {
+async function requestAnalysis<T>(imageUri: string, analyze: (image: string) => Promise<T>): Promise<T> {
+  let image: string;
   try {
-    // 画像をBase64エンコード
-    const base64Image = await imageToBase64(imageUri);
-
-    // サーバーのAI解析APIを呼び出し
-    // EXPO_PUBLIC_API_BASE_URLを使用（開発環境と本番環境の両方に対応）
-    const apiUrl = process.env.EXPO_PUBLIC_API_BASE_URL || 'http://localhost:3000';
-    const response = await fetch(`${apiUrl}/api/analyze-kakeibo`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        image: base64Image,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`AI解析に失敗しました: ${response.statusText}`);
-    }
+    // 向きの補正・縮小・コントラスト補正をしてBase64エンコード
+    // （カテゴリの解決はデータ移行からも使うため、画像処理のモジュールは解析時に読み込む）
+    const { prepareImageForAnalysis } = await import('@/lib/image-preprocess');
+    image = await prepareImageForAnalysis(imageUri);
+    if (image === '') throw new Error('Empty image');
+  } catch (error) {
+    console.error('Image encode error:', error);
+    throw new AnalysisRequestError(ANALYSIS_ERROR_MESSAGES.INVALID_IMAGE, 'INVALID_IMAGE');
+  }
 
-    const result = await response.json();
-    return result as AIAnalysisResult;
+  try {
+    // サーバーでスキーマに沿って検証済みの結果が返る
+    return await analyze(image);
   } catch (error) {
     console.error('AI analysis error:', error);
-    throw new Error('AI解析中にエラーが発生しました。もう一度お試しください。');
+    if (!(error instanceof TRPCClientError)) throw error;
+
+    const trpcCode: string | undefined = error.data?.code;
+    if (trpcCode === 'UNAUTHORIZED') {
+      throw new AnalysisRequestError('ログインの有効期限が切れました。もう一度ログインしてください。');
+    }
+    // 失敗の種類はサーバーがdata.analysisCodeで返す（入力の検証エラーなどにはない）
+    const code = toAnalysisErrorCode(error.data?.analysisCode);
+    if (!code) {
+      throw new AnalysisRequestError('AI解析中にエラーが発生しました。インターネット接続を確認してください。');
+    }
+    const message =
+      SERVER_MESSAGE_CODES.includes(code) && error.message ? error.message : ANALYSIS_ERROR_MESSAGES[code];
+    throw new AnalysisRequestError(message, code);
   }
 }
 
+/**
+ * 手書き家計簿の画像を解析（ログインが必要）
+ * categoryHintsは過去に修正した項目名 → カテゴリで、AIのカテゴリ推測に使われる
+ */
+export function analyzeKakeiboImage(
+  client: AnalysisClient,
+  imageUri: string,
+  categoryHints: CategoryHint[] = []
+): Promise<AIAnalysisResult> {
+  return requestAnalysis(imageUri, (image) => client.analysis.analyzeImage.mutate({ image, categoryHints }));
+}
+
+/**
+ * レシートの画像を解析（ログインが必要）
+ */
+export function analyzeReceiptImage(
+  client: AnalysisClient,
+  imageUri: string,
+  categoryHints: CategoryHint[] = []
+): Promise<ReceiptAnalysisResult> {
+  return requestAnalysis(imageUri, (image) => client.analysis.analyzeReceipt.mutate({ image, categoryHints }));
+}
+
 /**
  * カテゴリ名の正規化（AIが推測したカテゴリ名をデフォルトカテゴリにマッピング）
  */
@@ -113,3 +152,33 @@ export function normalizeCategoryName(suggestedCategory: string | undefined): st
 
   return 'その他';
 }
+
+/**
+ * AIが推測したカテゴリ名をユーザーの支出カテゴリに解決
+ * ユーザー定義のカテゴリ名を優先し、次に正規化したデフォルトカテゴリ（名前変更済みでもIDで追跡）、最後に「その他」
+ */
+export function resolveCategory(
+  suggestedCategory: string | undefined,
+  allCategories: Category[]
+): Category | undefined {
+  // 家計簿の行は支出として扱うため、収入カテゴリは対象外
+  const categories = allCategories.filter((c) => c.type !== 'income');
+  const fallback = categories.find((c) => c.name === 'その他') ?? categories[categories.length - 1];
+  const trimmed = suggestedCategory?.trim();
+  if (!trimmed) return fallback;
+
+  // ユーザーのカテゴリ名と完全一致・部分一致
+  const exact = categories.find((c) => c.name === trimmed);
+  if (exact) return exact;
+  const partial = categories.find((c) => c.name !== 'その他' && trimmed.includes(c.name));
+  if (partial) return partial;
+
+  // デフォルトカテゴリへ正規化（名前を変更していてもdefault_N のIDで一致させる）
+  const normalized = normalizeCategoryName(trimmed);
+  const defaultIndex = DEFAULT_CATEGORIES.findIndex((c) => c.name === normalized);
+  return (
+    categories.find((c) => c.name === normalized) ??
+    categories.find((c) => c.id === `default_${defaultIndex}`) ??
+    fallback
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Kakeibo Lens - Budget
+ * 月間予算の適用と進捗の計算
+ */
+
+import { entryAllocations } from '@/lib/split';
+import { Budget, BudgetProgress, KakeiboEntry } from '@/types/kakeibo';
+
+// 予算の消化率がこの割合を超えたら警告表示にする
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/**
+ * 前月の月キー（YYYY-MM）
+ */
+export function previousMonthKey(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const date = new Date(year, monthNumber - 2, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * 指定した月に適用される予算（その月以前で最も新しく設定されたもの）
+ */
+export function resolveBudget(
+  budgets: Budget[],
+  categoryId: string | null,
+  month: string
+): Budget | undefined {
+  const applicable = budgets
+    .filter((b) => b.categoryId === categoryId && b.month <= month)
+    .sort((a, b) => b.month.localeCompare(a.month))[0];
+  return applicable && applicable.amount > 0 ? applicable : undefined;
+}
+
+// 分割した記録はカテゴリ予算に内訳の金額だけを計上する
+function sumExpenses(entries: KakeiboEntry[], categoryId: string | null): number {
+  const expenses = entries.filter((e) => e.type !== 'income');
+  if (categoryId === null) return expenses.reduce((sum, e) => sum + e.amount, 0);
+  return expenses
+    .flatMap(entryAllocations)
+    .filter((allocation) => allocation.categoryId === categoryId)
+    .reduce((sum, allocation) => sum + allocation.amount, 0);
+}
+
+function budgetStatus(ratio: number): BudgetProgress['status'] {
+  if (ratio > 1) return 'over';
+  if (ratio >= BUDGET_WARNING_RATIO) return 'warning';
+  return 'ok';
+}
+
+/**
+ * 予算ごとの進捗を計算（全体予算が先頭、続いて予算のあるカテゴリ）
+ * 繰り越しは前月の予算と支出の差額のみを対象とし、前々月以前の繰越額は連鎖させない
+ */
+export function calculateBudgetProgress(
+  budgets: Budget[],
+  entries: KakeiboEntry[],
+  previousEntries: KakeiboEntry[],
+  month: string
+): BudgetProgress[] {
+  const previousMonth = previousMonthKey(month);
+  const categoryIds = Array.from(new Set(budgets.map((b) => b.categoryId)));
+
+  return categoryIds
+    .sort((a, b) => (a === null ? -1 : b === null ? 1 : 0))
+    .flatMap((categoryId) => {
+      const budget = resolveBudget(budgets, categoryId, month);
+      if (!budget) return [];
+
+      const previousBudget = budget.carryOver
+        ? resolveBudget(budgets, categoryId, previousMonth)
+        : undefined;
+      const carriedOver = previousBudget
+        ? previousBudget.amount - sumExpenses(previousEntries, categoryId)
+        : 0;
+
+      const total = Math.max(budget.amount + carriedOver, 0);
+      const spent = sumExpenses(entries, categoryId);
+      const ratio = total > 0 ? spent / total : spent > 0 ? Infinity : 0;
+
+      return [
+        {
+          categoryId,
+          budget: total,
+          carriedOver,
+          spent,
+          remaining: total - spent,
+          ratio,
+          status: budgetStatus(ratio),
+        },
+      ];
+    });
+}
@@ -0,0 +1,58 @@
+/**
+ * Kakeibo Lens - Entry Form Helpers
+ * 編集画面で共通利用する入力値の変換・検証
+ */
+
+/**
+ * DateをYYYY-MM-DD形式（端末のローカル日付）に変換
+ */
+export function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * YYYY-MM-DD形式の実在する日付かどうか
+ */
+export function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+/**
+ * 金額入力（"1,200" など）を数値に変換。不正な値はnull
+ */
+export function parseAmount(value: string): number | null {
+  const normalized = value.replace(/[,，¥円\s]/g, '');
+  if (!/^\d+$/.test(normalized)) return null;
+  const amount = Number(normalized);
+  return amount > 0 ? amount : null;
+}
+
+/**
+ * 割合入力（"40" や "40%"）を数値に変換。1〜100の整数以外はnull
+ */
+export function parsePercentage(value: string): number | null {
+  const normalized = value.replace(/[%％\s]/g, '');
+  if (!/^\d+$/.test(normalized)) return null;
+  const percentage = Number(normalized);
+  return percentage > 0 && percentage <= 100 ? percentage : null;
+}
+
+// タグの最大文字数
+export const MAX_TAG_LENGTH = 32;
+
+/**
+ * カンマ・読点区切りのタグ入力を配列に変換（空のタグと重複は除き、長すぎるタグは切り詰める）
+ */
+export function parseTags(value: string): string[] {
+  const tags = value
+    .split(/[,，、]/)
+    .map((tag) => tag.trim().slice(0, MAX_TAG_LENGTH))
+    .filter((tag) => tag !== '');
+  return Array.from(new Set(tags));
+}
@@ -0,0 +1,171 @@
+/**
+ * Kakeibo Lens - 解析前の画像の前処理
+ * 撮影した写真の向きを補正し、ガイド枠で切り抜き、縮小・コントラスト補正してからAI解析に送る
+ */
+
+import { Platform } from 'react-native';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { Buffer } from 'buffer';
+import * as jpeg from 'jpeg-js';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface CropRect {
+  originX: number;
+  originY: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * スキャン画面のガイド枠（カメラプレビューの余白と、その内側に対する幅・高さの割合）
+ * 画面の表示と切り抜き範囲の計算で同じ値を使う
+ */
+export const SCAN_GUIDE = {
+  padding: 20,
+  widthRatio: 0.9,
+  heightRatio: 0.7,
+} as const;
+
+// AI解析に送る画像の長辺の上限（px）。手書きの文字が読める範囲で通信量を抑える
+export const MAX_ANALYSIS_IMAGE_EDGE = 1600;
+
+// JPEGの圧縮率
+const ANALYSIS_JPEG_QUALITY = 0.7;
+const CROPPED_JPEG_QUALITY = 0.9;
+
+/**
+ * プレビュー上のガイド枠に写っている範囲を、写真の座標で返す
+ * カメラのプレビューは画面いっぱいに拡大（はみ出す分は中央で切れる）して表示されている前提
+ */
+export function scanGuideCropRect(image: ImageSize, preview: ImageSize): CropRect {
+  const scale = Math.min(image.width / preview.width, image.height / preview.height);
+  const offsetX = (image.width - preview.width * scale) / 2;
+  const offsetY = (image.height - preview.height * scale) / 2;
+
+  const guideWidth = (preview.width - SCAN_GUIDE.padding * 2) * SCAN_GUIDE.widthRatio;
+  const guideHeight = (preview.height - SCAN_GUIDE.padding * 2) * SCAN_GUIDE.heightRatio;
+  const guideX = (preview.width - guideWidth) / 2;
+  const guideY = (preview.height - guideHeight) / 2;
+
+  // 写真の外にはみ出さないように丸める
+  const left = Math.max(0, Math.round(offsetX + guideX * scale));
+  const top = Math.max(0, Math.round(offsetY + guideY * scale));
+  const right = Math.min(image.width, Math.round(offsetX + (guideX + guideWidth) * scale));
+  const bottom = Math.min(image.height, Math.round(offsetY + (guideY + guideHeight) * scale));
+
+  return { originX: left, originY: top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) };
+}
+
+/**
+ * 長辺が maxEdge 以下になる大きさ（元から小さければ拡大しない）
+ */
+export function fitWithin(size: ImageSize, maxEdge: number): ImageSize {
+  const scale = Math.min(1, maxEdge / Math.max(size.width, size.height));
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+}
+
+/**
+ * 明るさの分布の両端（上下1%）を切り捨てて0〜255に引き伸ばす（RGBAの画素を直接書き換える）
+ * 薄い鉛筆の文字を紙の地色から浮き立たせる。もともと明暗差がほとんどない画像はそのまま
+ */
+export function stretchContrast(pixels: Uint8ClampedArray): void {
+  const histogram = new Array<number>(256).fill(0);
+  const count = pixels.length / 4;
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[luminance(pixels[i], pixels[i + 1], pixels[i + 2])]++;
+  }
+
+  const clip = count * 0.01;
+  let low = 0;
+  for (let seen = 0; low < 255 && seen + histogram[low] <= clip; low++) seen += histogram[low];
+  let high = 255;
+  for (let seen = 0; high > 0 && seen + histogram[high] <= clip; high--) seen += histogram[high];
+  if (high - low < 16) return;
+
+  const range = high - low;
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = ((pixels[i] - low) * 255) / range;
+    pixels[i + 1] = ((pixels[i + 1] - low) * 255) / range;
+    pixels[i + 2] = ((pixels[i + 2] - low) * 255) / range;
+  }
+}
+
+function luminance(r: number, g: number, b: number): number {
+  return Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+}
+
+/**
+ * 撮影した写真をガイド枠の範囲で切り抜き、そのファイルのURIを返す
+ * 読み込み時にEXIFの向きが反映されるので、保存し直した画像は正しい向きになる
+ */
+export async function cropToScanGuide(imageUri: string, preview: ImageSize): Promise<string> {
+  const source = await ImageManipulator.manipulate(imageUri).renderAsync();
+  const cropped = await ImageManipulator.manipulate(source)
+    .crop(scanGuideCropRect(source, preview))
+    .renderAsync();
+  const saved = await cropped.saveAsync({ format: SaveFormat.JPEG, compress: CROPPED_JPEG_QUALITY });
+  return saved.uri;
+}
+
+/**
+ * AI解析に送る形に整え、JPEGのBase64（data URLの接頭辞なし）を返す
+ * 向きの補正・縮小・コントラスト補正をすべての環境で行う（画素の読み書きはWebはCanvas、ネイティブはJSで展開）
+ */
+export async function prepareImageForAnalysis(imageUri: string): Promise<string> {
+  const source = await ImageManipulator.manipulate(imageUri).renderAsync();
+  const resized = await ImageManipulator.manipulate(source)
+    .resize(fitWithin(source, MAX_ANALYSIS_IMAGE_EDGE))
+    .renderAsync();
+  const saved = await resized.saveAsync({
+    format: SaveFormat.JPEG,
+    compress: ANALYSIS_JPEG_QUALITY,
+    base64: true,
+  });
+  if (!saved.base64) throw new Error('Image encode failed');
+
+  return Platform.OS === 'web' ? boostContrastOnWeb(saved.base64) : boostContrastInJpeg(saved.base64);
+}
+
+/**
+ * JPEGのBase64を画素に展開してコントラストを補正し、JPEGのBase64に戻す
+ * ネイティブにはCanvasがないため、縮小後の画像をJSでデコード・エンコードする
+ */
+export function boostContrastInJpeg(base64: string): string {
+  // jpeg-jsのエンコーダーはグローバルのBufferを使うが、React Nativeにはない
+  const runtime = globalThis as { Buffer?: typeof Buffer };
+  runtime.Buffer ??= Buffer;
+
+  const image = jpeg.decode(Buffer.from(base64, 'base64'), { useTArray: true, formatAsRGBA: true });
+  stretchContrast(new Uint8ClampedArray(image.data.buffer, image.data.byteOffset, image.data.length));
+  const encoded = jpeg.encode(image, Math.round(ANALYSIS_JPEG_QUALITY * 100));
+  return Buffer.from(encoded.data).toString('base64');
+}
+
+// Canvasで画素を読み出してコントラストを補正する
+async function boostContrastOnWeb(base64: string): Promise<string> {
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = reject;
+    image.src = `data:image/jpeg;base64,${base64}`;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) return base64;
+
+  context.drawImage(image, 0, 0);
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  stretchContrast(imageData.data);
+  context.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/jpeg', ANALYSIS_JPEG_QUALITY).split(',')[1];
+}
@@ -0,0 +1,86 @@
+/**
+ * Kakeibo Lens - Learned Categories
+ * ユーザーが修正した項目名 → カテゴリの対応を覚え、次のスキャンから使う
+ *
+ * 項目名は表記ゆれ（全角・半角、大文字・小文字、空白）をそろえて照合する。
+ * 完全一致がなければ、学習した項目名を含む項目（「セブン」→「セブンイレブン新宿店」）にも当てはめる。
+ */
+
+import { CategoryHint, MAX_CATEGORY_HINTS } from '@/shared/kakeibo-analysis';
+import { Category, EntryType, LearnedCategory } from '@/types/kakeibo';
+
+// 覚えておく件数の上限（超えたら最後の修正が古いものから忘れる）
+export const MAX_LEARNED_CATEGORIES = 200;
+
+// 部分一致に使う項目名の最短の長さ（1文字だと無関係な項目に当たりやすい）
+const MIN_PARTIAL_KEY_LENGTH = 2;
+
+/**
+ * 照合用の項目名（全角英数を半角に、大文字を小文字にして空白を除く）
+ */
+export function normalizeItemName(itemName: string): string {
+  return itemName.normalize('NFKC').toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * 項目名に当てはまる学習済みのカテゴリ（完全一致を優先し、次に長い項目名の部分一致）
+ * 削除済みのカテゴリや種別の違うカテゴリは使わない
+ */
+export function findLearnedCategory(
+  itemName: string,
+  learned: LearnedCategory[],
+  categories: Category[],
+  type: EntryType = 'expense'
+): Category | undefined {
+  const key = normalizeItemName(itemName);
+  if (key === '') return undefined;
+
+  const categoryOf = (item: LearnedCategory) =>
+    categories.find((c) => c.id === item.categoryId && c.type === type);
+  const candidates = learned.filter((item) => categoryOf(item) !== undefined);
+  const match =
+    candidates.find((item) => item.key === key) ??
+    candidates
+      .filter((item) => item.key.length >= MIN_PARTIAL_KEY_LENGTH && key.includes(item.key))
+      .sort((a, b) => b.key.length - a.key.length)[0];
+  return match && categoryOf(match);
+}
+
+/**
+ * 修正を覚える（同じ項目名は新しい修正で上書きし、同じカテゴリへの修正なら回数を数える）
+ */
+export function learnCategory(
+  learned: LearnedCategory[],
+  itemName: string,
+  categoryId: string,
+  now: string = new Date().toISOString()
+): LearnedCategory[] {
+  const key = normalizeItemName(itemName);
+  if (key === '') return learned;
+
+  const existing = learned.find((item) => item.key === key);
+  const updated: LearnedCategory = {
+    key,
+    itemName: itemName.trim(),
+    categoryId,
+    count: existing?.categoryId === categoryId ? existing.count + 1 : 1,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  return [updated, ...learned.filter((item) => item.key !== key)]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_LEARNED_CATEGORIES);
+}
+
+/**
+ * AI解析に伝える過去の修正（回数の多い順、同じ回数なら新しい順。支出カテゴリのみ）
+ */
+export function categoryHints(learned: LearnedCategory[], categories: Category[]): CategoryHint[] {
+  return [...learned]
+    .sort((a, b) => b.count - a.count || b.updatedAt.localeCompare(a.updatedAt))
+    .flatMap((item) => {
+      const category = categories.find((c) => c.id === item.categoryId && c.type === 'expense');
+      return category ? [{ itemName: item.itemName, categoryName: category.name }] : [];
+    })
+    .slice(0, MAX_CATEGORY_HINTS);
+}
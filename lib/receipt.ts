@@ -0,0 +1,88 @@
+/**
+ * Kakeibo Lens - Receipt
+ * レシートの解析結果を保存する支出に変換する
+ *
+ * 合計で1件として保存するか、品目ごとに保存するかを選べる。品目ごとの金額は
+ * 税抜表示や値引きがあっても支払合計と一致するように、税率ごとの対象額（税込）で按分する。
+ */
+
+import { distributeAmount } from '@/lib/split';
+import { AIAnalysisResult, ReceiptAnalysisResult } from '@/types/kakeibo';
+
+/**
+ * レシートの保存方法（合計で1件 / 品目ごと）
+ */
+export type ReceiptSaveMode = 'total' | 'itemized';
+
+export type ReceiptEntry = AIAnalysisResult['entries'][number];
+
+/**
+ * 金額が一番大きいカテゴリ（品目のカテゴリが分からなければなし）
+ */
+export function dominantCategory(receipt: ReceiptAnalysisResult): string | undefined {
+  const totals = new Map<string, number>();
+  receipt.items.forEach((item) => {
+    if (item.suggestedCategory) {
+      totals.set(item.suggestedCategory, (totals.get(item.suggestedCategory) ?? 0) + item.amount);
+    }
+  });
+  return [...totals.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+// 税率ごとの対象額の合計が支払合計と一致し、すべての品目の税率が分かるときだけ税率ごとに按分する
+function itemizedAmounts(receipt: ReceiptAnalysisResult): number[] {
+  const { items, taxes, total } = receipt;
+  const taxedTotal = taxes.reduce((sum, tax) => sum + tax.amount, 0);
+  const byRate =
+    taxedTotal === total &&
+    items.every((item) => taxes.some((tax) => tax.rate === item.taxRate));
+  if (!byRate) return distributeAmount(items.map((item) => item.amount), total);
+
+  const amounts = items.map(() => 0);
+  taxes.forEach((tax) => {
+    const indexes = items.flatMap((item, index) => (item.taxRate === tax.rate ? [index] : []));
+    const shares = distributeAmount(indexes.map((index) => items[index].amount), tax.amount);
+    indexes.forEach((index, i) => {
+      amounts[index] = shares[i];
+    });
+  });
+  return amounts;
+}
+
+/**
+ * レシートを保存する支出の行に変換
+ * 品目が読み取れなかったレシートは、品目ごとを選んでも合計の1件にする
+ */
+export function receiptToEntries(receipt: ReceiptAnalysisResult, mode: ReceiptSaveMode): ReceiptEntry[] {
+  if (mode === 'total' || receipt.items.length === 0) {
+    return [
+      {
+        date: receipt.date,
+        itemName: receipt.storeName ?? 'レシート',
+        amount: receipt.total,
+        suggestedCategory: dominantCategory(receipt),
+        confidence: receipt.confidence,
+      },
+    ];
+  }
+
+  const amounts = itemizedAmounts(receipt);
+  return receipt.items
+    .map((item, index) => ({
+      date: receipt.date,
+      itemName: item.name,
+      amount: amounts[index],
+      suggestedCategory: item.suggestedCategory,
+      confidence: receipt.confidence,
+    }))
+    .filter((entry) => entry.amount > 0);
+}
+
+/**
+ * 税率ごとの内訳の表示用テキスト（例: 8%対象 ¥1,080（税¥80））
+ */
+export function formatReceiptTaxes(receipt: ReceiptAnalysisResult): string {
+  return receipt.taxes
+    .map((tax) => `${tax.rate}%対象 ¥${tax.amount.toLocaleString()}（税¥${tax.tax.toLocaleString()}）`)
+    .join(' / ');
+}
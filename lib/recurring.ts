@@ -0,0 +1,143 @@
+/**
+ * Kakeibo Lens - Recurring Entries
+ * 定期記録の発生日の計算と、発生分の家計簿エントリーの作成
+ */
+
+import { Category, KakeiboEntry, RecurrenceSchedule, RecurringEntry } from '@/types/kakeibo';
+import { formatDate } from '@/lib/entry-form';
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// 月末を超える日（31日、2月29日など）はその月の末日に丸める
+function clampedDate(year: number, monthIndex: number, day: number): Date {
+  const lastDay = new Date(year, monthIndex + 1, 0).getDate();
+  return new Date(year, monthIndex, Math.min(day, lastDay));
+}
+
+/**
+ * 繰り返し方の表示用ラベル
+ */
+export function describeSchedule(schedule: RecurrenceSchedule): string {
+  switch (schedule.kind) {
+    case 'monthly':
+      return `毎月${schedule.dayOfMonth}日`;
+    case 'yearly':
+      return `毎年${schedule.month}月${schedule.day}日`;
+    case 'weekly':
+      return schedule.intervalWeeks === 1 ? '毎週' : `${schedule.intervalWeeks}週ごと`;
+  }
+}
+
+/**
+ * start〜end（両端を含む）に入る発生日を昇順で列挙（スキップした日も含む）
+ */
+export function listOccurrences(
+  schedule: RecurrenceSchedule,
+  startDate: string,
+  start: string,
+  end: string
+): string[] {
+  const origin = parseDate(startDate);
+  const from = start > startDate ? start : startDate;
+  const until = parseDate(end);
+  const dates: string[] = [];
+
+  const push = (date: Date) => {
+    const value = formatDate(date);
+    if (value >= from && value <= end) dates.push(value);
+  };
+
+  switch (schedule.kind) {
+    case 'monthly': {
+      for (
+        let cursor = new Date(origin.getFullYear(), origin.getMonth(), 1);
+        cursor <= until;
+        cursor = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1)
+      ) {
+        push(clampedDate(cursor.getFullYear(), cursor.getMonth(), schedule.dayOfMonth));
+      }
+      break;
+    }
+    case 'yearly': {
+      for (let year = origin.getFullYear(); year <= until.getFullYear(); year++) {
+        push(clampedDate(year, schedule.month - 1, schedule.day));
+      }
+      break;
+    }
+    case 'weekly': {
+      const step = Math.max(1, schedule.intervalWeeks) * 7;
+      for (let offset = 0; ; offset += step) {
+        const date = new Date(origin.getFullYear(), origin.getMonth(), origin.getDate() + offset);
+        if (date > until) break;
+        push(date);
+      }
+      break;
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * まだ作成していない発生日のうち、today（当日を含む）までに到来したもの
+ */
+export function getDueOccurrences(recurring: RecurringEntry, today: string): string[] {
+  if (!recurring.isActive) return [];
+
+  const end = recurring.endDate && recurring.endDate < today ? recurring.endDate : today;
+  const skipped = new Set(recurring.skippedDates);
+  return listOccurrences(recurring.schedule, recurring.startDate, recurring.startDate, end).filter(
+    (date) =>
+      (recurring.generatedThrough === undefined || date > recurring.generatedThrough) &&
+      !skipped.has(date)
+  );
+}
+
+/**
+ * fromDate（当日を含む）以降の発生日をcount件（スキップした日も含む）
+ */
+export function getUpcomingOccurrences(
+  recurring: RecurringEntry,
+  fromDate: string,
+  count: number
+): string[] {
+  const from = parseDate(fromDate);
+  // 年1回の繰り返しでもcount件が収まる範囲まで見る
+  const horizon = formatDate(new Date(from.getFullYear() + count + 1, from.getMonth(), from.getDate()));
+  const end = recurring.endDate && recurring.endDate < horizon ? recurring.endDate : horizon;
+  return listOccurrences(recurring.schedule, recurring.startDate, fromDate, end).slice(0, count);
+}
+
+/**
+ * 発生日ごとのエントリーID（同じ発生日を二重に作成しないよう固定）
+ */
+export function occurrenceEntryId(recurringId: string, date: string): string {
+  return `entry_${recurringId}_${date}`;
+}
+
+/**
+ * 発生日の家計簿エントリーを作成
+ */
+export function createOccurrenceEntry(
+  recurring: RecurringEntry,
+  date: string,
+  categories: Category[],
+  now: string
+): KakeiboEntry {
+  return {
+    id: occurrenceEntryId(recurring.id, date),
+    type: recurring.type,
+    date,
+    itemName: recurring.itemName,
+    amount: recurring.amount,
+    categoryId: recurring.categoryId,
+    categoryName: categories.find((c) => c.id === recurring.categoryId)?.name,
+    note: recurring.note,
+    recurringId: recurring.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Kakeibo Lens - Monthly Reflection
+ * 月初の目標設定・月末の振り返りの促し
+ */
+
+import { MonthlyReflection, MonthlySummary } from '@/types/kakeibo';
+import { previousMonthKey } from '@/lib/budget';
+import { formatDate } from '@/lib/entry-form';
+
+// 月末の何日前から振り返りを促すか
+export const REVIEW_WINDOW_DAYS = 3;
+
+/**
+ * ホーム画面に表示する促し（目標設定または振り返り）
+ */
+export interface ReflectionPrompt {
+  type: 'goal' | 'review';
+  month: string; // YYYY-MM
+}
+
+export function hasGoal(reflection: MonthlyReflection | undefined): boolean {
+  return reflection?.savingsGoal !== undefined;
+}
+
+export function isReviewed(reflection: MonthlyReflection | undefined): boolean {
+  return reflection?.reviewedAt !== undefined;
+}
+
+/**
+ * 今日表示すべき促しを判定
+ * 1. 目標を立てた前月が未振り返り → 前月の振り返り
+ * 2. 月末が近く今月が未振り返り → 今月の振り返り
+ * 3. 今月の目標が未設定 → 今月の目標設定
+ */
+export function getReflectionPrompt(
+  reflections: MonthlyReflection[],
+  today: Date
+): ReflectionPrompt | null {
+  const month = formatDate(today).slice(0, 7);
+  const previousMonth = previousMonthKey(month);
+  const current = reflections.find((r) => r.month === month);
+  const previous = reflections.find((r) => r.month === previousMonth);
+
+  if (hasGoal(previous) && !isReviewed(previous)) {
+    return { type: 'review', month: previousMonth };
+  }
+
+  const daysInMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
+  if (daysInMonth - today.getDate() < REVIEW_WINDOW_DAYS && !isReviewed(current)) {
+    return { type: 'review', month };
+  }
+
+  if (!hasGoal(current)) {
+    return { type: 'goal', month };
+  }
+
+  return null;
+}
+
+/**
+ * 月次サマリーから振り返りの実績欄を作成
+ */
+export function createReviewSnapshot(
+  summary: MonthlySummary
+): Pick<MonthlyReflection, 'totalIncome' | 'totalSpending' | 'savedAmount'> {
+  return {
+    totalIncome: summary.totalIncome,
+    totalSpending: summary.totalAmount,
+    savedAmount: summary.balance,
+  };
+}
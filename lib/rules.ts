@@ -0,0 +1,179 @@
+/**
+ * Kakeibo Lens - Entry Rules
+ * ユーザーが決めた条件で、新しい記録のカテゴリ・タグ・メモを自動で設定する
+ *
+ * ルールは優先度の高い順（priorityの小さい順）に評価し、一致したルールの動作をすべて適用する。
+ * カテゴリとメモは先に一致したルールが決め、タグは一致したルールの分だけ追加する。
+ */
+
+import { MAX_TAG_LENGTH } from '@/lib/entry-form';
+import { normalizeItemName } from '@/lib/learned-categories';
+import { Category, EntryRule, EntryRuleConditions, KakeiboEntry } from '@/types/kakeibo';
+
+// 曜日の表示名（Date.getDayの順）
+export const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+/**
+ * 評価する順に並べたルール（優先度が同じなら作成順）
+ */
+export function sortRules(rules: EntryRule[]): EntryRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * 正規表現の条件をコンパイルする（大文字・小文字は区別しない）。不正なパターンはnull
+ */
+export function compileRulePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 記録の日付の曜日（0=日曜〜6=土曜）
+ */
+function weekdayOf(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).getDay();
+}
+
+/**
+ * 記録が条件をすべて満たすか（条件のないルールはどの記録にも一致しない）
+ */
+export function matchesRuleConditions(entry: KakeiboEntry, conditions: EntryRuleConditions): boolean {
+  const { itemName, minAmount, maxAmount, weekdays } = conditions;
+  const hasCondition =
+    itemName !== undefined || minAmount !== undefined || maxAmount !== undefined || (weekdays?.length ?? 0) > 0;
+  if (!hasCondition) return false;
+
+  if (itemName) {
+    if (itemName.match === 'regex') {
+      const regex = compileRulePattern(itemName.pattern);
+      if (!regex || !regex.test(entry.itemName)) return false;
+    } else {
+      const key = normalizeItemName(itemName.pattern);
+      if (key === '' || !normalizeItemName(entry.itemName).includes(key)) return false;
+    }
+  }
+  if (minAmount !== undefined && entry.amount < minAmount) return false;
+  if (maxAmount !== undefined && entry.amount > maxAmount) return false;
+  if (weekdays && weekdays.length > 0 && !weekdays.includes(weekdayOf(entry.date))) return false;
+  return true;
+}
+
+/**
+ * ルールを適用した結果
+ */
+export interface RuleApplication {
+  entry: KakeiboEntry;
+  ruleIds: string[]; // 一致したルールのID（評価順）
+}
+
+/**
+ * 有効なルールを優先度順に評価して記録に適用する
+ * keepCategory: カテゴリを変えない（スキャン結果の確認画面でユーザーが選び直した場合など）
+ * 分割した記録のカテゴリ、記録の種別と違うカテゴリ、削除済みのカテゴリには付け替えない
+ */
+export function applyEntryRules(
+  entry: KakeiboEntry,
+  rules: EntryRule[],
+  categories: Category[],
+  options: { keepCategory?: boolean } = {}
+): RuleApplication {
+  let result = entry;
+  let categorySet = options.keepCategory === true || entry.splits !== undefined;
+  let noteSet = false;
+  const ruleIds: string[] = [];
+
+  for (const rule of sortRules(rules)) {
+    if (!rule.isActive || !matchesRuleConditions(entry, rule.conditions)) continue;
+    ruleIds.push(rule.id);
+
+    for (const action of rule.actions) {
+      if (action.kind === 'setCategory') {
+        const category = categories.find((c) => c.id === action.categoryId && c.type === entry.type);
+        if (categorySet || !category) continue;
+        result = { ...result, categoryId: category.id, categoryName: category.name };
+        categorySet = true;
+      } else if (action.kind === 'addTag') {
+        const tag = action.tag.trim().slice(0, MAX_TAG_LENGTH);
+        if (tag === '' || result.tags?.includes(tag)) continue;
+        result = { ...result, tags: [...(result.tags ?? []), tag] };
+      } else {
+        if (noteSet) continue;
+        result = { ...result, note: action.note.trim() || undefined };
+        noteSet = true;
+      }
+    }
+  }
+  return { entry: result, ruleIds };
+}
+
+/**
+ * ルールで変わる項目
+ */
+export type RuleChangeField = 'category' | 'tags' | 'note';
+
+/**
+ * 既存の記録にルールを当てたときの変更内容
+ */
+export interface RulePreview {
+  before: KakeiboEntry;
+  after: KakeiboEntry;
+  changes: RuleChangeField[];
+}
+
+/**
+ * 記録の変わった項目
+ */
+function changedFields(before: KakeiboEntry, after: KakeiboEntry): RuleChangeField[] {
+  const changes: RuleChangeField[] = [];
+  if (before.categoryId !== after.categoryId) changes.push('category');
+  if ((before.tags ?? []).join('\n') !== (after.tags ?? []).join('\n')) changes.push('tags');
+  if ((before.note ?? '') !== (after.note ?? '')) changes.push('note');
+  return changes;
+}
+
+/**
+ * ルールを既存の記録に当てたら何が変わるか（変わる記録のみ、日付の新しい順）
+ */
+export function previewRules(entries: KakeiboEntry[], rules: EntryRule[], categories: Category[]): RulePreview[] {
+  return entries
+    .flatMap((before) => {
+      const { entry: after } = applyEntryRules(before, rules, categories);
+      const changes = changedFields(before, after);
+      return changes.length > 0 ? [{ before, after, changes }] : [];
+    })
+    .sort((a, b) => b.before.date.localeCompare(a.before.date));
+}
+
+/**
+ * ルールの内容を1行で表す（一覧の表示用）
+ */
+export function describeRule(rule: EntryRule, categories: Category[]): string {
+  const { itemName, minAmount, maxAmount, weekdays } = rule.conditions;
+  const conditions: string[] = [];
+  if (itemName) {
+    conditions.push(
+      itemName.match === 'regex' ? `項目名が /${itemName.pattern}/ に一致` : `項目名に「${itemName.pattern}」を含む`
+    );
+  }
+  if (minAmount !== undefined || maxAmount !== undefined) {
+    const min = minAmount !== undefined ? `¥${minAmount.toLocaleString()}` : '';
+    const max = maxAmount !== undefined ? `¥${maxAmount.toLocaleString()}` : '';
+    conditions.push(`${min}〜${max}`);
+  }
+  if (weekdays && weekdays.length > 0) {
+    conditions.push(`${[...weekdays].sort().map((day) => WEEKDAY_LABELS[day]).join('・')}曜日`);
+  }
+
+  const actions = rule.actions.map((action) => {
+    if (action.kind === 'setCategory') {
+      return categories.find((c) => c.id === action.categoryId)?.name ?? '削除されたカテゴリ';
+    }
+    return action.kind === 'addTag' ? `#${action.tag}` : `メモ「${action.note}」`;
+  });
+  return `${conditions.join('・')} → ${actions.join('、')}`;
+}
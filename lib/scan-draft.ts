@@ -0,0 +1,111 @@
+/**
+ * Kakeibo Lens - Scan Draft
+ * AI解析結果を結果確認・編集画面へ受け渡すための一時領域
+ *
+ * 1か月分の家計簿は複数ページにわたるため、スキャンはページ単位で解析し、
+ * 結果確認画面で1つの一覧にまとめる。撮影範囲が重なったページに写った同じ行は1件にする。
+ * レシートはページ単位（1枚ずつ）で扱い、手書きのページとは別にまとめる。
+ */
+
+import { AIAnalysisResult, ReceiptAnalysisResult } from '@/types/kakeibo';
+
+/**
+ * 1回のスキャンで読み込めるページ数の上限
+ */
+export const MAX_SCAN_PAGES = 10;
+
+/**
+ * これより信頼度が低い行は結果確認画面で要確認として目立たせる
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/**
+ * スキャンの種類（手書きの家計簿 / 印字されたレシート）
+ */
+export type ScanMode = 'handwritten' | 'receipt';
+
+/**
+ * 解析済みの1ページ（modeのないページは手書き）
+ */
+export type ScanPage =
+  | { mode?: 'handwritten'; imageUri: string; result: AIAnalysisResult }
+  | { mode: 'receipt'; imageUri: string; receipt: ReceiptAnalysisResult };
+
+/**
+ * 保存前のスキャン結果（撮影・選択した順のページ）
+ */
+export interface ScanDraft {
+  pages: ScanPage[];
+}
+
+/**
+ * ページをまとめた1行（どのページから読み取ったかを保持）
+ */
+export type ScanDraftRow = AIAnalysisResult['entries'][number] & { pageIndex: number };
+
+// ルートパラメータに画像や結果を載せないよう、メモリ上で保持する
+let currentDraft: ScanDraft | null = null;
+
+/**
+ * スキャン結果を一時保存
+ */
+export function setScanDraft(draft: ScanDraft): void {
+  currentDraft = draft;
+}
+
+/**
+ * 一時保存中のスキャン結果を取得
+ */
+export function getScanDraft(): ScanDraft | null {
+  return currentDraft;
+}
+
+/**
+ * 一時保存中のスキャン結果を破棄
+ */
+export function clearScanDraft(): void {
+  currentDraft = null;
+}
+
+/**
+ * 読み取りに自信がない行かどうか（信頼度のない行は対象外）
+ */
+export function isLowConfidence(row: { confidence?: number }): boolean {
+  return row.confidence !== undefined && row.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+// 全角・半角や空白、大文字小文字の違いは同じ項目名とみなす
+function rowKey(row: AIAnalysisResult['entries'][number]): string {
+  const itemName = row.itemName.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+  return `${row.date}|${itemName}|${row.amount}`;
+}
+
+/**
+ * 全ページの行を1つの一覧にまとめる（レシートのページは含めない）
+ * 同じ日付・項目名・金額の行は、いずれかのページに写っている件数までを残す
+ * （同じページ内の同じ行は別の支出として残し、重なったページに再び写った分だけを除く）
+ */
+export function mergeScanPages(pages: ScanPage[]): { rows: ScanDraftRow[]; duplicateCount: number } {
+  const kept = new Map<string, number>();
+  const rows: ScanDraftRow[] = [];
+  let duplicateCount = 0;
+
+  pages.forEach((page, pageIndex) => {
+    if (page.mode === 'receipt') return;
+    const seenOnPage = new Map<string, number>();
+    page.result.entries.forEach((entry) => {
+      const key = rowKey(entry);
+      const count = (seenOnPage.get(key) ?? 0) + 1;
+      seenOnPage.set(key, count);
+
+      if (count <= (kept.get(key) ?? 0)) {
+        duplicateCount++;
+        return;
+      }
+      kept.set(key, count);
+      rows.push({ ...entry, pageIndex });
+    });
+  });
+
+  return { rows, duplicateCount };
+}
@@ -0,0 +1,145 @@
+/**
+ * Kakeibo Lens - Split Entries
+ * 1件の記録の金額を複数のカテゴリに分けて計上する（例: スーパーの食費と日用品）
+ *
+ * 分割した記録はカテゴリごとの内訳（splits）を持ち、集計は内訳の金額で行う。
+ * categoryIdは金額が一番大きい内訳のカテゴリにそろえ、
+ * 内訳を知らない画面でも主なカテゴリを表示できるようにする。
+ */
+
+import { parseAmount, parsePercentage } from '@/lib/entry-form';
+import { primarySplit, reassignSplitCategory, splitsMatchAmount } from '@/shared/entry-split';
+import { Category, EntrySplit, KakeiboEntry } from '@/types/kakeibo';
+
+/**
+ * 内訳の入力方法（金額 / 割合）
+ */
+export type SplitInputMode = 'amount' | 'percentage';
+
+/**
+ * target を amounts の比率で配分する（端数は小数部分の大きい順に1円ずつ配る）
+ */
+export function distributeAmount(amounts: number[], target: number): number[] {
+  const sum = amounts.reduce((total, amount) => total + amount, 0);
+  if (amounts.length === 0 || sum <= 0) return amounts.map(() => 0);
+
+  const exact = amounts.map((amount) => (amount * target) / sum);
+  const result = exact.map(Math.floor);
+  let remainder = target - result.reduce((total, amount) => total + amount, 0);
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (let i = 0; remainder > 0; i = (i + 1) % order.length, remainder--) {
+    result[order[i].index]++;
+  }
+  return result;
+}
+
+/**
+ * 集計に使うカテゴリごとの金額（分割していない記録はカテゴリ1つ分）
+ */
+export function entryAllocations(entry: KakeiboEntry): EntrySplit[] {
+  if (entry.splits && entry.splits.length > 0) return entry.splits;
+  return [{ categoryId: entry.categoryId, categoryName: entry.categoryName, amount: entry.amount }];
+}
+
+/**
+ * 編集画面の内訳の入力行
+ */
+export interface SplitInputRow {
+  categoryId: string;
+  value: string; // 金額または割合（%）の入力値
+}
+
+/**
+ * 内訳の入力値を数値に変換。不正な値はnull
+ */
+export function parseSplitValue(value: string, mode: SplitInputMode): number | null {
+  return mode === 'amount' ? parseAmount(value) : parsePercentage(value);
+}
+
+/**
+ * 入力行から内訳を作る（合計が金額と一致しない、カテゴリが重複しているなどの場合はnull）
+ * 割合は合計がちょうど100%のときだけ、端数を配って合計金額と一致させる
+ */
+export function resolveSplitInput(
+  amount: number,
+  rows: SplitInputRow[],
+  mode: SplitInputMode,
+  categories: Category[]
+): EntrySplit[] | null {
+  const values = rows.map((row) => parseSplitValue(row.value, mode));
+  if (values.some((value) => value === null)) return null;
+
+  const numbers = values as number[];
+  if (mode === 'percentage' && numbers.reduce((sum, value) => sum + value, 0) !== 100) return null;
+  const amounts = mode === 'amount' ? numbers : distributeAmount(numbers, amount);
+
+  const splits = rows.map((row, index) => ({
+    categoryId: row.categoryId,
+    categoryName: categories.find((c) => c.id === row.categoryId)?.name,
+    amount: amounts[index],
+  }));
+  return splitsMatchAmount(amount, splits) ? splits : null;
+}
+
+/**
+ * 割り当てていない残り（金額なら円、割合なら%。超過はマイナス）
+ */
+export function splitRemainder(amount: number, rows: SplitInputRow[], mode: SplitInputMode): number {
+  const assigned = rows.reduce((sum, row) => sum + (parseSplitValue(row.value, mode) ?? 0), 0);
+  return (mode === 'amount' ? amount : 100) - assigned;
+}
+
+/**
+ * 入力方法を切り替えたときの入力値（記録の金額に対する割合で換算）
+ * 合計が一致していれば、換算後も合計が一致するように端数を配る
+ */
+export function convertSplitInput(amount: number, rows: SplitInputRow[], to: SplitInputMode): SplitInputRow[] {
+  const from: SplitInputMode = to === 'amount' ? 'percentage' : 'amount';
+  const values = rows.map((row) => parseSplitValue(row.value, from) ?? 0);
+  const whole = from === 'amount' ? amount : 100;
+  const target = to === 'amount' ? amount : 100;
+
+  const converted =
+    values.reduce((sum, value) => sum + value, 0) === whole
+      ? distributeAmount(values, target)
+      : values.map((value) => Math.round((value * target) / whole));
+  return rows.map((row, index) => ({ ...row, value: converted[index] > 0 ? String(converted[index]) : '' }));
+}
+
+/**
+ * 内訳から記録のカテゴリ関連の項目を作る（内訳が1つにまとまったら分割を解除する）
+ */
+export function splitEntryFields(
+  splits: EntrySplit[]
+): Pick<KakeiboEntry, 'categoryId' | 'categoryName' | 'splits'> {
+  const primary = primarySplit(splits);
+  return {
+    categoryId: primary.categoryId,
+    categoryName: primary.categoryName,
+    splits: splits.length > 1 ? splits : undefined,
+  };
+}
+
+/**
+ * 記録がカテゴリを参照しているか（分割した記録は内訳も含む）
+ */
+export function entryUsesCategory(entry: KakeiboEntry, categoryId: string): boolean {
+  return entry.categoryId === categoryId || (entry.splits?.some((s) => s.categoryId === categoryId) ?? false);
+}
+
+/**
+ * 記録のカテゴリを付け替える（同じIDを渡すとカテゴリ名だけを更新）
+ * 分割した記録は該当する内訳だけを移し、移動先の内訳があればまとめる
+ */
+export function moveEntryCategory(
+  entry: KakeiboEntry,
+  fromId: string,
+  to: Pick<Category, 'id' | 'name'>
+): KakeiboEntry {
+  if (!entry.splits) {
+    return entry.categoryId === fromId ? { ...entry, categoryId: to.id, categoryName: to.name } : entry;
+  }
+  return { ...entry, ...splitEntryFields(reassignSplitCategory(entry.splits, fromId, to)) };
+}
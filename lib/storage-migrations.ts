@@ -0,0 +1,150 @@
+/**
+ * Kakeibo Lens - Storage Schema Migrations
+ * AsyncStorageに保存されたデータのスキーマ移行
+ *
+ * 保存形式を変更するときは、MIGRATIONSの末尾に次のバージョンの移行を追加する。
+ * 各移行は直前のバージョンのデータを受け取り、次のバージョンの形式で返す純粋関数とする。
+ */
+
+import { KakeiboEntry, Category, DEFAULT_CATEGORIES, DEFAULT_INCOME_CATEGORIES } from '@/types/kakeibo';
+import { resolveCategory } from '@/lib/ai-analysis';
+
+/**
+ * 移行対象のデータ
+ */
+export interface StorageData {
+  entries: KakeiboEntry[];
+  categories: Category[];
+}
+
+/**
+ * 移行時の共通情報（テストで固定できるよう現在時刻を外から渡す）
+ */
+export interface MigrationContext {
+  now: string; // ISO 8601 date string
+}
+
+/**
+ * 1バージョン分の移行
+ */
+export interface StorageMigration {
+  version: number; // 移行後のバージョン
+  description: string;
+  migrate: (data: StorageData, context: MigrationContext) => StorageData;
+}
+
+/**
+ * デフォルトカテゴリ（支出・収入）を作成
+ */
+export function createDefaultCategories(now: string): Category[] {
+  const expenseCategories = DEFAULT_CATEGORIES.map((cat, index) => ({
+    ...cat,
+    id: `default_${index}`,
+    createdAt: now,
+  }));
+  return [...expenseCategories, ...createDefaultIncomeCategories(now)];
+}
+
+function createDefaultIncomeCategories(now: string): Category[] {
+  return DEFAULT_INCOME_CATEGORIES.map((cat, index) => ({
+    ...cat,
+    id: `default_income_${index}`,
+    createdAt: now,
+  }));
+}
+
+/**
+ * "1,200" のような文字列で保存された金額を数値に変換
+ */
+function coerceAmount(value: unknown): number {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : 0;
+  const parsed = Number(String(value ?? '').replace(/[^\d.-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: '必須項目の補完と型の正規化',
+    migrate: ({ entries, categories }, { now }) => ({
+      entries: entries
+        .filter((entry) => entry != null && typeof entry === 'object')
+        .map((entry, index) => {
+          const createdAt = entry.createdAt || now;
+          return {
+            ...entry,
+            id: entry.id || `entry_legacy_${index}`,
+            date: String(entry.date ?? now).slice(0, 10),
+            itemName: String(entry.itemName ?? ''),
+            amount: coerceAmount(entry.amount),
+            categoryId: String(entry.categoryId ?? ''),
+            createdAt,
+            updatedAt: entry.updatedAt || createdAt,
+          };
+        }),
+      categories: categories
+        .filter((category) => category != null && typeof category === 'object')
+        .map((category, index) => ({
+          ...category,
+          id: category.id || `category_legacy_${index}`,
+          color: category.color || '#95A5A6',
+          createdAt: category.createdAt || now,
+        })),
+    }),
+  },
+  {
+    version: 2,
+    description: 'categoryIdに保存されたカテゴリ名を実在するカテゴリIDへ付け替え',
+    migrate: ({ entries, categories }) => {
+      const categoryIds = new Set(categories.map((c) => c.id));
+      return {
+        entries: entries.map((entry) => {
+          if (categoryIds.has(entry.categoryId)) return entry;
+          const category = resolveCategory(entry.categoryName || entry.categoryId, categories);
+          return category ? { ...entry, categoryId: category.id, categoryName: category.name } : entry;
+        }),
+        categories,
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'エントリーを月別パーティションへ分割',
+    // データの形は変わらない。分割した書き込みはstorage.tsの移行処理が行う
+    migrate: (data) => data,
+  },
+  {
+    version: 4,
+    description: '支出・収入の種別を追加し、収入のデフォルトカテゴリを作成',
+    migrate: ({ entries, categories }, { now }) => {
+      const typedCategories = categories.map((category) => ({
+        ...category,
+        type: category.type ?? 'expense',
+      }));
+      const existingIds = new Set(typedCategories.map((c) => c.id));
+      return {
+        entries: entries.map((entry) => ({ ...entry, type: entry.type ?? 'expense' })),
+        categories: [
+          ...typedCategories,
+          ...createDefaultIncomeCategories(now).filter((c) => !existingIds.has(c.id)),
+        ],
+      };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * fromVersionより新しい移行を順番に適用
+ */
+export function runMigrations(
+  data: StorageData,
+  fromVersion: number,
+  context: MigrationContext
+): StorageData {
+  return MIGRATIONS.filter((migration) => migration.version > fromVersion).reduce(
+    (current, migration) => migration.migrate(current, context),
+    data
+  );
+}
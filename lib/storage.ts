@@ -1,88 +1,408 @@
 /**
  * Kakeibo Lens - Local Storage Management
  * AsyncStorageを使用したデータ永続化
+ *
+ * エントリーは月ごとのキー（@kakeibo_lens:entries:YYYY-MM）に分割して保存し、
+ * エントリーID→月のインデックスで対象の月だけを読み書きする。
+ * 読み込んだ月のデータはメモリ上にキャッシュし、書き込み時に更新する。
+ * 同期を一度でも行った後は、エントリーとカテゴリの変更を同期キューに積む。
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { KakeiboEntry, Category, DEFAULT_CATEGORIES } from '@/types/kakeibo';
+import {
+  KakeiboEntry,
+  Category,
+  Budget,
+  EntryRule,
+  LearnedCategory,
+  MonthlyReflection,
+  RecurringEntry,
+} from '@/types/kakeibo';
+import { CURRENT_SCHEMA_VERSION, createDefaultCategories, runMigrations } from '@/lib/storage-migrations';
+import { createOccurrenceEntry, getDueOccurrences } from '@/lib/recurring';
+import { formatDate } from '@/lib/entry-form';
+import { entryAllocations, entryUsesCategory, moveEntryCategory } from '@/lib/split';
+import { learnCategory } from '@/lib/learned-categories';
+import { applyEntryRules, previewRules, sortRules } from '@/lib/rules';
+import {
+  PendingChange,
+  SyncChanges,
+  SyncState,
+  mergePendingChanges,
+  mergeRemoteCategories,
+  removeSentChanges,
+  resolveRemoteRecords,
+} from '@/lib/sync';
 
 // Storage Keys
 const STORAGE_KEYS = {
-  ENTRIES: '@kakeibo_lens:entries',
+  ENTRIES: '@kakeibo_lens:entries', // v2以前の単一配列（移行時のみ読み込む）
+  ENTRY_INDEX: '@kakeibo_lens:entry_index',
   CATEGORIES: '@kakeibo_lens:categories',
+  BUDGETS: '@kakeibo_lens:budgets',
+  REFLECTIONS: '@kakeibo_lens:reflections',
+  RECURRING: '@kakeibo_lens:recurring_entries',
+  LEARNED_CATEGORIES: '@kakeibo_lens:learned_categories',
+  ENTRY_RULES: '@kakeibo_lens:entry_rules',
   LAST_SYNC: '@kakeibo_lens:last_sync',
+  SYNC_QUEUE: '@kakeibo_lens:sync_queue',
+  SCHEMA_VERSION: '@kakeibo_lens:schema_version',
 } as const;
 
+const ENTRY_PARTITION_PREFIX = '@kakeibo_lens:entries:';
+
+// 月別パーティションへ分割したスキーマバージョン
+const PARTITIONED_SCHEMA_VERSION = 3;
+
 /**
- * 家計簿エントリーの保存
+ * エントリーID → 月（YYYY-MM）
  */
-export async function saveEntries(entries: KakeiboEntry[]): Promise<void> {
+type EntryIndex = Record<string, string>;
+
+let indexCache: EntryIndex | null = null;
+const partitionCache = new Map<string, KakeiboEntry[]>();
+
+/**
+ * ローカルで使う一意なIDを生成（例: entry_1736000000000_k3j9x2a1b）
+ */
+export function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/**
+ * 日付（YYYY-MM-DD）からパーティションの月（YYYY-MM）を取得
+ */
+export function getMonthKey(date: string): string {
+  const match = /^(\d{4})-(\d{2})/.exec(date);
+  return match ? `${match[1]}-${match[2]}` : 'undated';
+}
+
+function partitionKey(month: string): string {
+  return `${ENTRY_PARTITION_PREFIX}${month}`;
+}
+
+function groupByMonth(entries: KakeiboEntry[]): Map<string, KakeiboEntry[]> {
+  const groups = new Map<string, KakeiboEntry[]>();
+  entries.forEach((entry) => {
+    const month = getMonthKey(entry.date);
+    groups.set(month, [...(groups.get(month) ?? []), entry]);
+  });
+  return groups;
+}
+
+function storedMonths(index: EntryIndex): string[] {
+  return Array.from(new Set(Object.values(index))).sort();
+}
+
+/**
+ * キャッシュを破棄（書き込み失敗時や全削除時）
+ */
+function invalidateEntryCache(): void {
+  indexCache = null;
+  partitionCache.clear();
+}
+
+async function readIndex(): Promise<EntryIndex> {
+  if (!indexCache) {
+    const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.ENTRY_INDEX);
+    indexCache = jsonValue != null ? JSON.parse(jsonValue) : {};
+  }
+  return indexCache as EntryIndex;
+}
+
+/**
+ * 指定した月のパーティションを読み込み（キャッシュにない月だけをまとめて取得）
+ */
+async function readPartitions(months: string[]): Promise<Map<string, KakeiboEntry[]>> {
+  const missing = months.filter((month) => !partitionCache.has(month));
+  if (missing.length > 0) {
+    const pairs = await AsyncStorage.multiGet(missing.map(partitionKey));
+    pairs.forEach(([, jsonValue], i) => {
+      partitionCache.set(missing[i], jsonValue != null ? JSON.parse(jsonValue) : []);
+    });
+  }
+  return new Map(months.map((month) => [month, partitionCache.get(month) ?? []]));
+}
+
+async function readAllEntries(): Promise<KakeiboEntry[]> {
+  const index = await readIndex();
+  const partitions = await readPartitions(storedMonths(index));
+  return Array.from(partitions.values()).flat();
+}
+
+/**
+ * 変更のあったパーティションとインデックスをまとめて書き込み
+ */
+async function writePartitions(changed: Map<string, KakeiboEntry[]>, index: EntryIndex): Promise<void> {
+  const pairs: [string, string][] = [];
+  const removed: string[] = [];
+  changed.forEach((entries, month) => {
+    if (entries.length > 0) {
+      pairs.push([partitionKey(month), JSON.stringify(entries)]);
+    } else {
+      removed.push(partitionKey(month));
+    }
+  });
+  pairs.push([STORAGE_KEYS.ENTRY_INDEX, JSON.stringify(index)]);
+
   try {
-    const jsonValue = JSON.stringify(entries);
-    await AsyncStorage.setItem(STORAGE_KEYS.ENTRIES, jsonValue);
+    await AsyncStorage.multiSet(pairs);
+    if (removed.length > 0) {
+      await AsyncStorage.multiRemove(removed);
+    }
   } catch (error) {
     console.error('Failed to save entries:', error);
+    invalidateEntryCache();
     throw new Error('家計簿データの保存に失敗しました');
   }
+
+  changed.forEach((entries, month) => partitionCache.set(month, entries));
+  indexCache = index;
+}
+
+/**
+ * エントリー全体を置き換えて保存（不要になった月のパーティションは削除）
+ */
+async function replaceAllEntries(entries: KakeiboEntry[]): Promise<void> {
+  const previousMonths = storedMonths(await readIndex());
+  const groups = groupByMonth(entries);
+  previousMonths.forEach((month) => {
+    if (!groups.has(month)) groups.set(month, []);
+  });
+
+  const index: EntryIndex = {};
+  entries.forEach((entry) => {
+    index[entry.id] = getMonthKey(entry.date);
+  });
+  await writePartitions(groups, index);
+}
+
+/**
+ * 家計簿エントリーの保存（全件置き換え）
+ */
+export async function saveEntries(entries: KakeiboEntry[]): Promise<void> {
+  await ensureMigrated();
+  await replaceAllEntries(entries);
 }
 
 /**
- * 家計簿エントリーの読み込み
+ * 家計簿エントリーの読み込み（月の昇順）
  */
 export async function loadEntries(): Promise<KakeiboEntry[]> {
   try {
-    const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.ENTRIES);
-    return jsonValue != null ? JSON.parse(jsonValue) : [];
+    await ensureMigrated();
+    return await readAllEntries();
   } catch (error) {
     console.error('Failed to load entries:', error);
     return [];
   }
 }
 
+/**
+ * 家計簿エントリーをIDで取得
+ */
+export async function getEntry(id: string): Promise<KakeiboEntry | undefined> {
+  await ensureMigrated();
+  const month = (await readIndex())[id];
+  if (!month) return undefined;
+  const partitions = await readPartitions([month]);
+  return partitions.get(month)?.find((e) => e.id === id);
+}
+
 /**
  * 家計簿エントリーの追加
  */
 export async function addEntry(entry: KakeiboEntry): Promise<void> {
-  const entries = await loadEntries();
-  entries.push(entry);
-  await saveEntries(entries);
+  await addEntries([entry]);
+}
+
+/**
+ * 家計簿エントリーの一括追加（対象の月ごとに1回だけ書き込む）
+ */
+export async function addEntries(newEntries: KakeiboEntry[]): Promise<void> {
+  if (newEntries.length === 0) return;
+  await ensureMigrated();
+
+  const groups = groupByMonth(newEntries);
+  const partitions = await readPartitions(Array.from(groups.keys()));
+  const index = { ...(await readIndex()) };
+
+  const changed = new Map<string, KakeiboEntry[]>();
+  groups.forEach((entries, month) => {
+    changed.set(month, [...(partitions.get(month) ?? []), ...entries]);
+    entries.forEach((entry) => {
+      index[entry.id] = month;
+    });
+  });
+  await writePartitions(changed, index);
+  await enqueueChanges(
+    newEntries.map((entry) => ({ kind: 'entry', id: entry.id, deleted: false, updatedAt: entry.updatedAt }))
+  );
+}
+
+/**
+ * 自動で作成するエントリーの一括追加（スキャン・定期記録など）
+ * 自動分類ルールを適用してから追加し、追加したエントリーを返す
+ * keepCategoryIdsのエントリーはカテゴリを変えない（ユーザーが選び直したものなど）
+ */
+export async function addEntriesWithRules(
+  newEntries: KakeiboEntry[],
+  keepCategoryIds: string[] = []
+): Promise<KakeiboEntry[]> {
+  if (newEntries.length === 0) return [];
+  await ensureMigrated();
+  const [rules, categories] = await Promise.all([readEntryRules(), readCategories()]);
+  const entries = newEntries.map(
+    (entry) =>
+      applyEntryRules(entry, rules, categories, { keepCategory: keepCategoryIds.includes(entry.id) }).entry
+  );
+  await addEntries(entries);
+  return entries;
 }
 
 /**
- * 家計簿エントリーの更新
+ * 家計簿エントリーの更新（日付の変更で月が変わる場合はパーティションを移動）
  */
 export async function updateEntry(id: string, updates: Partial<KakeiboEntry>): Promise<void> {
-  const entries = await loadEntries();
-  const index = entries.findIndex((e) => e.id === id);
-  if (index === -1) {
+  await ensureMigrated();
+  const index = { ...(await readIndex()) };
+  const month = index[id];
+  const current = month ? (await readPartitions([month])).get(month) ?? [] : [];
+  const existing = current.find((e) => e.id === id);
+  if (!month || !existing) {
     throw new Error('エントリーが見つかりません');
   }
-  entries[index] = {
-    ...entries[index],
+
+  const updated: KakeiboEntry = {
+    ...existing,
     ...updates,
+    id,
     updatedAt: new Date().toISOString(),
   };
-  await saveEntries(entries);
+  const newMonth = getMonthKey(updated.date);
+
+  const changed = new Map<string, KakeiboEntry[]>();
+  if (newMonth === month) {
+    changed.set(month, current.map((e) => (e.id === id ? updated : e)));
+  } else {
+    const target = (await readPartitions([newMonth])).get(newMonth) ?? [];
+    changed.set(month, current.filter((e) => e.id !== id));
+    changed.set(newMonth, [...target, updated]);
+    index[id] = newMonth;
+  }
+  await writePartitions(changed, index);
+  await enqueueChanges([{ kind: 'entry', id, deleted: false, updatedAt: updated.updatedAt }]);
 }
 
 /**
  * 家計簿エントリーの削除
  */
 export async function deleteEntry(id: string): Promise<void> {
-  const entries = await loadEntries();
-  const filtered = entries.filter((e) => e.id !== id);
-  await saveEntries(filtered);
+  await ensureMigrated();
+  const index = { ...(await readIndex()) };
+  const month = index[id];
+  if (!month) return;
+
+  const current = (await readPartitions([month])).get(month) ?? [];
+  delete index[id];
+  await writePartitions(new Map([[month, current.filter((e) => e.id !== id)]]), index);
+  await enqueueChanges([{ kind: 'entry', id, deleted: true, updatedAt: new Date().toISOString() }]);
 }
 
 /**
  * 指定月のエントリーを取得
  */
 export async function getEntriesByMonth(year: number, month: number): Promise<KakeiboEntry[]> {
-  const entries = await loadEntries();
-  return entries.filter((entry) => {
-    const entryDate = new Date(entry.date);
-    return entryDate.getFullYear() === year && entryDate.getMonth() + 1 === month;
+  try {
+    await ensureMigrated();
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    const partitions = await readPartitions([key]);
+    return [...(partitions.get(key) ?? [])];
+  } catch (error) {
+    console.error('Failed to load entries:', error);
+    return [];
+  }
+}
+
+/**
+ * 期間内（YYYY-MM-DD、両端を含む）のエントリーを取得。対象の月のパーティションだけを読み込む
+ */
+export async function getEntriesInRange(startDate: string, endDate: string): Promise<KakeiboEntry[]> {
+  try {
+    await ensureMigrated();
+    const startMonth = getMonthKey(startDate);
+    const endMonth = getMonthKey(endDate);
+    const months = storedMonths(await readIndex()).filter(
+      (month) => month >= startMonth && month <= endMonth
+    );
+    const partitions = await readPartitions(months);
+    return Array.from(partitions.values())
+      .flat()
+      .filter((entry) => entry.date >= startDate && entry.date <= endDate);
+  } catch (error) {
+    console.error('Failed to load entries:', error);
+    return [];
+  }
+}
+
+/**
+ * 日付の新しい順に最大limit件のエントリーを取得（新しい月から必要な分だけ読み込む）
+ */
+export async function getRecentEntries(limit: number): Promise<KakeiboEntry[]> {
+  try {
+    await ensureMigrated();
+    // 日付のないエントリーは新しい月より後に回す
+    const months = storedMonths(await readIndex())
+      .reverse()
+      .sort((a, b) => Number(a === 'undated') - Number(b === 'undated'));
+    const recent: KakeiboEntry[] = [];
+    for (const month of months) {
+      if (recent.length >= limit) break;
+      const partitions = await readPartitions([month]);
+      recent.push(...(partitions.get(month) ?? []));
+    }
+    return recent
+      .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Failed to load entries:', error);
+    return [];
+  }
+}
+
+/**
+ * 条件に一致するエントリーを一括で書き換え（日付は変更しない前提で、変更のあった月だけを書き込む）
+ * updateはupdatedAtも更新すること（同期で変更として扱うため）
+ */
+async function updateMatchingEntries(
+  match: (entry: KakeiboEntry) => boolean,
+  update: (entry: KakeiboEntry) => KakeiboEntry
+): Promise<void> {
+  await ensureMigrated();
+  const index = await readIndex();
+  const partitions = await readPartitions(storedMonths(index));
+
+  const changed = new Map<string, KakeiboEntry[]>();
+  const updated: KakeiboEntry[] = [];
+  partitions.forEach((entries, month) => {
+    if (entries.some(match)) {
+      changed.set(
+        month,
+        entries.map((e) => {
+          if (!match(e)) return e;
+          const next = update(e);
+          updated.push(next);
+          return next;
+        })
+      );
+    }
   });
+  if (changed.size > 0) {
+    await writePartitions(changed, index);
+    await enqueueChanges(
+      updated.map((entry) => ({ kind: 'entry', id: entry.id, deleted: false, updatedAt: entry.updatedAt }))
+    );
+  }
 }
 
 /**
@@ -103,54 +423,805 @@ export async function saveCategories(categories: Category[]): Promise<void> {
  */
 export async function loadCategories(): Promise<Category[]> {
   try {
-    const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.CATEGORIES);
-    if (jsonValue != null) {
-      return JSON.parse(jsonValue);
-    } else {
-      // 初回起動時はデフォルトカテゴリを作成
-      const defaultCategories: Category[] = DEFAULT_CATEGORIES.map((cat, index) => ({
-        ...cat,
-        id: `default_${index}`,
-        createdAt: new Date().toISOString(),
-      }));
-      await saveCategories(defaultCategories);
-      return defaultCategories;
-    }
+    await ensureMigrated();
+    return await readCategories();
   } catch (error) {
     console.error('Failed to load categories:', error);
     return [];
   }
 }
 
+/**
+ * 書き込み前のカテゴリの読み込み（移行に失敗していれば例外にして、移行前のデータを上書きしない）
+ */
+async function readMigratedCategories(): Promise<Category[]> {
+  await ensureMigrated();
+  return readCategories();
+}
+
+async function readCategories(): Promise<Category[]> {
+  const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.CATEGORIES);
+  if (jsonValue != null) {
+    return JSON.parse(jsonValue);
+  }
+
+  // 初回起動時はデフォルトカテゴリを作成
+  const defaultCategories = createDefaultCategories(new Date().toISOString());
+  await saveCategories(defaultCategories);
+  return defaultCategories;
+}
+
 /**
  * カテゴリの追加
  */
 export async function addCategory(category: Category): Promise<void> {
-  const categories = await loadCategories();
-  categories.push(category);
+  const categories = await readMigratedCategories();
+  const added = { ...category, updatedAt: category.updatedAt ?? category.createdAt };
+  categories.push(added);
   await saveCategories(categories);
+  await enqueueChanges([{ kind: 'category', id: added.id, deleted: false, updatedAt: added.updatedAt }]);
 }
 
 /**
- * カテゴリの更新
+ * カテゴリの更新（名前の変更は既存エントリーの表示名にも反映）
  */
 export async function updateCategory(id: string, updates: Partial<Category>): Promise<void> {
-  const categories = await loadCategories();
+  const categories = await readMigratedCategories();
   const index = categories.findIndex((c) => c.id === id);
   if (index === -1) {
     throw new Error('カテゴリが見つかりません');
   }
-  categories[index] = { ...categories[index], ...updates };
+  const previousName = categories[index].name;
+  const now = new Date().toISOString();
+  categories[index] = { ...categories[index], ...updates, id, updatedAt: now };
   await saveCategories(categories);
+  await enqueueChanges([{ kind: 'category', id, deleted: false, updatedAt: now }]);
+
+  const newName = categories[index].name;
+  if (newName !== previousName) {
+    await updateMatchingEntries(
+      (e) => entryUsesCategory(e, id),
+      (e) => ({ ...moveEntryCategory(e, id, { id, name: newName }), updatedAt: now })
+    );
+  }
+}
+
+/**
+ * カテゴリの並び替え（指定されたID順に保存）
+ */
+export async function reorderCategories(orderedIds: string[]): Promise<void> {
+  const categories = await readMigratedCategories();
+  const position = new Map(orderedIds.map((id, index) => [id, index]));
+  const now = new Date().toISOString();
+  // 位置が変わったカテゴリだけを更新扱いにする
+  const sorted = [...categories]
+    .sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity))
+    .map((category, index) =>
+      categories[index].id === category.id ? category : { ...category, updatedAt: now }
+    );
+  await saveCategories(sorted);
+  await enqueueChanges(
+    sorted
+      .filter((category, index) => categories[index].id !== category.id)
+      .map((category) => ({ kind: 'category', id: category.id, deleted: false, updatedAt: now }))
+  );
+}
+
+/**
+ * 指定カテゴリを参照しているエントリーと定期記録の数
+ */
+export async function countCategoryReferences(id: string): Promise<{ entries: number; recurring: number }> {
+  const [entries, recurringEntries] = await Promise.all([loadEntries(), loadRecurringEntries()]);
+  return {
+    entries: entries.filter((e) => entryUsesCategory(e, id)).length,
+    recurring: recurringEntries.filter((r) => r.categoryId === id).length,
+  };
 }
 
 /**
  * カテゴリの削除
+ * reassignToIdを指定すると、削除するカテゴリを参照しているエントリーをそのカテゴリへ付け替える
+ * 定期記録が参照しているカテゴリは、移動先を指定しないと削除できない
  */
-export async function deleteCategory(id: string): Promise<void> {
-  const categories = await loadCategories();
+export async function deleteCategory(id: string, reassignToId?: string): Promise<void> {
+  const categories = await readMigratedCategories();
+
+  if (reassignToId === undefined) {
+    const recurringEntries = await readRecurringEntries();
+    if (recurringEntries.some((r) => r.categoryId === id)) {
+      throw new Error('定期記録で使われているカテゴリは移動先を選んでください');
+    }
+  } else {
+    const target = categories.find((c) => c.id === reassignToId);
+    if (!target || target.id === id) {
+      throw new Error('移動先のカテゴリが見つかりません');
+    }
+    await updateMatchingEntries(
+      (e) => entryUsesCategory(e, id),
+      (e) => ({ ...moveEntryCategory(e, id, target), updatedAt: new Date().toISOString() })
+    );
+  }
+
   const filtered = categories.filter((c) => c.id !== id);
   await saveCategories(filtered);
+  await enqueueChanges([{ kind: 'category', id, deleted: true, updatedAt: new Date().toISOString() }]);
+
+  // 定期記録も移動先へ付け替える
+  if (reassignToId !== undefined) {
+    const recurringEntries = await readRecurringEntries();
+    if (recurringEntries.some((r) => r.categoryId === id)) {
+      await saveRecurringEntries(
+        recurringEntries.map((r) => (r.categoryId === id ? { ...r, categoryId: reassignToId } : r))
+      );
+    }
+  }
+
+  // 削除したカテゴリの予算も取り除く
+  const budgets = await readBudgets();
+  if (budgets.some((b) => b.categoryId === id)) {
+    await saveBudgets(budgets.filter((b) => b.categoryId !== id));
+  }
+
+  // 自動分類ルールのカテゴリも移動先へ付け替え、移動先がなければその動作を取り除く
+  const rules = await readEntryRules();
+  if (rules.some((rule) => rule.actions.some((a) => a.kind === 'setCategory' && a.categoryId === id))) {
+    await saveEntryRules(
+      rules.map((rule) => ({
+        ...rule,
+        actions: rule.actions.flatMap((action) => {
+          if (action.kind !== 'setCategory' || action.categoryId !== id) return [action];
+          return reassignToId !== undefined ? [{ ...action, categoryId: reassignToId }] : [];
+        }),
+      }))
+    );
+  }
+
+  // 学習したカテゴリは移動先へ付け替え、移動先がなければ忘れる
+  const learned = await readLearnedCategories();
+  if (learned.some((item) => item.categoryId === id)) {
+    await saveLearnedCategories(
+      reassignToId !== undefined
+        ? learned.map((item) => (item.categoryId === id ? { ...item, categoryId: reassignToId } : item))
+        : learned.filter((item) => item.categoryId !== id)
+    );
+  }
+}
+
+/**
+ * 予算の保存
+ */
+export async function saveBudgets(budgets: Budget[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.BUDGETS, JSON.stringify(budgets));
+  } catch (error) {
+    console.error('Failed to save budgets:', error);
+    throw new Error('予算の保存に失敗しました');
+  }
+}
+
+/**
+ * 予算の読み込み
+ */
+export async function loadBudgets(): Promise<Budget[]> {
+  try {
+    return await readBudgets();
+  } catch (error) {
+    console.error('Failed to load budgets:', error);
+    return [];
+  }
+}
+
+async function readBudgets(): Promise<Budget[]> {
+  const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.BUDGETS);
+  return jsonValue != null ? JSON.parse(jsonValue) : [];
+}
+
+/**
+ * 指定月の予算をまとめて設定（同じ月・カテゴリの予算は上書き、金額0で予算なし）
+ */
+export async function setMonthBudgets(
+  month: string,
+  updates: Pick<Budget, 'categoryId' | 'amount' | 'carryOver'>[]
+): Promise<void> {
+  const budgets = await readBudgets();
+  const now = new Date().toISOString();
+
+  updates.forEach((update) => {
+    const index = budgets.findIndex((b) => b.month === month && b.categoryId === update.categoryId);
+    if (index !== -1) {
+      budgets[index] = { ...budgets[index], ...update, updatedAt: now };
+    } else {
+      budgets.push({ ...update, id: generateId('budget'), month, createdAt: now, updatedAt: now });
+    }
+  });
+
+  await saveBudgets(budgets);
+}
+
+/**
+ * 定期記録の保存
+ */
+export async function saveRecurringEntries(recurringEntries: RecurringEntry[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.RECURRING, JSON.stringify(recurringEntries));
+  } catch (error) {
+    console.error('Failed to save recurring entries:', error);
+    throw new Error('定期記録の保存に失敗しました');
+  }
+}
+
+/**
+ * 定期記録の読み込み
+ */
+export async function loadRecurringEntries(): Promise<RecurringEntry[]> {
+  try {
+    return await readRecurringEntries();
+  } catch (error) {
+    console.error('Failed to load recurring entries:', error);
+    return [];
+  }
+}
+
+async function readRecurringEntries(): Promise<RecurringEntry[]> {
+  const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.RECURRING);
+  return jsonValue != null ? JSON.parse(jsonValue) : [];
+}
+
+/**
+ * 定期記録の追加・更新（同じIDがあれば置き換え）
+ */
+export async function upsertRecurringEntry(recurring: RecurringEntry): Promise<void> {
+  const recurringEntries = await readRecurringEntries();
+  const index = recurringEntries.findIndex((r) => r.id === recurring.id);
+  if (index !== -1) {
+    recurringEntries[index] = recurring;
+  } else {
+    recurringEntries.push(recurring);
+  }
+  await saveRecurringEntries(recurringEntries);
+}
+
+/**
+ * 定期記録の削除（作成済みのエントリーは残す）
+ */
+export async function deleteRecurringEntry(id: string): Promise<void> {
+  const recurringEntries = await readRecurringEntries();
+  await saveRecurringEntries(recurringEntries.filter((r) => r.id !== id));
+}
+
+/**
+ * 1回分の発生をスキップ（skip=falseでスキップを取り消す）
+ */
+export async function setOccurrenceSkipped(id: string, date: string, skip: boolean): Promise<void> {
+  const recurringEntries = await readRecurringEntries();
+  const recurring = recurringEntries.find((r) => r.id === id);
+  if (!recurring) {
+    throw new Error('定期記録が見つかりません');
+  }
+
+  const skippedDates = recurring.skippedDates.filter((d) => d !== date);
+  await upsertRecurringEntry({
+    ...recurring,
+    skippedDates: skip ? [...skippedDates, date].sort() : skippedDates,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * 発生日を迎えた定期記録をエントリーとして作成（アプリ起動時に呼ばれる）
+ * 作成済みの日付はgeneratedThroughで管理するため、作成後に削除した回は再作成されない
+ * 作成したエントリー数を返す
+ */
+let materializePromise: Promise<number> | null = null;
+
+export function materializeRecurringEntries(today: Date = new Date()): Promise<number> {
+  // 同時に呼ばれても同じ発生日を二重に作成しないよう、実行中の処理を共有する
+  if (!materializePromise) {
+    materializePromise = createDueRecurringEntries(today).finally(() => {
+      materializePromise = null;
+    });
+  }
+  return materializePromise;
+}
+
+async function createDueRecurringEntries(today: Date): Promise<number> {
+  await ensureMigrated();
+  const recurringEntries = await readRecurringEntries();
+  if (recurringEntries.length === 0) return 0;
+
+  const todayKey = formatDate(today);
+  const now = new Date().toISOString();
+  const categories = await readCategories();
+  const index = await readIndex();
+
+  const created: KakeiboEntry[] = [];
+  const updated = recurringEntries.map((recurring) => {
+    if (!recurring.isActive) return recurring;
+    getDueOccurrences(recurring, todayKey).forEach((date) => {
+      const entry = createOccurrenceEntry(recurring, date, categories, now);
+      if (!index[entry.id]) created.push(entry);
+    });
+    return { ...recurring, generatedThrough: todayKey };
+  });
+
+  await addEntriesWithRules(created);
+  await saveRecurringEntries(updated);
+  return created.length;
+}
+
+/**
+ * 学習したカテゴリの保存（この端末のみ。同期はしない）
+ */
+async function saveLearnedCategories(learned: LearnedCategory[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.LEARNED_CATEGORIES, JSON.stringify(learned));
+  } catch (error) {
+    console.error('Failed to save learned categories:', error);
+    throw new Error('学習したカテゴリの保存に失敗しました');
+  }
+}
+
+/**
+ * 学習したカテゴリの読み込み（最後に修正した順）
+ */
+export async function loadLearnedCategories(): Promise<LearnedCategory[]> {
+  try {
+    return await readLearnedCategories();
+  } catch (error) {
+    console.error('Failed to load learned categories:', error);
+    return [];
+  }
+}
+
+async function readLearnedCategories(): Promise<LearnedCategory[]> {
+  const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.LEARNED_CATEGORIES);
+  return jsonValue != null ? JSON.parse(jsonValue) : [];
+}
+
+/**
+ * ユーザーが修正した項目名 → カテゴリを覚える
+ */
+export async function recordCategoryCorrections(
+  corrections: { itemName: string; categoryId: string }[]
+): Promise<void> {
+  if (corrections.length === 0) return;
+  const now = new Date().toISOString();
+  const learned = corrections.reduce(
+    (current, correction) => learnCategory(current, correction.itemName, correction.categoryId, now),
+    await readLearnedCategories()
+  );
+  await saveLearnedCategories(learned);
+}
+
+/**
+ * 学習したカテゴリの付け替え（設定画面から）
+ */
+export async function updateLearnedCategory(key: string, categoryId: string): Promise<void> {
+  const learned = await readLearnedCategories();
+  await saveLearnedCategories(
+    learned
+      .map((item) => (item.key === key ? { ...item, categoryId, updatedAt: new Date().toISOString() } : item))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  );
+}
+
+/**
+ * 学習したカテゴリを忘れる
+ */
+export async function deleteLearnedCategory(key: string): Promise<void> {
+  const learned = await readLearnedCategories();
+  await saveLearnedCategories(learned.filter((item) => item.key !== key));
+}
+
+/**
+ * 自動分類ルールの保存（この端末のみ。同期はしない）
+ */
+async function saveEntryRules(rules: EntryRule[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.ENTRY_RULES, JSON.stringify(rules));
+  } catch (error) {
+    console.error('Failed to save entry rules:', error);
+    throw new Error('自動分類ルールの保存に失敗しました');
+  }
+}
+
+/**
+ * 自動分類ルールの読み込み（評価する順）
+ */
+export async function loadEntryRules(): Promise<EntryRule[]> {
+  try {
+    return await readEntryRules();
+  } catch (error) {
+    console.error('Failed to load entry rules:', error);
+    return [];
+  }
+}
+
+async function readEntryRules(): Promise<EntryRule[]> {
+  const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.ENTRY_RULES);
+  return jsonValue != null ? sortRules(JSON.parse(jsonValue)) : [];
+}
+
+/**
+ * 自動分類ルールの追加・更新（同じIDがあれば置き換え、新しいルールは最後に評価する）
+ */
+export async function upsertEntryRule(rule: EntryRule): Promise<void> {
+  const rules = await readEntryRules();
+  const index = rules.findIndex((r) => r.id === rule.id);
+  if (index !== -1) {
+    rules[index] = rule;
+  } else {
+    rules.push({ ...rule, priority: rules.reduce((max, r) => Math.max(max, r.priority + 1), 0) });
+  }
+  await saveEntryRules(rules);
+}
+
+/**
+ * 自動分類ルールの削除（適用済みのエントリーは変えない）
+ */
+export async function deleteEntryRule(id: string): Promise<void> {
+  const rules = await readEntryRules();
+  await saveEntryRules(rules.filter((r) => r.id !== id));
+}
+
+/**
+ * 自動分類ルールの並び替え（指定されたID順に優先度を振り直す）
+ */
+export async function reorderEntryRules(orderedIds: string[]): Promise<void> {
+  const rules = await readEntryRules();
+  const position = new Map(orderedIds.map((id, index) => [id, index]));
+  const now = new Date().toISOString();
+  const sorted = [...rules].sort(
+    (a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity)
+  );
+  await saveEntryRules(
+    sorted.map((rule, priority) => (rule.priority === priority ? rule : { ...rule, priority, updatedAt: now }))
+  );
+}
+
+/**
+ * 既存のエントリーにルールを適用（プレビューで確認した後に実行する）
+ * 変更したエントリー数を返す
+ */
+export async function applyRulesToExistingEntries(rules: EntryRule[]): Promise<number> {
+  await ensureMigrated();
+  const [entries, categories] = await Promise.all([loadEntries(), readCategories()]);
+  const now = new Date().toISOString();
+  const updates = new Map(previewRules(entries, rules, categories).map(({ after }) => [after.id, after]));
+  if (updates.size === 0) return 0;
+
+  await updateMatchingEntries(
+    (e) => updates.has(e.id),
+    (e) => ({ ...(updates.get(e.id) ?? e), updatedAt: now })
+  );
+  return updates.size;
+}
+
+/**
+ * 振り返りの読み込み（新しい月から順）
+ */
+export async function loadReflections(): Promise<MonthlyReflection[]> {
+  try {
+    const reflections = await readReflections();
+    return reflections.sort((a, b) => b.month.localeCompare(a.month));
+  } catch (error) {
+    console.error('Failed to load reflections:', error);
+    return [];
+  }
+}
+
+async function readReflections(): Promise<MonthlyReflection[]> {
+  const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.REFLECTIONS);
+  return jsonValue != null ? JSON.parse(jsonValue) : [];
+}
+
+/**
+ * 指定月の振り返りを取得
+ */
+export async function getReflection(month: string): Promise<MonthlyReflection | undefined> {
+  const reflections = await loadReflections();
+  return reflections.find((r) => r.month === month);
+}
+
+/**
+ * 指定月の振り返りを保存（なければ作成）
+ */
+export async function saveReflection(
+  month: string,
+  updates: Partial<Omit<MonthlyReflection, 'id' | 'month' | 'createdAt' | 'updatedAt'>>
+): Promise<void> {
+  try {
+    const reflections = await readReflections();
+    const now = new Date().toISOString();
+    const index = reflections.findIndex((r) => r.month === month);
+
+    if (index !== -1) {
+      reflections[index] = { ...reflections[index], ...updates, updatedAt: now };
+    } else {
+      reflections.push({ ...updates, id: generateId('reflection'), month, createdAt: now, updatedAt: now });
+    }
+
+    await AsyncStorage.setItem(STORAGE_KEYS.REFLECTIONS, JSON.stringify(reflections));
+  } catch (error) {
+    console.error('Failed to save reflection:', error);
+    throw new Error('振り返りの保存に失敗しました');
+  }
+}
+
+/**
+ * 前回の同期状態（一度も同期していなければnull）
+ */
+export async function getSyncState(): Promise<SyncState | null> {
+  try {
+    return await readSyncState();
+  } catch (error) {
+    console.error('Failed to load sync state:', error);
+    return null;
+  }
+}
+
+async function readSyncState(): Promise<SyncState | null> {
+  const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.LAST_SYNC);
+  return jsonValue != null ? JSON.parse(jsonValue) : null;
+}
+
+async function readPendingChanges(): Promise<PendingChange[]> {
+  const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_QUEUE);
+  return jsonValue != null ? JSON.parse(jsonValue) : [];
+}
+
+/**
+ * 同期キューへ変更を追加（同期を始める前の変更は初回同期で全件送るため積まない）
+ * データ自体は保存済みなので、キューの書き込みに失敗しても呼び出し元へはエラーにしない
+ */
+async function enqueueChanges(changes: PendingChange[]): Promise<void> {
+  if (changes.length === 0) return;
+  try {
+    if (!(await readSyncState())) return;
+    const queue = await readPendingChanges();
+    await AsyncStorage.setItem(STORAGE_KEYS.SYNC_QUEUE, JSON.stringify(mergePendingChanges(queue, changes)));
+  } catch (error) {
+    console.error('Failed to queue changes for sync:', error);
+  }
+}
+
+/**
+ * サーバーへ送信する変更を集める
+ * 初回同期では端末のエントリーとカテゴリを全件、それ以降は同期キューの分だけ
+ */
+export async function collectLocalChanges(): Promise<{ changes: PendingChange[]; outgoing: SyncChanges }> {
+  await ensureMigrated();
+  const categories = await readCategories();
+  const changes: PendingChange[] = (await readSyncState())
+    ? await readPendingChanges()
+    : [
+        ...(await readAllEntries()).map(
+          (entry): PendingChange => ({
+            kind: 'entry',
+            id: entry.id,
+            deleted: false,
+            updatedAt: entry.updatedAt,
+          })
+        ),
+        ...categories.map(
+          (category): PendingChange => ({
+            kind: 'category',
+            id: category.id,
+            deleted: false,
+            updatedAt: category.updatedAt ?? category.createdAt,
+          })
+        ),
+      ];
+
+  const outgoing: SyncChanges = { entries: [], categories: [], deletedEntries: [], deletedCategories: [] };
+  const index = await readIndex();
+  for (const change of changes) {
+    if (change.deleted) {
+      const tombstone = { id: change.id, deletedAt: change.updatedAt };
+      (change.kind === 'entry' ? outgoing.deletedEntries : outgoing.deletedCategories).push(tombstone);
+    } else if (change.kind === 'entry') {
+      const month = index[change.id];
+      if (!month) continue;
+      const entry = (await readPartitions([month])).get(month)?.find((e) => e.id === change.id);
+      if (entry) outgoing.entries.push(entry);
+    } else {
+      const sortOrder = categories.findIndex((c) => c.id === change.id);
+      if (sortOrder !== -1) {
+        const category = categories[sortOrder];
+        outgoing.categories.push({
+          ...category,
+          sortOrder,
+          updatedAt: category.updatedAt ?? category.createdAt,
+        });
+      }
+    }
+  }
+  return { changes, outgoing };
+}
+
+/**
+ * サーバーから受信した変更を反映（同期キューには積まない）
+ * 反映したレコード数を返す
+ */
+export async function applyRemoteChanges(remote: SyncChanges): Promise<number> {
+  await ensureMigrated();
+  const pending = await readPendingChanges();
+
+  // エントリー: 受信したレコードが今ある月と、移動先の月だけを読み書きする
+  const index = { ...(await readIndex()) };
+  const remoteIds = [...remote.entries.map((e) => e.id), ...remote.deletedEntries.map((t) => t.id)];
+  const months = new Set<string>([
+    ...remoteIds.map((id) => index[id]).filter((month): month is string => month !== undefined),
+    ...remote.entries.map((e) => getMonthKey(e.date)),
+  ]);
+  const partitions = await readPartitions(Array.from(months));
+  const localUpdatedAt = new Map<string, string>();
+  partitions.forEach((entries) => entries.forEach((e) => localUpdatedAt.set(e.id, e.updatedAt)));
+
+  const entryChanges = resolveRemoteRecords(
+    'entry',
+    remote.entries,
+    remote.deletedEntries,
+    localUpdatedAt,
+    pending
+  );
+  const replaced = new Set([...entryChanges.upserts.map((e) => e.id), ...entryChanges.deletedIds]);
+  if (replaced.size > 0) {
+    const changed = new Map<string, KakeiboEntry[]>();
+    replaced.forEach((id) => {
+      const month = index[id];
+      if (month && !changed.has(month)) {
+        changed.set(month, (partitions.get(month) ?? []).filter((e) => !replaced.has(e.id)));
+      }
+      delete index[id];
+    });
+    entryChanges.upserts.forEach((entry) => {
+      const month = getMonthKey(entry.date);
+      const current = changed.get(month) ?? (partitions.get(month) ?? []).filter((e) => !replaced.has(e.id));
+      changed.set(month, [...current, entry]);
+      index[entry.id] = month;
+    });
+    await writePartitions(changed, index);
+  }
+
+  // カテゴリ
+  const categories = await readCategories();
+  const categoryChanges = resolveRemoteRecords(
+    'category',
+    remote.categories,
+    remote.deletedCategories,
+    new Map(categories.map((c) => [c.id, c.updatedAt ?? c.createdAt])),
+    pending
+  );
+  if (categoryChanges.upserts.length > 0 || categoryChanges.deletedIds.length > 0) {
+    await saveCategories(
+      mergeRemoteCategories(categories, categoryChanges.upserts, categoryChanges.deletedIds)
+    );
+  }
+
+  return replaced.size + categoryChanges.upserts.length + categoryChanges.deletedIds.length;
+}
+
+/**
+ * 同期の完了を記録（送信済みの変更をキューから取り除き、次回のカーソルを保存）
+ */
+export async function completeSync(
+  sent: PendingChange[],
+  cursor: string | null,
+  householdId?: number
+): Promise<SyncState> {
+  const state: SyncState = { cursor, lastSyncedAt: new Date().toISOString(), householdId };
+  const queue = await readPendingChanges();
+  await AsyncStorage.multiSet([
+    [STORAGE_KEYS.SYNC_QUEUE, JSON.stringify(removeSentChanges(queue, sent))],
+    [STORAGE_KEYS.LAST_SYNC, JSON.stringify(state)],
+  ]);
+  return state;
+}
+
+/**
+ * 同期状態を消去（次回の同期で端末のデータを全件送り、サーバーのデータを全件受け取る）
+ */
+export async function resetSyncState(): Promise<void> {
+  await AsyncStorage.multiRemove([STORAGE_KEYS.LAST_SYNC, STORAGE_KEYS.SYNC_QUEUE]);
+}
+
+/**
+ * 同期先の世帯が変わったときに、前の世帯の記録とカテゴリを端末から消去する（同期状態も消去する）
+ * 前の世帯のデータを新しい世帯へ送らないため。予算・定期記録などの端末だけの設定は残す
+ */
+export async function clearSyncedLedger(): Promise<void> {
+  await ensureMigrated();
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove([
+    ...keys.filter((key) => key.startsWith(ENTRY_PARTITION_PREFIX)),
+    STORAGE_KEYS.ENTRY_INDEX,
+    STORAGE_KEYS.CATEGORIES,
+    STORAGE_KEYS.LAST_SYNC,
+    STORAGE_KEYS.SYNC_QUEUE,
+  ]);
+  invalidateEntryCache();
+}
+
+/**
+ * 保存データをCURRENT_SCHEMA_VERSIONの形式へ移行
+ */
+async function migrateStorage(): Promise<void> {
+  const [[, versionValue], [, categoriesValue]] = await AsyncStorage.multiGet([
+    STORAGE_KEYS.SCHEMA_VERSION,
+    STORAGE_KEYS.CATEGORIES,
+  ]);
+
+  // バージョン未記録のデータは移行導入前（v0）として扱う
+  const fromVersion = versionValue != null ? Number(versionValue) : 0;
+  if (fromVersion === CURRENT_SCHEMA_VERSION) return;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    console.warn(`Stored schema version ${fromVersion} is newer than ${CURRENT_SCHEMA_VERSION}`);
+    return;
+  }
+
+  // 月別パーティション導入前は単一配列から読み込む
+  const isPartitioned = fromVersion >= PARTITIONED_SCHEMA_VERSION;
+  let entries: KakeiboEntry[] = [];
+  if (isPartitioned) {
+    entries = await readAllEntries();
+  } else {
+    const legacyValue = await AsyncStorage.getItem(STORAGE_KEYS.ENTRIES);
+    entries = legacyValue != null ? JSON.parse(legacyValue) : [];
+  }
+  const previousMonths = isPartitioned ? storedMonths(await readIndex()) : [];
+
+  const now = new Date().toISOString();
+  const migrated = runMigrations(
+    {
+      entries,
+      categories: categoriesValue != null ? JSON.parse(categoriesValue) : createDefaultCategories(now),
+    },
+    fromVersion,
+    { now }
+  );
+
+  const groups = groupByMonth(migrated.entries);
+  const index: EntryIndex = {};
+  migrated.entries.forEach((entry) => {
+    index[entry.id] = getMonthKey(entry.date);
+  });
+
+  // 移行結果とバージョンは同時に書き込み、途中で失敗しても次回起動時に再実行できるようにする
+  await AsyncStorage.multiSet([
+    ...Array.from(groups.entries()).map(
+      ([month, monthEntries]): [string, string] => [partitionKey(month), JSON.stringify(monthEntries)]
+    ),
+    [STORAGE_KEYS.ENTRY_INDEX, JSON.stringify(index)],
+    [STORAGE_KEYS.CATEGORIES, JSON.stringify(migrated.categories)],
+    [STORAGE_KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION)],
+  ]);
+
+  const staleKeys = previousMonths.filter((month) => !groups.has(month)).map(partitionKey);
+  if (!isPartitioned) staleKeys.push(STORAGE_KEYS.ENTRIES);
+  if (staleKeys.length > 0) {
+    await AsyncStorage.multiRemove(staleKeys);
+  }
+
+  invalidateEntryCache();
+}
+
+let migrationPromise: Promise<void> | null = null;
+
+/**
+ * 保存データの移行を1度だけ実行（アプリ起動時と読み書きの前に呼ばれる）
+ * 失敗したら例外を返す。移行前の形式のまま書き込むと、再試行した移行で上書きされて失われるため
+ */
+export function ensureMigrated(): Promise<void> {
+  if (!migrationPromise) {
+    migrationPromise = migrateStorage().catch((error) => {
+      console.error('Failed to migrate storage:', error);
+      // 次回の呼び出しで再試行する
+      migrationPromise = null;
+      throw new Error('保存データの移行に失敗しました');
+    });
+  }
+  return migrationPromise;
 }
 
 /**
@@ -158,11 +1229,21 @@ export async function deleteCategory(id: string): Promise<void> {
  */
 export async function clearAllData(): Promise<void> {
   try {
+    const keys = await AsyncStorage.getAllKeys();
     await AsyncStorage.multiRemove([
+      ...keys.filter((key) => key.startsWith(ENTRY_PARTITION_PREFIX)),
       STORAGE_KEYS.ENTRIES,
+      STORAGE_KEYS.ENTRY_INDEX,
       STORAGE_KEYS.CATEGORIES,
+      STORAGE_KEYS.BUDGETS,
+      STORAGE_KEYS.REFLECTIONS,
+      STORAGE_KEYS.RECURRING,
+      STORAGE_KEYS.LEARNED_CATEGORIES,
+      STORAGE_KEYS.ENTRY_RULES,
       STORAGE_KEYS.LAST_SYNC,
+      STORAGE_KEYS.SYNC_QUEUE,
     ]);
+    invalidateEntryCache();
   } catch (error) {
     console.error('Failed to clear all data:', error);
     throw new Error('データの削除に失敗しました');
@@ -180,15 +1261,18 @@ export async function generateCSV(): Promise<string> {
   const categoryMap = new Map(categories.map((c) => [c.id, c.name]));
 
   // CSVヘッダー
-  let csv = '日付,項目名,金額,カテゴリ,メモ\n';
+  let csv = '日付,種別,項目名,金額,カテゴリ,メモ\n';
 
-  // CSVデータ
+  // CSVデータ（分割した記録は内訳ごとの行にして、カテゴリ別の合計がアプリの集計と一致するようにする）
   entries
     .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
     .forEach((entry) => {
-      const categoryName = categoryMap.get(entry.categoryId) || 'その他';
       const note = entry.note || '';
-      csv += `${entry.date},"${entry.itemName}",${entry.amount},"${categoryName}","${note}"\n`;
+      const type = entry.type === 'income' ? '収入' : '支出';
+      entryAllocations(entry).forEach((allocation) => {
+        const categoryName = categoryMap.get(allocation.categoryId) || 'その他';
+        csv += `${entry.date},${type},"${entry.itemName}",${allocation.amount},"${categoryName}","${note}"\n`;
+      });
     });
 
   return csv;
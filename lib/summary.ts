@@ -0,0 +1,79 @@
+/**
+ * Kakeibo Lens - Monthly Summary
+ * ホーム画面・分析画面で共通利用する月次集計
+ */
+
+import { entryAllocations } from '@/lib/split';
+import { Category, KakeiboEntry, MonthlySummary } from '@/types/kakeibo';
+
+// 削除済みなど、カテゴリ一覧に存在しないIDの表示色
+const UNKNOWN_CATEGORY_COLOR = '#95A5A6';
+
+/**
+ * 月次サマリーを計算（カテゴリIDで集計するため、カテゴリ名を変更しても履歴は分割されない）
+ * 分割した記録はカテゴリ別内訳に内訳ごとの金額で計上する
+ * 支出総額・カテゴリ別内訳・1日平均は支出のみ、収支と貯蓄率は収入を含めて計算
+ */
+export function calculateMonthlySummary(
+  entries: KakeiboEntry[],
+  categories: Category[],
+  year: number,
+  month: number
+): MonthlySummary {
+  const expenses = entries.filter((entry) => entry.type !== 'income');
+  const totalAmount = expenses.reduce((sum, entry) => sum + entry.amount, 0);
+  const totalIncome = entries
+    .filter((entry) => entry.type === 'income')
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const balance = totalIncome - totalAmount;
+
+  const categoryMap = new Map<string, { name: string; color: string; amount: number }>();
+
+  // カテゴリ一覧の順で初期化
+  categories
+    .filter((cat) => cat.type !== 'income')
+    .forEach((cat) => {
+      categoryMap.set(cat.id, { name: cat.name, color: cat.color, amount: 0 });
+    });
+
+  // 支出をカテゴリIDで集計
+  expenses.flatMap(entryAllocations).forEach((allocation) => {
+    const existing = categoryMap.get(allocation.categoryId);
+    if (existing) {
+      existing.amount += allocation.amount;
+    } else {
+      // 未知のIDは独立した項目として表示する（「その他」には混ぜない）
+      categoryMap.set(allocation.categoryId, {
+        name: allocation.categoryName || '未分類',
+        color: UNKNOWN_CATEGORY_COLOR,
+        amount: allocation.amount,
+      });
+    }
+  });
+
+  const categoryBreakdown = Array.from(categoryMap.entries())
+    .map(([categoryId, data]) => ({
+      categoryId,
+      categoryName: data.name,
+      categoryColor: data.color,
+      amount: data.amount,
+      percentage: totalAmount > 0 ? (data.amount / totalAmount) * 100 : 0,
+    }))
+    .filter((item) => item.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const averageDailySpending = totalAmount / daysInMonth;
+
+  return {
+    year,
+    month,
+    totalAmount,
+    totalIncome,
+    balance,
+    savingsRate: totalIncome > 0 ? (balance / totalIncome) * 100 : 0,
+    categoryBreakdown,
+    entryCount: entries.length,
+    averageDailySpending,
+  };
+}
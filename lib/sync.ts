@@ -0,0 +1,209 @@
+/**
+ * Kakeibo Lens - Sync
+ * 端末のデータとサーバーの双方向同期で使う型と、競合解決などの計算
+ *
+ * 端末での変更は同期キュー（PendingChange）に積み、同期時にサーバーへ送信する。
+ * サーバーからは前回のカーソル以降に変更されたレコードを受け取り、
+ * updatedAtが新しい方を採用する（後勝ち）。削除はトゥームストーンとして同期する。
+ * 予算・振り返り・定期記録は端末内のみで、同期の対象外。
+ */
+
+import type { Category as ServerCategory, Entry as ServerEntry } from '@/drizzle/schema';
+import { Category, KakeiboEntry } from '@/types/kakeibo';
+
+export type SyncKind = 'entry' | 'category';
+
+/**
+ * サーバーへ未送信の変更（同じレコードは最新の1件だけを残す）
+ */
+export interface PendingChange {
+  kind: SyncKind;
+  id: string;
+  deleted: boolean; // 削除（トゥームストーン）かどうか
+  updatedAt: string; // 変更日時（ISO 8601）
+}
+
+/**
+ * 削除されたレコード
+ */
+export interface Tombstone {
+  id: string;
+  deletedAt: string; // ISO 8601
+}
+
+/**
+ * 同期で送受信するカテゴリ（並び順を含む）
+ */
+export type SyncCategory = Category & { sortOrder: number; updatedAt: string };
+
+/**
+ * 送受信する変更のまとまり
+ */
+export interface SyncChanges {
+  entries: KakeiboEntry[];
+  categories: SyncCategory[];
+  deletedEntries: Tombstone[];
+  deletedCategories: Tombstone[];
+}
+
+/**
+ * 前回の同期状態（LAST_SYNCに保存）
+ */
+export interface SyncState {
+  cursor: string | null; // サーバーの変更カーソル（次回はこれ以降を受け取る）
+  lastSyncedAt: string; // 端末で同期が完了した日時
+  householdId?: number; // 同期した世帯（変わったら全件を同期し直す）
+}
+
+function changeKey(kind: SyncKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+/**
+ * 同期キューへ変更を追加（同じレコードの古い変更は置き換える）
+ */
+export function mergePendingChanges(queue: PendingChange[], changes: PendingChange[]): PendingChange[] {
+  const merged = new Map(queue.map((change) => [changeKey(change.kind, change.id), change]));
+  changes.forEach((change) => {
+    const key = changeKey(change.kind, change.id);
+    merged.delete(key);
+    merged.set(key, change);
+  });
+  return Array.from(merged.values());
+}
+
+/**
+ * 送信済みの変更をキューから取り除く（送信中にさらに変更されたものは残す）
+ */
+export function removeSentChanges(queue: PendingChange[], sent: PendingChange[]): PendingChange[] {
+  const sentAt = new Map(sent.map((change) => [changeKey(change.kind, change.id), change]));
+  return queue.filter((change) => {
+    const match = sentAt.get(changeKey(change.kind, change.id));
+    return !match || match.updatedAt !== change.updatedAt || match.deleted !== change.deleted;
+  });
+}
+
+/**
+ * 受信したレコードのうち端末に反映するものを選ぶ
+ * 未送信の変更があるレコードは端末側を優先し、それ以外はupdatedAtが新しい方を採用する
+ */
+export function resolveRemoteRecords<T extends { id: string; updatedAt: string }>(
+  kind: SyncKind,
+  records: T[],
+  tombstones: Tombstone[],
+  localUpdatedAt: Map<string, string>,
+  pending: PendingChange[]
+): { upserts: T[]; deletedIds: string[] } {
+  const pendingKeys = new Set(pending.map((change) => changeKey(change.kind, change.id)));
+  const isPending = (id: string) => pendingKeys.has(changeKey(kind, id));
+
+  const upserts = records.filter((record) => {
+    if (isPending(record.id)) return false;
+    const local = localUpdatedAt.get(record.id);
+    return local === undefined || record.updatedAt > local;
+  });
+  const deletedIds = tombstones
+    .filter((tombstone) => {
+      if (isPending(tombstone.id)) return false;
+      const local = localUpdatedAt.get(tombstone.id);
+      return local !== undefined && tombstone.deletedAt >= local;
+    })
+    .map((tombstone) => tombstone.id);
+
+  return { upserts, deletedIds };
+}
+
+/**
+ * 受信したカテゴリを端末の一覧へ反映（受信したものはサーバーの並び順の位置へ移す）
+ */
+export function mergeRemoteCategories(
+  categories: Category[],
+  upserts: SyncCategory[],
+  deletedIds: string[]
+): Category[] {
+  const deleted = new Set(deletedIds);
+  const ordered = new Map<string, { category: Category; order: number }>();
+  categories.forEach((category, index) => {
+    if (!deleted.has(category.id)) ordered.set(category.id, { category, order: index });
+  });
+  upserts.forEach(({ sortOrder, ...category }) => {
+    ordered.set(category.id, { category, order: sortOrder });
+  });
+
+  // 同じ順位なら元の並びを保つ（Array.prototype.sortは安定ソート）
+  return Array.from(ordered.values())
+    .sort((a, b) => a.order - b.order)
+    .map(({ category }) => category);
+}
+
+/**
+ * サーバーから受信した行を端末の形式へ変換（deletedAtのある行はトゥームストーン）
+ */
+export function fromServerChanges(rows: {
+  entries: ServerEntry[];
+  categories: ServerCategory[];
+}): SyncChanges {
+  const changes: SyncChanges = { entries: [], categories: [], deletedEntries: [], deletedCategories: [] };
+
+  rows.entries.forEach((row) => {
+    if (row.deletedAt) {
+      changes.deletedEntries.push({ id: row.id, deletedAt: row.deletedAt.toISOString() });
+      return;
+    }
+    changes.entries.push({
+      id: row.id,
+      type: row.type,
+      date: row.date,
+      itemName: row.itemName,
+      amount: row.amount,
+      categoryId: row.categoryId,
+      categoryName: row.categoryName ?? undefined,
+      note: row.note ?? undefined,
+      imageUri: row.imageUri ?? undefined,
+      recurringId: row.recurringId ?? undefined,
+      recordedBy: row.userId,
+      splits: row.splits ?? undefined,
+      tags: row.tags ?? undefined,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    });
+  });
+
+  rows.categories.forEach((row) => {
+    if (row.deletedAt) {
+      changes.deletedCategories.push({ id: row.id, deletedAt: row.deletedAt.toISOString() });
+      return;
+    }
+    changes.categories.push({
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      color: row.color,
+      icon: row.icon ?? undefined,
+      sortOrder: row.sortOrder,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * 送信する変更を1回の送信で送れる件数ごとに分割
+ */
+export function splitSyncChanges(changes: SyncChanges, size: number): SyncChanges[] {
+  const batches: SyncChanges[] = [];
+  const lists = ['entries', 'categories', 'deletedEntries', 'deletedCategories'] as const;
+  const longest = Math.max(...lists.map((list) => changes[list].length));
+
+  for (let start = 0; start < longest; start += size) {
+    batches.push({
+      entries: changes.entries.slice(start, start + size),
+      categories: changes.categories.slice(start, start + size),
+      deletedEntries: changes.deletedEntries.slice(start, start + size),
+      deletedCategories: changes.deletedCategories.slice(start, start + size),
+    });
+  }
+  return batches;
+}
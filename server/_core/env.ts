@@ -5,6 +5,21 @@ export const ENV = {
   oAuthServerUrl: process.env.OAUTH_SERVER_URL ?? "",
   ownerOpenId: process.env.OWNER_OPEN_ID ?? "",
   isProduction: process.env.NODE_ENV === "production",
+  // Number of proxies in front of the server (the gateway) whose X-Forwarded-For entries
+  // are trusted when resolving the client IP; defaults to 1.
+  trustProxyHops: process.env.TRUST_PROXY_HOPS ?? "",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  // OpenAI-compatible chat endpoint for invokeLLM; unset values fall back to the forge.
+  llmBaseUrl: process.env.LLM_BASE_URL ?? "",
+  llmApiKey: process.env.LLM_API_KEY ?? "",
+  llmModel: process.env.LLM_MODEL ?? "",
+  llmMaxTokens: process.env.LLM_MAX_TOKENS ?? "",
+  llmThinkingBudget: process.env.LLM_THINKING_BUDGET ?? "",
+  // Overrides for kakeibo image analysis; unset values fall back to the LLM_* settings above.
+  llmScanBaseUrl: process.env.LLM_SCAN_BASE_URL ?? "",
+  llmScanApiKey: process.env.LLM_SCAN_API_KEY ?? "",
+  llmScanModel: process.env.LLM_SCAN_MODEL ?? "",
+  llmScanMaxTokens: process.env.LLM_SCAN_MAX_TOKENS ?? "",
+  llmScanThinkingBudget: process.env.LLM_SCAN_THINKING_BUDGET ?? "",
 };
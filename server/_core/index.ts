@@ -6,7 +6,7 @@ import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
-import analyzeKakeiboRouter from "../routes/analyze-kakeibo.js";
+import { ENV } from "./env";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise((resolve) => {
@@ -31,6 +31,10 @@ async function startServer() {
   const app = express();
   const server = createServer(app);
 
+  // req.ip is then the address the last trusted proxy saw, not a client-supplied value.
+  const proxyHops = Number.parseInt(ENV.trustProxyHops, 10);
+  app.set("trust proxy", Number.isNaN(proxyHops) ? 1 : proxyHops);
+
   // Enable CORS for all routes - reflect the request origin to support credentials
   app.use((req, res, next) => {
     const origin = req.headers.origin;
@@ -52,8 +56,9 @@ async function startServer() {
     next();
   });
 
-  app.use(express.json({ limit: "50mb" }));
-  app.use(express.urlencoded({ limit: "50mb", extended: true }));
+  // Sized for one base64 photo per analysis request (MAX_IMAGE_BASE64_LENGTH in server/routers.ts)
+  app.use(express.json({ limit: "12mb" }));
+  app.use(express.urlencoded({ limit: "12mb", extended: true }));
 
   registerOAuthRoutes(app);
 
@@ -61,9 +66,6 @@ async function startServer() {
     res.json({ ok: true, timestamp: Date.now() });
   });
 
-  // AI解析エンドポイント
-  app.use("/api", analyzeKakeiboRouter);
-
   app.use(
     "/api/trpc",
     createExpressMiddleware({
@@ -54,6 +54,11 @@ export type ToolChoice = ToolChoicePrimitive | ToolChoiceByName | ToolChoiceExpl
 
 export type InvokeParams = {
   messages: Message[];
+  /** Which configured provider and model to use (see resolveLLMConfig). */
+  callSite?: LLMCallSite;
+  /** Per-call overrides of the call site's configuration. */
+  model?: string;
+  thinkingBudget?: number | null;
   tools?: Tool[];
   toolChoice?: ToolChoice;
   tool_choice?: ToolChoice;
@@ -201,16 +206,74 @@ const normalizeToolChoice = (
   return toolChoice;
 };
 
-const resolveApiUrl = () =>
+/**
+ * Call sites with their own provider settings. "scan" reads LLM_SCAN_* and
+ * falls back to LLM_*, which in turn falls back to the built-in forge.
+ */
+export type LLMCallSite = "default" | "scan";
+
+export type LLMConfig = {
+  provider: "forge" | "openai-compatible";
+  /** Full chat completions URL. */
+  apiUrl: string;
+  /** Empty for OpenAI-compatible servers that need no key (e.g. a local one). */
+  apiKey: string;
+  model: string;
+  maxTokens: number;
+  /** Sent as the forge's `thinking` extension; null leaves it out. */
+  thinkingBudget: number | null;
+};
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+const DEFAULT_MAX_TOKENS = 32768;
+const DEFAULT_THINKING_BUDGET = 128;
+
+type LLMSetting = "BaseUrl" | "ApiKey" | "Model" | "MaxTokens" | "ThinkingBudget";
+
+const readSetting = (callSite: LLMCallSite, setting: LLMSetting): string => {
+  const scoped = callSite === "scan" ? ENV[`llmScan${setting}`].trim() : "";
+  return scoped || ENV[`llm${setting}`].trim();
+};
+
+const parseTokenCount = (value: string, name: string): number => {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return count;
+};
+
+const resolveForgeApiUrl = () =>
   ENV.forgeApiUrl && ENV.forgeApiUrl.trim().length > 0
     ? `${ENV.forgeApiUrl.replace(/\/$/, "")}/v1/chat/completions`
     : "https://forge.manus.im/v1/chat/completions";
 
-const assertApiKey = () => {
-  if (!ENV.forgeApiKey) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-};
+/**
+ * Resolves the provider settings for a call site from ENV. A custom base URL
+ * is an OpenAI-compatible API root such as "http://localhost:11434/v1"; the
+ * forge-specific thinking budget is only sent to it when configured.
+ */
+export function resolveLLMConfig(callSite: LLMCallSite = "default"): LLMConfig {
+  const baseUrl = readSetting(callSite, "BaseUrl");
+  const maxTokens = readSetting(callSite, "MaxTokens");
+  const thinkingBudget = readSetting(callSite, "ThinkingBudget");
+
+  return {
+    provider: baseUrl ? "openai-compatible" : "forge",
+    apiUrl: baseUrl ? `${baseUrl.replace(/\/+$/, "")}/chat/completions` : resolveForgeApiUrl(),
+    apiKey: baseUrl ? readSetting(callSite, "ApiKey") : ENV.forgeApiKey,
+    model: readSetting(callSite, "Model") || DEFAULT_MODEL,
+    maxTokens: maxTokens ? parseTokenCount(maxTokens, "LLM max tokens") : DEFAULT_MAX_TOKENS,
+    thinkingBudget:
+      thinkingBudget === "off"
+        ? null
+        : thinkingBudget
+          ? parseTokenCount(thinkingBudget, "LLM thinking budget")
+          : baseUrl
+            ? null
+            : DEFAULT_THINKING_BUDGET,
+  };
+}
 
 const normalizeResponseFormat = ({
   responseFormat,
@@ -253,7 +316,10 @@ const normalizeResponseFormat = ({
 };
 
 export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  assertApiKey();
+  const config = resolveLLMConfig(params.callSite);
+  if (config.provider === "forge" && !config.apiKey) {
+    throw new Error("BUILT_IN_FORGE_API_KEY is not configured");
+  }
 
   const {
     messages,
@@ -264,10 +330,13 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     output_schema,
     responseFormat,
     response_format,
+    model = config.model,
+    maxTokens = params.max_tokens ?? config.maxTokens,
+    thinkingBudget = config.thinkingBudget,
   } = params;
 
   const payload: Record<string, unknown> = {
-    model: "gemini-2.5-flash",
+    model,
     messages: messages.map(normalizeMessage),
   };
 
@@ -280,10 +349,12 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.tool_choice = normalizedToolChoice;
   }
 
-  payload.max_tokens = 32768;
-  payload.thinking = {
-    budget_tokens: 128,
-  };
+  payload.max_tokens = maxTokens;
+  if (thinkingBudget !== null) {
+    payload.thinking = {
+      budget_tokens: thinkingBudget,
+    };
+  }
 
   const normalizedResponseFormat = normalizeResponseFormat({
     responseFormat,
@@ -296,11 +367,11 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.response_format = normalizedResponseFormat;
   }
 
-  const response = await fetch(resolveApiUrl(), {
+  const response = await fetch(config.apiUrl, {
     method: "POST",
     headers: {
       "content-type": "application/json",
-      authorization: `Bearer ${ENV.forgeApiKey}`,
+      ...(config.apiKey ? { authorization: `Bearer ${config.apiKey}` } : {}),
     },
     body: JSON.stringify(payload),
   });
@@ -1,10 +1,17 @@
 import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from "../../shared/const.js";
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
+import { AnalysisError } from "../kakeibo-analysis";
 import type { TrpcContext } from "./context";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
+  // Analysis failures name their kind, which the tRPC code alone cannot carry:
+  // BAD_REQUEST is also any input validation error, FORBIDDEN any permission error.
+  errorFormatter({ shape, error }) {
+    const analysisCode = error.cause instanceof AnalysisError ? error.cause.code : undefined;
+    return { ...shape, data: { ...shape.data, analysisCode } };
+  },
 });
 
 export const router = t.router;
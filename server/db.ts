@@ -1,6 +1,25 @@
-import { eq } from "drizzle-orm";
+import { and, asc, between, eq, gte, inArray, isNotNull, isNull, lt, lte, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users } from "../drizzle/schema";
+import {
+  aiUsage,
+  categories,
+  entries,
+  householdInvites,
+  householdMembers,
+  households,
+  InsertCategory,
+  InsertEntry,
+  InsertUser,
+  users,
+} from "../drizzle/schema";
+import {
+  canDeleteCategory,
+  canDeleteEntry,
+  DEFAULT_HOUSEHOLD_NAME,
+  type HouseholdRole,
+} from "../shared/household";
+import { primarySplit, reassignSplitCategory, splitUpdateMatches } from "../shared/entry-split";
+import { DEFAULT_MONTHLY_SCAN_QUOTA } from "../shared/kakeibo-analysis";
 import { ENV } from "./_core/env";
 
 let _db: ReturnType<typeof drizzle> | null = null;
@@ -89,4 +108,586 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-// TODO: add feature queries here as your schema grows.
+async function requireDb() {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  return db;
+}
+
+type Transaction = Parameters<Parameters<Awaited<ReturnType<typeof requireDb>>["transaction"]>[0]>[0];
+
+// ---- Households -----------------------------------------------------------
+// Ledger rows belong to a household; `userId` on a row records which member wrote it.
+
+/** The household ledger a request works on and the member acting on it. */
+export type LedgerScope = { householdId: number; userId: number; role: HouseholdRole };
+
+async function findMembership(userId: number) {
+  const db = await requireDb();
+  const result = await db
+    .select()
+    .from(householdMembers)
+    .where(eq(householdMembers.userId, userId))
+    .limit(1);
+  return result[0];
+}
+
+/**
+ * Returns the user's household, creating one owned by them on first use.
+ */
+export async function getLedgerScope(userId: number): Promise<LedgerScope> {
+  const existing = await findMembership(userId);
+  if (existing) return { householdId: existing.householdId, userId, role: existing.role };
+
+  const db = await requireDb();
+  try {
+    const householdId = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(households).values({ name: DEFAULT_HOUSEHOLD_NAME }).$returningId();
+      await tx.insert(householdMembers).values({ householdId: created.id, userId, role: "owner" });
+      return created.id;
+    });
+    return { householdId, userId, role: "owner" };
+  } catch (error) {
+    // A concurrent request created it first (householdMembers.userId is unique).
+    const membership = await findMembership(userId);
+    if (!membership) throw error;
+    return { householdId: membership.householdId, userId, role: membership.role };
+  }
+}
+
+export async function getHousehold(householdId: number) {
+  const db = await requireDb();
+  const [household] = await db.select().from(households).where(eq(households.id, householdId)).limit(1);
+  if (!household) return undefined;
+
+  const members = await db
+    .select({
+      userId: householdMembers.userId,
+      role: householdMembers.role,
+      joinedAt: householdMembers.joinedAt,
+      name: users.name,
+    })
+    .from(householdMembers)
+    .innerJoin(users, eq(users.id, householdMembers.userId))
+    .where(eq(householdMembers.householdId, householdId))
+    .orderBy(asc(householdMembers.joinedAt));
+  return { ...household, members };
+}
+
+export async function renameHousehold(householdId: number, name: string): Promise<void> {
+  const db = await requireDb();
+  await db.update(households).set({ name }).where(eq(households.id, householdId));
+}
+
+/** Issues a new invite code for the household, revoking any earlier one. */
+export async function replaceInvite(
+  householdId: number,
+  createdBy: number,
+  code: string,
+  expiresAt: Date,
+): Promise<void> {
+  const db = await requireDb();
+  await db.transaction(async (tx) => {
+    await tx.delete(householdInvites).where(eq(householdInvites.householdId, householdId));
+    await tx.insert(householdInvites).values({ code, householdId, createdBy, expiresAt });
+  });
+}
+
+export async function getInvite(code: string) {
+  const db = await requireDb();
+  const result = await db.select().from(householdInvites).where(eq(householdInvites.code, code)).limit(1);
+  return result[0];
+}
+
+/**
+ * Moves the user into another household as a member. Rows they recorded stay in the
+ * household they leave.
+ */
+export async function joinHousehold(userId: number, householdId: number): Promise<void> {
+  const db = await requireDb();
+  await db.transaction(async (tx) => {
+    await tx.delete(householdMembers).where(eq(householdMembers.userId, userId));
+    await tx.insert(householdMembers).values({ householdId, userId, role: "member" });
+  });
+}
+
+/** The user gets a new household of their own on their next request. */
+export async function leaveHousehold(userId: number): Promise<void> {
+  const db = await requireDb();
+  await db.delete(householdMembers).where(eq(householdMembers.userId, userId));
+}
+
+/** Returns false when the user is not a member of the household. */
+export async function removeMember(householdId: number, userId: number): Promise<boolean> {
+  const db = await requireDb();
+  const [result] = await db
+    .delete(householdMembers)
+    .where(and(eq(householdMembers.householdId, householdId), eq(householdMembers.userId, userId)));
+  return result.affectedRows > 0;
+}
+
+/** Returns false when the user is not a member of the household. */
+export async function setMemberRole(householdId: number, userId: number, role: HouseholdRole): Promise<boolean> {
+  const db = await requireDb();
+  const [result] = await db
+    .update(householdMembers)
+    .set({ role })
+    .where(and(eq(householdMembers.householdId, householdId), eq(householdMembers.userId, userId)));
+  return result.affectedRows > 0;
+}
+
+type EntryValues = Omit<InsertEntry, "householdId" | "userId">;
+type CategoryValues = Omit<InsertCategory, "householdId" | "userId">;
+
+// ---- Ledger entries -------------------------------------------------------
+// Every helper takes the household id so a query can never reach another household's rows.
+// Deletes are soft (`deletedAt`) so sync can hand the tombstone to the members' other devices.
+
+export async function getEntriesByMonth(householdId: number, year: number, month: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get entries: database not available");
+    return [];
+  }
+
+  const monthKey = `${year}-${String(month).padStart(2, "0")}`;
+  const lastDay = new Date(year, month, 0).getDate();
+  return db
+    .select()
+    .from(entries)
+    .where(
+      and(
+        eq(entries.householdId, householdId),
+        isNull(entries.deletedAt),
+        between(entries.date, `${monthKey}-01`, `${monthKey}-${lastDay}`),
+      ),
+    )
+    .orderBy(asc(entries.date), asc(entries.createdAt));
+}
+
+export async function getEntry(householdId: number, id: string) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get entry: database not available");
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(entries)
+    .where(and(eq(entries.householdId, householdId), eq(entries.id, id), isNull(entries.deletedAt)))
+    .limit(1);
+  return result[0];
+}
+
+/** Inserts all rows in a single statement (used for a whole scanned page). */
+export async function createEntries(scope: LedgerScope, rows: EntryValues[]): Promise<void> {
+  if (rows.length === 0) return;
+  const db = await requireDb();
+  await db
+    .insert(entries)
+    .values(rows.map((row) => ({ ...row, householdId: scope.householdId, userId: scope.userId })));
+}
+
+export async function createEntry(scope: LedgerScope, row: EntryValues): Promise<void> {
+  await createEntries(scope, [row]);
+}
+
+export type UpdateEntryResult = "updated" | "not_found" | "invalid_splits";
+
+/**
+ * Applies a partial update. The stored row is read under a lock first so a change to
+ * only the amount or only the allocations of a split entry is checked against the
+ * other half before it is written.
+ */
+export async function updateEntry(
+  householdId: number,
+  id: string,
+  data: Partial<Omit<EntryValues, "id">>,
+): Promise<UpdateEntryResult> {
+  const db = await requireDb();
+  return db.transaction(async (tx) => {
+    const where = and(eq(entries.householdId, householdId), eq(entries.id, id), isNull(entries.deletedAt));
+    const [stored] = await tx
+      .select({ amount: entries.amount, splits: entries.splits })
+      .from(entries)
+      .where(where)
+      .limit(1)
+      .for("update");
+    if (!stored) return "not_found";
+    if (!splitUpdateMatches(stored, data)) return "invalid_splits";
+
+    await tx.update(entries).set(data).where(where);
+    return "updated";
+  });
+}
+
+/** Returns false when the entry does not exist in this household. */
+export async function deleteEntry(householdId: number, id: string): Promise<boolean> {
+  const db = await requireDb();
+  const now = new Date();
+  const [result] = await db
+    .update(entries)
+    .set({ deletedAt: now, updatedAt: now })
+    .where(and(eq(entries.householdId, householdId), eq(entries.id, id), isNull(entries.deletedAt)));
+  return result.affectedRows > 0;
+}
+
+// ---- Ledger categories ----------------------------------------------------
+
+export async function getCategories(householdId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get categories: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(categories)
+    .where(and(eq(categories.householdId, householdId), isNull(categories.deletedAt)))
+    .orderBy(asc(categories.sortOrder), asc(categories.createdAt));
+}
+
+export async function createCategory(scope: LedgerScope, row: CategoryValues): Promise<void> {
+  const db = await requireDb();
+  await db.insert(categories).values({ ...row, householdId: scope.householdId, userId: scope.userId });
+}
+
+// Split entries keep their allocations as JSON, which the column updates below cannot
+// reach, so allocations naming the category are rewritten row by row (see lib/split.ts).
+async function moveSplitEntries(
+  tx: Transaction,
+  householdId: number,
+  fromId: string,
+  to: { id: string; name: string },
+): Promise<void> {
+  const rows = await tx
+    .select({ id: entries.id, splits: entries.splits })
+    .from(entries)
+    .where(and(eq(entries.householdId, householdId), isNotNull(entries.splits)));
+
+  for (const row of rows) {
+    if (!row.splits?.some((split) => split.categoryId === fromId)) continue;
+    const splits = reassignSplitCategory(row.splits, fromId, to);
+    const primary = primarySplit(splits);
+    await tx
+      .update(entries)
+      .set({
+        categoryId: primary.categoryId,
+        categoryName: primary.categoryName ?? null,
+        splits: splits.length > 1 ? splits : null,
+      })
+      .where(and(eq(entries.householdId, householdId), eq(entries.id, row.id)));
+  }
+}
+
+/**
+ * Updates a category. A rename is copied onto the household's entries' `categoryName`
+ * and split allocations the same way the device store does, so both sides keep showing
+ * the same label.
+ * Returns false when the category does not exist in this household.
+ */
+export async function updateCategory(
+  householdId: number,
+  id: string,
+  data: Partial<Omit<CategoryValues, "id">>,
+): Promise<boolean> {
+  const db = await requireDb();
+  return db.transaction(async (tx) => {
+    const [result] = await tx
+      .update(categories)
+      .set(data)
+      .where(and(eq(categories.householdId, householdId), eq(categories.id, id), isNull(categories.deletedAt)));
+    if (result.affectedRows === 0) return false;
+
+    if (data.name !== undefined) {
+      await tx
+        .update(entries)
+        .set({ categoryName: data.name })
+        .where(and(eq(entries.householdId, householdId), eq(entries.categoryId, id)));
+      await moveSplitEntries(tx, householdId, id, { id, name: data.name });
+    }
+    return true;
+  });
+}
+
+/** True when a live entry of the household uses the category, directly or in a split allocation. */
+async function categoryInUse(tx: Transaction, householdId: number, id: string): Promise<boolean> {
+  const live = and(eq(entries.householdId, householdId), isNull(entries.deletedAt));
+  const [direct] = await tx
+    .select({ id: entries.id })
+    .from(entries)
+    .where(and(live, eq(entries.categoryId, id)))
+    .limit(1);
+  if (direct) return true;
+
+  const splitRows = await tx
+    .select({ splits: entries.splits })
+    .from(entries)
+    .where(and(live, isNotNull(entries.splits)));
+  return splitRows.some((row) => row.splits?.some((split) => split.categoryId === id));
+}
+
+export type DeleteCategoryResult = "deleted" | "not_found" | "invalid_target" | "in_use";
+
+/**
+ * Deletes a category. With `reassignToId`, entries referencing it are moved to that
+ * category first so they are not orphaned; the target must be another live category of
+ * the same type. Without a target the delete is refused while entries still use the
+ * category, as the device store does.
+ */
+export async function deleteCategory(
+  householdId: number,
+  id: string,
+  reassignToId?: string,
+): Promise<DeleteCategoryResult> {
+  const db = await requireDb();
+  return db.transaction(async (tx) => {
+    const live = (categoryId: string) =>
+      and(eq(categories.householdId, householdId), eq(categories.id, categoryId), isNull(categories.deletedAt));
+    const [category] = await tx.select().from(categories).where(live(id)).limit(1).for("update");
+    if (!category) return "not_found";
+
+    if (reassignToId === undefined) {
+      if (await categoryInUse(tx, householdId, id)) return "in_use";
+    } else {
+      const [target] = await tx.select().from(categories).where(live(reassignToId)).limit(1);
+      if (!target || target.id === id || target.type !== category.type) return "invalid_target";
+
+      await tx
+        .update(entries)
+        .set({ categoryId: target.id, categoryName: target.name })
+        .where(and(eq(entries.householdId, householdId), eq(entries.categoryId, id)));
+      await moveSplitEntries(tx, householdId, id, target);
+    }
+
+    const now = new Date();
+    await tx.update(categories).set({ deletedAt: now, updatedAt: now }).where(live(id));
+    return "deleted";
+  });
+}
+
+// ---- Sync -----------------------------------------------------------------
+// Devices push their changed rows and pull everything whose `syncedAt` is at or after
+// their cursor. Conflicts are last-write-wins on the device-side `updatedAt`, except
+// that a delete is final.
+
+type EntrySyncValues = Omit<EntryValues, "deletedAt" | "syncedAt"> & { updatedAt: Date };
+type CategorySyncValues = Omit<CategoryValues, "deletedAt" | "syncedAt"> & { updatedAt: Date };
+
+/** A device-side delete, applied only if the row was not edited after it. */
+export type Tombstone = { id: string; deletedAt: Date };
+
+// `updatedAt` is stored at second precision, so an equal value counts as newer and
+// the later push wins the tie. A tombstoned row is never written: the device made the
+// edit before it pulled the delete, and its clock may be skewed or the edit long pending,
+// so its `updatedAt` cannot show that the edit came after the delete.
+export function newerThanStored<T extends { id: string; updatedAt: Date }>(
+  rows: T[],
+  stored: { id: string; updatedAt: Date; deletedAt: Date | null }[],
+): T[] {
+  const storedRows = new Map(stored.map((row) => [row.id, row]));
+  return rows.filter((row) => {
+    const current = storedRows.get(row.id);
+    if (current === undefined) return true;
+    return current.deletedAt === null && row.updatedAt.getTime() >= current.updatedAt.getTime();
+  });
+}
+
+/**
+ * Upserts pushed entries that are newer than the stored row and not deleted.
+ * New rows are attributed to the pushing member; edits keep the original recorder.
+ * Returns the number of rows written.
+ */
+export async function applyEntryChanges(scope: LedgerScope, rows: EntrySyncValues[]): Promise<number> {
+  if (rows.length === 0) return 0;
+  const db = await requireDb();
+  return db.transaction(async (tx) => {
+    const stored = await tx
+      .select({ id: entries.id, updatedAt: entries.updatedAt, deletedAt: entries.deletedAt })
+      .from(entries)
+      .where(and(eq(entries.householdId, scope.householdId), inArray(entries.id, rows.map((row) => row.id))));
+
+    const winners = newerThanStored(rows, stored);
+    for (const { id, ...data } of winners) {
+      await tx
+        .insert(entries)
+        .values({ ...data, id, householdId: scope.householdId, userId: scope.userId })
+        .onDuplicateKeyUpdate({ set: data });
+    }
+    return winners.length;
+  });
+}
+
+export async function applyCategoryChanges(scope: LedgerScope, rows: CategorySyncValues[]): Promise<number> {
+  if (rows.length === 0) return 0;
+  const db = await requireDb();
+  return db.transaction(async (tx) => {
+    const stored = await tx
+      .select({ id: categories.id, updatedAt: categories.updatedAt, deletedAt: categories.deletedAt })
+      .from(categories)
+      .where(
+        and(eq(categories.householdId, scope.householdId), inArray(categories.id, rows.map((row) => row.id))),
+      );
+
+    const winners = newerThanStored(rows, stored);
+    for (const { id, ...data } of winners) {
+      await tx
+        .insert(categories)
+        .values({ ...data, id, householdId: scope.householdId, userId: scope.userId })
+        .onDuplicateKeyUpdate({ set: data });
+    }
+    return winners.length;
+  });
+}
+
+/**
+ * Marks pushed deletes as tombstones. Rows the server never had are skipped, since no
+ * other device can hold them either. A delete the member may not make is refused by
+ * touching the row instead, so the device pulls it back on the same sync.
+ */
+export async function applyEntryTombstones(scope: LedgerScope, tombstones: Tombstone[]): Promise<void> {
+  if (tombstones.length === 0) return;
+  const db = await requireDb();
+  await db.transaction(async (tx) => {
+    for (const { id, deletedAt } of tombstones) {
+      const where = and(eq(entries.householdId, scope.householdId), eq(entries.id, id));
+      const [row] = await tx.select({ userId: entries.userId }).from(entries).where(where).limit(1);
+      if (!row) continue;
+
+      if (!canDeleteEntry(scope.role, scope.userId, row.userId)) {
+        await tx.update(entries).set({ syncedAt: new Date() }).where(where);
+        continue;
+      }
+      await tx
+        .update(entries)
+        .set({ deletedAt, updatedAt: deletedAt })
+        .where(and(where, lte(entries.updatedAt, deletedAt)));
+    }
+  });
+}
+
+export async function applyCategoryTombstones(scope: LedgerScope, tombstones: Tombstone[]): Promise<void> {
+  if (tombstones.length === 0) return;
+  const db = await requireDb();
+  const allowed = canDeleteCategory(scope.role);
+  await db.transaction(async (tx) => {
+    for (const { id, deletedAt } of tombstones) {
+      const where = and(eq(categories.householdId, scope.householdId), eq(categories.id, id));
+      if (!allowed) {
+        await tx.update(categories).set({ syncedAt: new Date() }).where(where);
+        continue;
+      }
+      await tx
+        .update(categories)
+        .set({ deletedAt, updatedAt: deletedAt })
+        .where(and(where, lte(categories.updatedAt, deletedAt)));
+    }
+  });
+}
+
+/**
+ * Rows (tombstones included) changed at or after `since`, or all rows when omitted.
+ * `cursor` is the latest `syncedAt` returned; the bound is inclusive so rows written
+ * within the same second are sent again rather than missed.
+ */
+export async function getChangesSince(householdId: number, since?: Date) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get changes: database not available");
+    return { entries: [], categories: [], cursor: since ?? null };
+  }
+
+  const [entryRows, categoryRows] = await Promise.all([
+    db
+      .select()
+      .from(entries)
+      .where(and(eq(entries.householdId, householdId), since ? gte(entries.syncedAt, since) : undefined)),
+    db
+      .select()
+      .from(categories)
+      .where(and(eq(categories.householdId, householdId), since ? gte(categories.syncedAt, since) : undefined))
+      .orderBy(asc(categories.sortOrder), asc(categories.createdAt)),
+  ]);
+
+  const latest = [...entryRows, ...categoryRows].reduce<Date | null>(
+    (cursor, row) => (cursor === null || row.syncedAt > cursor ? row.syncedAt : cursor),
+    since ?? null,
+  );
+  return { entries: entryRows, categories: categoryRows, cursor: latest };
+}
+
+// ---- AI usage -------------------------------------------------------------
+
+/** Scans used in the month (YYYY-MM) and the user's monthly quota. */
+export async function getScanUsage(userId: number, month: string) {
+  const db = await requireDb();
+  const [user] = await db
+    .select({ scanQuota: users.scanQuota })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  const [usage] = await db
+    .select({ scans: aiUsage.scans })
+    .from(aiUsage)
+    .where(and(eq(aiUsage.userId, userId), eq(aiUsage.month, month)))
+    .limit(1);
+  return { scans: usage?.scans ?? 0, quota: user?.scanQuota ?? DEFAULT_MONTHLY_SCAN_QUOTA };
+}
+
+/**
+ * Takes one scan from the month's quota before the LLM is called. The check and the
+ * increment are one UPDATE, so parallel requests cannot all slip under the quota.
+ * `reserved` is false when the quota is used up.
+ */
+export async function reserveScan(userId: number, month: string): Promise<{ reserved: boolean; quota: number }> {
+  const db = await requireDb();
+  const [user] = await db
+    .select({ scanQuota: users.scanQuota })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  const quota = user?.scanQuota ?? DEFAULT_MONTHLY_SCAN_QUOTA;
+
+  // Create the month's row first so the conditional UPDATE always has a row to claim.
+  await db
+    .insert(aiUsage)
+    .values({ userId, month })
+    .onDuplicateKeyUpdate({ set: { userId: sql`${aiUsage.userId}` } });
+  const [result] = await db
+    .update(aiUsage)
+    .set({ scans: sql`${aiUsage.scans} + 1` })
+    .where(and(eq(aiUsage.userId, userId), eq(aiUsage.month, month), lt(aiUsage.scans, quota)));
+  return { reserved: result.affectedRows > 0, quota };
+}
+
+/** Gives back a reserved scan whose request never reached the LLM. */
+export async function releaseScan(userId: number, month: string): Promise<void> {
+  const db = await requireDb();
+  await db
+    .update(aiUsage)
+    .set({ scans: sql`GREATEST(${aiUsage.scans} - 1, 0)` })
+    .where(and(eq(aiUsage.userId, userId), eq(aiUsage.month, month)));
+}
+
+/** Adds to the month's counters, creating the row on the first scan of the month. */
+export async function recordAiUsage(
+  userId: number,
+  month: string,
+  usage: { scans: number; promptTokens: number; completionTokens: number },
+): Promise<void> {
+  const db = await requireDb();
+  await db
+    .insert(aiUsage)
+    .values({ userId, month, ...usage })
+    .onDuplicateKeyUpdate({
+      set: {
+        scans: sql`${aiUsage.scans} + ${usage.scans}`,
+        promptTokens: sql`${aiUsage.promptTokens} + ${usage.promptTokens}`,
+        completionTokens: sql`${aiUsage.completionTokens} + ${usage.completionTokens}`,
+      },
+    });
+}
@@ -0,0 +1,425 @@
+import { z } from "zod";
+import type { AnalysisErrorCode, CategoryHint } from "../shared/kakeibo-analysis";
+import { invokeLLM, type InvokeResult, type Message, type OutputSchema } from "./_core/llm";
+
+/**
+ * Thrown by analyzeKakeiboImage; the router turns `code` into the matching
+ * tRPC error (see ANALYSIS_TRPC_ERROR_CODES) and keeps this as its cause, from
+ * which the error formatter sends `code` to the app.
+ */
+export class AnalysisError extends Error {
+  constructor(
+    public code: AnalysisErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+}
+
+const PROMPT = `
+あなたは手書き家計簿の画像を解析するAIアシスタントです。
+画像から家計簿の各行について次の情報を抽出してください。
+
+- date: 日付（YYYY-MM-DD形式）
+- itemName: 項目名（摘要）
+- amount: 金額（円単位の整数。カンマや「円」は付けない）
+- suggestedCategory: カテゴリ（食費、日用品、交通費、娯楽、医療費、教育費、光熱費、通信費、その他のいずれか。不明ならnull）
+- confidence: その行を正しく読み取れた確実性（0から1の数値。かすれや崩し字で自信がない行は低くする）
+- region: その行が書かれている範囲（画像の幅・高さに対する0から1の割合で、左上を原点としたx, y, width, height。分からなければnull）
+
+あわせて、ページ全体の解析の確実性を0から1の数値でconfidenceに入れてください。
+
+注意事項:
+- 日付が不明な場合は、今日の日付を使用してください
+- 年が書かれていない場合は、今日に近い年を使用してください
+- 金額が不明確な場合は、最も可能性の高い数値を推測してください
+- 複数の項目がある場合は、すべて抽出してください
+`;
+
+// Strict schemas need every property listed as required; optional values are nullable instead.
+export const analysisOutputSchema: OutputSchema = {
+  name: "kakeibo_analysis",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["entries", "confidence"],
+    properties: {
+      entries: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["date", "itemName", "amount", "suggestedCategory", "confidence", "region"],
+          properties: {
+            date: { type: "string", description: "YYYY-MM-DD" },
+            itemName: { type: "string" },
+            amount: { type: "integer", description: "Yen, positive" },
+            suggestedCategory: { type: ["string", "null"] },
+            confidence: { type: "number", minimum: 0, maximum: 1 },
+            region: {
+              type: ["object", "null"],
+              description: "Fractions of the image size, origin at the top left",
+              additionalProperties: false,
+              required: ["x", "y", "width", "height"],
+              properties: {
+                x: { type: "number" },
+                y: { type: "number" },
+                width: { type: "number" },
+                height: { type: "number" },
+              },
+            },
+          },
+        },
+      },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+    },
+  },
+};
+
+const RECEIPT_PROMPT = `
+あなたはレシートの画像を解析するAIアシスタントです。
+印字されたレシートから次の情報を抽出してください。
+
+- storeName: 店名（分からなければnull）
+- date: 購入日（YYYY-MM-DD形式）
+- items: 購入した品目ごとに
+  - name: 品名
+  - amount: 金額（円単位の整数。値引きはその品目の金額から差し引く。税抜表示のレシートは表示どおりの税抜金額）
+  - taxRate: 税率（軽減税率の8%なら8、標準税率なら10。「※」「＊」などの軽減税率の印を参考にする。分からなければnull）
+  - suggestedCategory: カテゴリ（食費、日用品、交通費、娯楽、医療費、教育費、光熱費、通信費、その他のいずれか。不明ならnull）
+- taxes: 税率ごとの内訳（「8%対象」「10%対象」の欄）。rateは8か10、amountはその税率の対象額（税込）、taxはその消費税額
+- total: 支払合計（税込の合計金額。お預かりやお釣りではない）
+
+あわせて、レシート全体の解析の確実性を0から1の数値でconfidenceに入れてください。
+
+注意事項:
+- 日付が読み取れない場合は、今日の日付を使用してください
+- 小計・合計・お預かり・お釣り・ポイントの行は品目に含めないでください
+- 税率ごとの内訳が印字されていない場合、taxesは空にしてください
+`;
+
+const receiptTaxRate = { type: ["integer", "null"], enum: [8, 10, null] };
+
+export const receiptOutputSchema: OutputSchema = {
+  name: "receipt_analysis",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["storeName", "date", "items", "taxes", "total", "confidence"],
+    properties: {
+      storeName: { type: ["string", "null"] },
+      date: { type: "string", description: "YYYY-MM-DD" },
+      items: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["name", "amount", "taxRate", "suggestedCategory"],
+          properties: {
+            name: { type: "string" },
+            amount: { type: "integer", description: "Yen after discounts, as printed" },
+            taxRate: receiptTaxRate,
+            suggestedCategory: { type: ["string", "null"] },
+          },
+        },
+      },
+      taxes: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["rate", "amount", "tax"],
+          properties: {
+            rate: { type: "integer", enum: [8, 10] },
+            amount: { type: "integer", description: "Taxable amount including tax" },
+            tax: { type: "integer" },
+          },
+        },
+      },
+      total: { type: "integer", description: "Amount paid including tax" },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+    },
+  },
+};
+
+function formatDate(year: number, month: number, day: number): string | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Reads the date forms written in kakeibo ("2026-01-04", "2026/1/4", "2026年1月4日",
+ * "1/4", "1月4日"). Dates without a year take the year that puts them closest to
+ * `today`, so a December page scanned in January lands in the previous year.
+ */
+export function coerceAnalysisDate(value: string, today: Date): string | null {
+  const text = value.normalize("NFKC").replace(/\s+/g, "");
+
+  const full = text.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?$/);
+  if (full) return formatDate(Number(full[1]), Number(full[2]), Number(full[3]));
+
+  const short = text.match(/^(\d{1,2})[-/.月](\d{1,2})日?$/);
+  if (!short) return null;
+
+  const month = Number(short[1]);
+  const day = Number(short[2]);
+  const year = today.getFullYear();
+  const distance = (y: number) => Math.abs(new Date(y, month - 1, day).getTime() - today.getTime());
+  const closest = [year - 1, year, year + 1]
+    .filter((y) => formatDate(y, month, day) !== null)
+    .sort((a, b) => distance(a) - distance(b))[0];
+  return closest === undefined ? null : formatDate(closest, month, day);
+}
+
+function clampFraction(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Reads amounts such as 1200, "1,200円", "¥1,200-" or "１２００" as whole yen.
+ * An amount that rounds to zero (0.3) is unreadable, so the output goes to repair.
+ */
+export function coerceAnalysisAmount(value: number | string): number | null {
+  const amount =
+    typeof value === "number"
+      ? value
+      : Number(
+          value
+            .normalize("NFKC")
+            .replace(/[,\s¥円]/g, "")
+            .replace(/-$/, ""),
+        );
+  if (!Number.isFinite(amount)) return null;
+  const yen = Math.round(amount);
+  return yen > 0 ? yen : null;
+}
+
+const confidence = z.coerce.number().transform(clampFraction);
+
+function analysisDate(today: Date) {
+  return z.string().transform((value, ctx) => {
+    const date = coerceAnalysisDate(value, today);
+    if (date) return date;
+    ctx.addIssue({ code: "custom", message: `unreadable date "${value}"` });
+    return z.NEVER;
+  });
+}
+
+const analysisAmount = z.union([z.number(), z.string()]).transform((value, ctx) => {
+  const amount = coerceAnalysisAmount(value);
+  if (amount !== null) return amount;
+  ctx.addIssue({ code: "custom", message: `unreadable amount "${value}"` });
+  return z.NEVER;
+});
+
+const suggestedCategory = z
+  .string()
+  .nullish()
+  .transform((value) => value?.trim() || undefined);
+
+// "8%" or "8" from models that ignore the enum; anything else is treated as unknown.
+const taxRate = z
+  .union([z.number(), z.string()])
+  .transform((value) => Number(String(value).normalize("NFKC").replace(/%$/, "")))
+  .pipe(z.union([z.literal(8), z.literal(10)]));
+
+// Regions are only hints for the review screen, so one that is out of bounds or
+// empty is dropped rather than failing the whole page.
+const region = z
+  .object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() })
+  .nullish()
+  .catch(undefined)
+  .transform((value) => {
+    if (!value) return undefined;
+    const x = clampFraction(value.x);
+    const y = clampFraction(value.y);
+    const width = Math.min(clampFraction(value.width), 1 - x);
+    const height = Math.min(clampFraction(value.height), 1 - y);
+    return width > 0 && height > 0 ? { x, y, width, height } : undefined;
+  });
+
+// Mirrors AIAnalysisResult in types/kakeibo.ts.
+function analysisResultSchema(today: Date) {
+  return z.object({
+    entries: z.array(
+      z.object({
+        date: analysisDate(today),
+        itemName: z.string().trim().min(1),
+        amount: analysisAmount,
+        suggestedCategory,
+        confidence: confidence.optional().catch(undefined),
+        region,
+      }),
+    ),
+    confidence,
+  });
+}
+
+export type AnalysisResult = z.output<ReturnType<typeof analysisResultSchema>>;
+
+// Mirrors ReceiptAnalysisResult in types/kakeibo.ts. The tax breakdown is only
+// shown for reference, so an unreadable one is dropped instead of failing.
+function receiptResultSchema(today: Date) {
+  return z.object({
+    storeName: z
+      .string()
+      .nullish()
+      .transform((value) => value?.trim() || undefined),
+    date: analysisDate(today),
+    items: z.array(
+      z.object({
+        name: z.string().trim().min(1),
+        amount: analysisAmount,
+        taxRate: taxRate.nullish().catch(undefined).transform((value) => value ?? undefined),
+        suggestedCategory,
+      }),
+    ),
+    taxes: z
+      .array(z.object({ rate: taxRate, amount: analysisAmount, tax: z.coerce.number().int().nonnegative() }))
+      .catch([]),
+    total: analysisAmount,
+    confidence,
+  });
+}
+
+export type ReceiptResult = z.output<ReturnType<typeof receiptResultSchema>>;
+
+type ParsedOutput<T> = { success: true; data: T } | { success: false; error: string };
+
+function messageText(response: InvokeResult): string {
+  const content = response.choices[0]?.message?.content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content.map((part) => (part.type === "text" ? part.text : "")).join("");
+}
+
+/**
+ * Validates the model's reply. Models that ignore the response format sometimes
+ * wrap the JSON in a ```json fence, so that is unwrapped first.
+ */
+function parseOutput<T>(text: string, schema: z.ZodType<T>): ParsedOutput<T> {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  let json: unknown;
+  try {
+    json = JSON.parse(fenced ? fenced[1] : text);
+  } catch {
+    return { success: false, error: "output is not valid JSON" };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (parsed.success) return { success: true, data: parsed.data };
+  return {
+    success: false,
+    error: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+  };
+}
+
+export function parseAnalysisOutput(text: string, today: Date): ParsedOutput<AnalysisResult> {
+  return parseOutput(text, analysisResultSchema(today));
+}
+
+export function parseReceiptOutput(text: string, today: Date): ParsedOutput<ReceiptResult> {
+  return parseOutput(text, receiptResultSchema(today));
+}
+
+/** Tokens billed for one LLM response. */
+export type AnalysisUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type AnalyzeOptions = {
+  today?: Date;
+  /** The user's past corrections, added to the prompt so suggested categories follow them. */
+  categoryHints?: CategoryHint[];
+  /** Called for every LLM response, including ones that fail validation. */
+  onUsage?: (usage: AnalysisUsage) => void;
+};
+
+// Hints come from the device, so each one is flattened onto a single line.
+function categoryHintsText(hints: CategoryHint[]): string {
+  if (hints.length === 0) return "";
+  const line = (text: string) => text.replace(/\s+/g, " ").trim();
+  return [
+    "",
+    "この家計簿で過去に修正されたカテゴリです（項目名 → カテゴリ）。",
+    "同じ項目や似た項目には、このカテゴリを優先して使ってください:",
+    ...hints.map((hint) => `- ${line(hint.itemName)} → ${line(hint.categoryName)}`),
+  ].join("\n");
+}
+
+/**
+ * Sends the image with `prompt` and validates the reply with `parse`. Output
+ * that fails validation gets one repair attempt, where the model sees its
+ * previous reply and the problems.
+ */
+async function runAnalysis<T>(
+  image: string,
+  prompt: string,
+  outputSchema: OutputSchema,
+  parse: (text: string, today: Date) => ParsedOutput<T>,
+  { today = new Date(), categoryHints = [], onUsage }: AnalyzeOptions,
+): Promise<T> {
+  const invoke = async (messages: Message[]): Promise<string> => {
+    let response: InvokeResult;
+    try {
+      response = await invokeLLM({ messages, outputSchema, callSite: "scan" });
+    } catch (error) {
+      console.error("[Analysis] LLM request failed:", error);
+      throw new AnalysisError("LLM_UNAVAILABLE", "AI解析サービスに接続できませんでした");
+    }
+    onUsage?.({
+      promptTokens: response.usage?.prompt_tokens ?? 0,
+      completionTokens: response.usage?.completion_tokens ?? 0,
+    });
+    return messageText(response);
+  };
+
+  const todayText = formatDate(today.getFullYear(), today.getMonth() + 1, today.getDate());
+  const messages: Message[] = [
+    {
+      role: "user",
+      content: [
+        { type: "text", text: `${prompt}\n今日の日付: ${todayText}${categoryHintsText(categoryHints)}` },
+        { type: "image_url", image_url: { url: `data:image/jpeg;base64,${image}` } },
+      ],
+    },
+  ];
+
+  const first = await invoke(messages);
+  const parsed = parse(first, today);
+  if (parsed.success) return parsed.data;
+
+  console.warn("[Analysis] Invalid output, retrying:", parsed.error);
+  const repaired = parse(
+    await invoke([
+      ...messages,
+      { role: "assistant", content: first },
+      {
+        role: "user",
+        content: `出力が形式に合っていません（${parsed.error}）。指定したJSONスキーマに合うJSONだけを返してください。`,
+      },
+    ]),
+    today,
+  );
+  if (repaired.success) return repaired.data;
+
+  console.error("[Analysis] Invalid output after repair:", repaired.error);
+  throw new AnalysisError("INVALID_OUTPUT", "AI解析の結果を読み取れませんでした");
+}
+
+/** Extracts kakeibo rows from a base64 JPEG of a handwritten page. */
+export function analyzeKakeiboImage(image: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  return runAnalysis(image, PROMPT, analysisOutputSchema, parseAnalysisOutput, options);
+}
+
+/** Extracts the store, line items, tax breakdown and total from a base64 JPEG of a receipt. */
+export function analyzeReceiptImage(image: string, options: AnalyzeOptions = {}): Promise<ReceiptResult> {
+  return runAnalysis(image, RECEIPT_PROMPT, receiptOutputSchema, parseReceiptOutput, options);
+}
@@ -0,0 +1,31 @@
+/**
+ * In-memory fixed-window rate limiter. State is per server process, which is
+ * enough to stop a single client from hammering paid APIs; it is not shared
+ * across instances.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  // Expired windows are dropped lazily so idle keys do not pile up.
+  const sweep = (now: number) => {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  };
+
+  return {
+    /** Counts a request for `key`; returns 0 if allowed, else the ms until it would be. */
+    consume(key: string, now = Date.now()): number {
+      if (windows.size > 10_000) sweep(now);
+
+      const window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs });
+        return 0;
+      }
+      if (window.count >= limit) return window.resetAt - now;
+      window.count++;
+      return 0;
+    },
+  };
+}
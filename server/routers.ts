@@ -1,7 +1,256 @@
+import { randomInt } from "node:crypto";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
 import { COOKIE_NAME } from "../shared/const.js";
+import {
+  canDeleteCategory,
+  canDeleteEntry,
+  canManageHousehold,
+  INVITE_CODE_LENGTH,
+  INVITE_TTL_MS,
+} from "../shared/household";
+import { splitsMatchAmount } from "../shared/entry-split";
+import { ANALYSIS_TRPC_ERROR_CODES, type AnalysisErrorCode, MAX_CATEGORY_HINTS } from "../shared/kakeibo-analysis";
+import { ENTRY_TYPES, HOUSEHOLD_ROLES } from "../drizzle/schema";
+import type { TrpcContext } from "./_core/context";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router } from "./_core/trpc";
+import { protectedProcedure, publicProcedure, router } from "./_core/trpc";
+import * as db from "./db";
+import { AnalysisError, type AnalysisUsage, analyzeKakeiboImage, analyzeReceiptImage } from "./kakeibo-analysis";
+import { createRateLimiter } from "./rate-limit";
+
+const clientId = z.string().min(1).max(64);
+const isoTimestamp = z
+  .string()
+  .datetime()
+  .transform((value) => new Date(value));
+
+// Mirrors EntrySplit in types/kakeibo.ts.
+const entrySplit = z.object({
+  categoryId: clientId,
+  categoryName: z.string().max(64).optional(),
+  amount: z.number().int().positive(),
+});
+
+// Mirrors KakeiboEntry in types/kakeibo.ts; ids and timestamps come from the device.
+const entryFields = z.object({
+  type: z.enum(ENTRY_TYPES),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "date must be YYYY-MM-DD"),
+  itemName: z.string().min(1).max(255),
+  amount: z.number().int().positive(),
+  categoryId: clientId,
+  categoryName: z.string().max(64).nullish(),
+  note: z.string().nullish(),
+  imageUri: z.string().nullish(),
+  recurringId: clientId.nullish(),
+  splits: z.array(entrySplit).nullish(),
+  tags: z.array(z.string().min(1).max(32)).max(20).nullish(),
+});
+
+// Applied where the schema is used, since zod objects cannot be extended once refined.
+// A partial update carrying only one of the amount and the splits is checked against
+// the stored row by db.updateEntry.
+function checkSplits(entry: { amount?: number; splits?: z.infer<typeof entrySplit>[] | null }, ctx: z.RefinementCtx) {
+  if (!entry.splits || entry.amount === undefined) return;
+  if (!splitsMatchAmount(entry.amount, entry.splits)) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["splits"],
+      message: "splits must name distinct categories and add up to the amount",
+    });
+  }
+}
+
+const entryInput = entryFields.extend({
+  id: clientId,
+  createdAt: isoTimestamp.optional(),
+  updatedAt: isoTimestamp.optional(),
+});
+
+// Mirrors Category in types/kakeibo.ts.
+const categoryFields = z.object({
+  name: z.string().min(1).max(64),
+  type: z.enum(ENTRY_TYPES),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "color must be a hex code"),
+  icon: z.string().max(64).nullish(),
+  sortOrder: z.number().int().min(0).optional(),
+});
+
+const categoryInput = categoryFields.extend({
+  id: clientId,
+  createdAt: isoTimestamp.optional(),
+});
+
+// Sync records always carry the device's updatedAt, which decides conflicts.
+const syncEntryInput = entryInput.extend({ updatedAt: isoTimestamp }).superRefine(checkSplits);
+const syncCategoryInput = categoryInput.extend({ updatedAt: isoTimestamp });
+const tombstoneInput = z.object({ id: clientId, deletedAt: isoTimestamp });
+
+// Per request; the device splits larger backlogs into several pushes.
+const MAX_SYNC_BATCH = 500;
+
+// Mirrors AIAnalysisResult in types/kakeibo.ts.
+const fraction = z.number().min(0).max(1);
+const analysisResult = z.object({
+  entries: z.array(
+    z.object({
+      date: z.string(),
+      itemName: z.string(),
+      amount: z.number().int().positive(),
+      suggestedCategory: z.string().optional(),
+      confidence: fraction.optional(),
+      region: z.object({ x: fraction, y: fraction, width: fraction, height: fraction }).optional(),
+    }),
+  ),
+  confidence: fraction,
+});
+
+// Mirrors ReceiptAnalysisResult in types/kakeibo.ts.
+const yen = z.number().int().positive();
+const receiptTaxRate = z.union([z.literal(8), z.literal(10)]);
+const receiptResult = z.object({
+  storeName: z.string().optional(),
+  date: z.string(),
+  items: z.array(
+    z.object({
+      name: z.string(),
+      amount: yen,
+      taxRate: receiptTaxRate.optional(),
+      suggestedCategory: z.string().optional(),
+    }),
+  ),
+  taxes: z.array(z.object({ rate: receiptTaxRate, amount: yen, tax: z.number().int().nonnegative() })),
+  total: yen,
+  confidence: fraction,
+});
+
+// Base64 of a JPEG; phone photos at quality 0.8 stay well below this.
+// Keep below the express.json body limit in server/_core/index.ts.
+const MAX_IMAGE_BASE64_LENGTH = 10 * 1024 * 1024;
+const analysisInput = z.object({
+  image: z.string().min(1).max(MAX_IMAGE_BASE64_LENGTH),
+  // Mirrors CategoryHint in shared/kakeibo-analysis.ts.
+  categoryHints: z
+    .array(z.object({ itemName: z.string().min(1).max(255), categoryName: z.string().min(1).max(64) }))
+    .max(MAX_CATEGORY_HINTS)
+    .default([]),
+});
+
+// Each analysis calls the paid LLM. The per-IP limit is looser since a household
+// often shares one connection.
+const analysisUserLimiter = createRateLimiter({ limit: 10, windowMs: 60_000 });
+const analysisIpLimiter = createRateLimiter({ limit: 30, windowMs: 60_000 });
+
+/** Calendar month (YYYY-MM) in server time, the period of the scan quota. */
+function currentMonth(now = new Date()): string {
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function nextMonthStart(now = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth() + 1, 1);
+}
+
+// Express resolves req.ip from the X-Forwarded-For entries appended by the trusted
+// proxies ("trust proxy" in server/_core/index.ts). The leftmost entry is whatever the
+// client sent, so reading the header here would let anyone pick their own rate limit key.
+function clientIp(req: TrpcContext["req"]): string {
+  return req.ip || req.socket?.remoteAddress || "unknown";
+}
+
+function analysisError(code: AnalysisErrorCode, message: string): never {
+  throw new TRPCError({ code: ANALYSIS_TRPC_ERROR_CODES[code], message, cause: new AnalysisError(code, message) });
+}
+
+/**
+ * Runs one scan against the user's monthly quota. The scan is reserved before the
+ * LLM is called, so parallel requests cannot overrun the quota, and given back if the
+ * LLM never answered. Once it has answered the scan counts, even if its output was
+ * unusable, since the tokens were spent either way.
+ */
+async function meteredAnalysis<T>(
+  userId: number,
+  analyze: (onUsage: (usage: AnalysisUsage) => void) => Promise<T>,
+): Promise<T> {
+  const month = currentMonth();
+  const { reserved, quota } = await db.reserveScan(userId, month);
+  if (!reserved) {
+    const resetsAt = nextMonthStart();
+    analysisError(
+      "QUOTA_EXCEEDED",
+      `今月のAI解析の上限（${quota}回）に達しました。${resetsAt.getMonth() + 1}月1日から再び利用できます`,
+    );
+  }
+
+  // The reserved scan is already counted; only the tokens are added afterwards.
+  const spent = { scans: 0, promptTokens: 0, completionTokens: 0 };
+  let answered = false;
+  try {
+    return await analyze((usage) => {
+      answered = true;
+      spent.promptTokens += usage.promptTokens;
+      spent.completionTokens += usage.completionTokens;
+    });
+  } catch (error) {
+    if (!(error instanceof AnalysisError)) throw error;
+    throw new TRPCError({
+      code: ANALYSIS_TRPC_ERROR_CODES[error.code],
+      message: error.message,
+      cause: error,
+    });
+  } finally {
+    if (answered) {
+      await db.recordAiUsage(userId, month, spent).catch((error) => {
+        console.error("[Analysis] Failed to record usage:", error);
+      });
+    } else {
+      await db.releaseScan(userId, month).catch((error) => {
+        console.error("[Analysis] Failed to release the reserved scan:", error);
+      });
+    }
+  }
+}
+
+function notFound(message: string): never {
+  throw new TRPCError({ code: "NOT_FOUND", message });
+}
+
+function forbidden(message: string): never {
+  throw new TRPCError({ code: "FORBIDDEN", message });
+}
+
+function badRequest(message: string): never {
+  throw new TRPCError({ code: "BAD_REQUEST", message });
+}
+
+// Without look-alike characters (0/O, 1/I) so codes can be read out loud.
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function generateInviteCode(): string {
+  return Array.from(
+    { length: INVITE_CODE_LENGTH },
+    () => INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)],
+  ).join("");
+}
+
+const analysisProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  const retryAfterMs = Math.max(
+    analysisUserLimiter.consume(`user:${ctx.user.id}`),
+    analysisIpLimiter.consume(`ip:${clientIp(ctx.req)}`),
+  );
+  if (retryAfterMs > 0) {
+    analysisError(
+      "RATE_LIMITED",
+      `短時間に解析が集中しています。${Math.ceil(retryAfterMs / 1000)}秒ほど待ってからお試しください`,
+    );
+  }
+  return next();
+});
+
+// Resolves the signed-in user's household; ledger rows are scoped to it.
+const ledgerProcedure = protectedProcedure.use(async ({ ctx, next }) =>
+  next({ ctx: { ...ctx, ledger: await db.getLedgerScope(ctx.user.id) } }),
+);
 
 export const appRouter = router({
   // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -17,12 +266,233 @@ export const appRouter = router({
     }),
   }),
 
-  // TODO: add feature routers here, e.g.
-  // todo: router({
-  //   list: protectedProcedure.query(({ ctx }) =>
-  //     db.getUserTodos(ctx.user.id)
-  //   ),
-  // }),
+  analysis: router({
+    usage: protectedProcedure.query(async ({ ctx }) => {
+      const month = currentMonth();
+      const usage = await db.getScanUsage(ctx.user.id, month);
+      return { ...usage, month, resetsAt: nextMonthStart() };
+    }),
+
+    analyzeImage: analysisProcedure
+      .input(analysisInput)
+      .output(analysisResult)
+      .mutation(({ ctx, input }) =>
+        meteredAnalysis(ctx.user.id, (onUsage) =>
+          analyzeKakeiboImage(input.image, { categoryHints: input.categoryHints, onUsage }),
+        ),
+      ),
+
+    analyzeReceipt: analysisProcedure
+      .input(analysisInput)
+      .output(receiptResult)
+      .mutation(({ ctx, input }) =>
+        meteredAnalysis(ctx.user.id, (onUsage) =>
+          analyzeReceiptImage(input.image, { categoryHints: input.categoryHints, onUsage }),
+        ),
+      ),
+  }),
+
+  // Ledger data scoped to the signed-in user's household.
+  entries: router({
+    listByMonth: ledgerProcedure
+      .input(
+        z.object({
+          year: z.number().int().min(1970).max(9999),
+          month: z.number().int().min(1).max(12),
+        }),
+      )
+      .query(({ ctx, input }) => db.getEntriesByMonth(ctx.ledger.householdId, input.year, input.month)),
+
+    get: ledgerProcedure
+      .input(z.object({ id: clientId }))
+      .query(async ({ ctx, input }) => {
+        const entry = await db.getEntry(ctx.ledger.householdId, input.id);
+        return entry ?? notFound("エントリーが見つかりません");
+      }),
+
+    create: ledgerProcedure.input(entryInput.superRefine(checkSplits)).mutation(async ({ ctx, input }) => {
+      await db.createEntry(ctx.ledger, input);
+      return { id: input.id } as const;
+    }),
+
+    bulkCreate: ledgerProcedure
+      .input(z.object({ entries: z.array(entryInput.superRefine(checkSplits)).min(1).max(500) }))
+      .mutation(async ({ ctx, input }) => {
+        await db.createEntries(ctx.ledger, input.entries);
+        return { count: input.entries.length } as const;
+      }),
+
+    update: ledgerProcedure
+      .input(z.object({ id: clientId, data: entryFields.partial().superRefine(checkSplits) }))
+      .mutation(async ({ ctx, input }) => {
+        const result = await db.updateEntry(ctx.ledger.householdId, input.id, input.data);
+        if (result === "not_found") notFound("エントリーが見つかりません");
+        if (result === "invalid_splits") badRequest("内訳の合計が金額と一致しません");
+        return { success: true } as const;
+      }),
+
+    delete: ledgerProcedure.input(z.object({ id: clientId })).mutation(async ({ ctx, input }) => {
+      const { householdId, userId, role } = ctx.ledger;
+      const entry = await db.getEntry(householdId, input.id);
+      if (!entry) notFound("エントリーが見つかりません");
+      if (!canDeleteEntry(role, userId, entry.userId)) {
+        forbidden("ほかのメンバーが記録したエントリーは削除できません");
+      }
+      await db.deleteEntry(householdId, input.id);
+      return { success: true } as const;
+    }),
+  }),
+
+  categories: router({
+    list: ledgerProcedure.query(({ ctx }) => db.getCategories(ctx.ledger.householdId)),
+
+    create: ledgerProcedure.input(categoryInput).mutation(async ({ ctx, input }) => {
+      await db.createCategory(ctx.ledger, input);
+      return { id: input.id } as const;
+    }),
+
+    update: ledgerProcedure
+      .input(z.object({ id: clientId, data: categoryFields.partial() }))
+      .mutation(async ({ ctx, input }) => {
+        const updated = await db.updateCategory(ctx.ledger.householdId, input.id, input.data);
+        if (!updated) notFound("カテゴリが見つかりません");
+        return { success: true } as const;
+      }),
+
+    delete: ledgerProcedure
+      .input(z.object({ id: clientId, reassignToId: clientId.optional() }))
+      .mutation(async ({ ctx, input }) => {
+        if (input.reassignToId === input.id) {
+          badRequest("移動先のカテゴリが見つかりません");
+        }
+        if (!canDeleteCategory(ctx.ledger.role)) {
+          forbidden("カテゴリの削除は世帯の管理者のみ行えます");
+        }
+        const result = await db.deleteCategory(ctx.ledger.householdId, input.id, input.reassignToId);
+        if (result === "not_found") notFound("カテゴリが見つかりません");
+        if (result === "invalid_target") badRequest("移動先のカテゴリが見つかりません");
+        if (result === "in_use") badRequest("記録で使われているカテゴリは移動先を選んでください");
+        return { success: true } as const;
+      }),
+  }),
+
+  // Offline-first two-way sync with the device store (lib/sync.ts).
+  sync: router({
+    push: ledgerProcedure
+      .input(
+        z.object({
+          // The household the device last synced with; its changes never reach another one.
+          householdId: z.number().int().optional(),
+          entries: z.array(syncEntryInput).max(MAX_SYNC_BATCH).default([]),
+          categories: z.array(syncCategoryInput).max(MAX_SYNC_BATCH).default([]),
+          deletedEntries: z.array(tombstoneInput).max(MAX_SYNC_BATCH).default([]),
+          deletedCategories: z.array(tombstoneInput).max(MAX_SYNC_BATCH).default([]),
+        }),
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (input.householdId !== undefined && input.householdId !== ctx.ledger.householdId) {
+          return { applied: 0, householdId: ctx.ledger.householdId } as const;
+        }
+        // Categories first so pushed entries never point at a category the server lacks.
+        const categories = await db.applyCategoryChanges(ctx.ledger, input.categories);
+        // A push carries the whole entry, so no splits or tags means they were removed.
+        const entries = await db.applyEntryChanges(
+          ctx.ledger,
+          input.entries.map((entry) => ({ ...entry, splits: entry.splits ?? null, tags: entry.tags ?? null })),
+        );
+        await db.applyEntryTombstones(ctx.ledger, input.deletedEntries);
+        await db.applyCategoryTombstones(ctx.ledger, input.deletedCategories);
+        return { applied: categories + entries, householdId: ctx.ledger.householdId } as const;
+      }),
+
+    // householdId lets the device notice it was moved to another household and resync.
+    pull: ledgerProcedure
+      .input(z.object({ since: isoTimestamp.optional() }))
+      .query(async ({ ctx, input }) => ({
+        ...(await db.getChangesSince(ctx.ledger.householdId, input.since)),
+        householdId: ctx.ledger.householdId,
+      })),
+  }),
+
+  // The shared ledger's members, roles and invites.
+  household: router({
+    get: ledgerProcedure.query(async ({ ctx }) => {
+      const household = await db.getHousehold(ctx.ledger.householdId);
+      if (!household) notFound("世帯が見つかりません");
+      return { ...household, role: ctx.ledger.role, userId: ctx.ledger.userId };
+    }),
+
+    rename: ledgerProcedure
+      .input(z.object({ name: z.string().trim().min(1).max(64) }))
+      .mutation(async ({ ctx, input }) => {
+        if (!canManageHousehold(ctx.ledger.role)) forbidden("世帯の管理者のみ変更できます");
+        await db.renameHousehold(ctx.ledger.householdId, input.name);
+        return { success: true } as const;
+      }),
+
+    createInvite: ledgerProcedure.mutation(async ({ ctx }) => {
+      if (!canManageHousehold(ctx.ledger.role)) forbidden("招待は世帯の管理者のみ行えます");
+      const code = generateInviteCode();
+      const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+      await db.replaceInvite(ctx.ledger.householdId, ctx.user.id, code, expiresAt);
+      return { code, expiresAt } as const;
+    }),
+
+    join: ledgerProcedure
+      .input(z.object({ code: z.string().trim().toUpperCase().length(INVITE_CODE_LENGTH) }))
+      .mutation(async ({ ctx, input }) => {
+        const invite = await db.getInvite(input.code);
+        if (!invite || invite.expiresAt.getTime() < Date.now()) {
+          notFound("招待コードが無効か、有効期限が切れています");
+        }
+        if (invite.householdId === ctx.ledger.householdId) {
+          return { householdId: invite.householdId } as const;
+        }
+
+        const current = await db.getHousehold(ctx.ledger.householdId);
+        const others = current?.members.filter((m) => m.userId !== ctx.user.id) ?? [];
+        if (ctx.ledger.role === "owner" && others.length > 0 && !others.some((m) => m.role === "owner")) {
+          badRequest("ほかのメンバーを管理者にしてから参加してください");
+        }
+        await db.joinHousehold(ctx.user.id, invite.householdId);
+        return { householdId: invite.householdId } as const;
+      }),
+
+    leave: ledgerProcedure.mutation(async ({ ctx }) => {
+      const household = await db.getHousehold(ctx.ledger.householdId);
+      const others = household?.members.filter((m) => m.userId !== ctx.user.id) ?? [];
+      if (others.length === 0) badRequest("ひとりの世帯からは退出できません");
+      if (ctx.ledger.role === "owner" && !others.some((m) => m.role === "owner")) {
+        badRequest("ほかのメンバーを管理者にしてから退出してください");
+      }
+      await db.leaveHousehold(ctx.user.id);
+      return { success: true } as const;
+    }),
+
+    removeMember: ledgerProcedure
+      .input(z.object({ userId: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        if (!canManageHousehold(ctx.ledger.role)) forbidden("メンバーの管理は世帯の管理者のみ行えます");
+        if (input.userId === ctx.user.id) badRequest("自分自身は削除できません。退出してください");
+        const removed = await db.removeMember(ctx.ledger.householdId, input.userId);
+        if (!removed) notFound("メンバーが見つかりません");
+        return { success: true } as const;
+      }),
+
+    setRole: ledgerProcedure
+      .input(z.object({ userId: z.number().int(), role: z.enum(HOUSEHOLD_ROLES) }))
+      .mutation(async ({ ctx, input }) => {
+        if (!canManageHousehold(ctx.ledger.role)) forbidden("メンバーの管理は世帯の管理者のみ行えます");
+        if (input.userId === ctx.user.id && input.role !== "owner") {
+          const household = await db.getHousehold(ctx.ledger.householdId);
+          const otherOwners = household?.members.filter((m) => m.userId !== ctx.user.id && m.role === "owner");
+          if (!otherOwners?.length) badRequest("世帯には管理者が1人以上必要です");
+        }
+        const updated = await db.setMemberRole(ctx.ledger.householdId, input.userId, input.role);
+        if (!updated) notFound("メンバーが見つかりません");
+        return { success: true } as const;
+      }),
+  }),
 });
 
 export type AppRouter = typeof appRouter;
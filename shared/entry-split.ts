@@ -0,0 +1,66 @@
+/**
+ * Split entries: one transaction whose amount is allocated across several categories.
+ * Shared by the server routers and the app so both accept the same allocations.
+ */
+
+/** One category's share of a split entry. Mirrors EntrySplit in types/kakeibo.ts. */
+export type SplitPart = { categoryId: string; categoryName?: string; amount: number };
+
+/** A split with a single allocation is just an ordinary entry. */
+export const MIN_SPLIT_PARTS = 2;
+
+/**
+ * Allocations must be positive whole yen, name each category once and add up to
+ * exactly the entry's amount.
+ */
+export function splitsMatchAmount(amount: number, splits: SplitPart[]): boolean {
+  if (splits.length < MIN_SPLIT_PARTS) return false;
+  if (splits.some((split) => !Number.isInteger(split.amount) || split.amount <= 0)) return false;
+  if (new Set(splits.map((split) => split.categoryId)).size !== splits.length) return false;
+  return splits.reduce((sum, split) => sum + split.amount, 0) === amount;
+}
+
+/**
+ * The largest allocation (the first on a tie). Its category is kept as the entry's
+ * `categoryId` so anything that reads a single category still sees the main one.
+ */
+export function primarySplit<T extends SplitPart>(splits: T[]): T {
+  return splits.reduce((largest, split) => (split.amount > largest.amount ? split : largest));
+}
+
+/**
+ * Moves the allocation for `fromId` to another category, merging it into that
+ * category's allocation when the split already has one. Passing the same id with a
+ * new name renames the allocation.
+ */
+export function reassignSplitCategory<T extends SplitPart>(
+  splits: T[],
+  fromId: string,
+  to: { id: string; name: string },
+): T[] {
+  const merged: T[] = [];
+  splits.forEach((split) => {
+    const next = split.categoryId === fromId ? { ...split, categoryId: to.id, categoryName: to.name } : split;
+    const existing = merged.findIndex((other) => other.categoryId === next.categoryId);
+    if (existing === -1) {
+      merged.push(next);
+    } else {
+      merged[existing] = { ...merged[existing], amount: merged[existing].amount + next.amount };
+    }
+  });
+  return merged;
+}
+
+/**
+ * Whether a partial update leaves a split entry consistent. The allocations the row
+ * ends up with (sent or already stored) must add up to the amount it ends up with, so
+ * changing only the amount of a split entry, or only its allocations, is checked
+ * against the stored row.
+ */
+export function splitUpdateMatches(
+  stored: { amount: number; splits: SplitPart[] | null },
+  update: { amount?: number; splits?: SplitPart[] | null },
+): boolean {
+  const splits = update.splits !== undefined ? update.splits : stored.splits;
+  return !splits || splitsMatchAmount(update.amount ?? stored.amount, splits);
+}
@@ -0,0 +1,29 @@
+/**
+ * Household roles and permissions, shared by the server routers and the app
+ * so the UI only offers actions the server will accept.
+ */
+
+import type { HouseholdMember } from "../drizzle/schema";
+
+export type HouseholdRole = HouseholdMember["role"];
+
+/** Name given to the household a user gets before joining anyone else's. */
+export const DEFAULT_HOUSEHOLD_NAME = "わが家の家計簿";
+
+export const INVITE_CODE_LENGTH = 8;
+export const INVITE_TTL_MS = 1000 * 60 * 60 * 24 * 7;
+
+/** Owners may delete any entry; members only the entries they recorded themselves. */
+export function canDeleteEntry(role: HouseholdRole, userId: number, recordedBy: number): boolean {
+  return role === "owner" || recordedBy === userId;
+}
+
+/** Deleting a category moves everyone's entries, so it is reserved for owners. */
+export function canDeleteCategory(role: HouseholdRole): boolean {
+  return role === "owner";
+}
+
+/** Renaming the household, issuing invites and managing members. */
+export function canManageHousehold(role: HouseholdRole): boolean {
+  return role === "owner";
+}
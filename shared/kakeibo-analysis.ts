@@ -0,0 +1,48 @@
+/**
+ * Failure kinds of `analysis.analyzeImage`, shared with the app so it can tell
+ * a bad photo apart from an outage without parsing messages. Each kind travels
+ * as `data.analysisCode` on the tRPC error (see server/_core/trpc.ts); the tRPC
+ * code only sets the HTTP status, since other failures share it.
+ */
+
+import type { TRPC_ERROR_CODE_KEY } from "@trpc/server/rpc";
+
+export const ANALYSIS_ERROR_CODES = [
+  /** The request had no usable image. */
+  "INVALID_IMAGE",
+  /** The model could not be reached or returned an error. */
+  "LLM_UNAVAILABLE",
+  /** The model's output did not match the result schema, even after a repair attempt. */
+  "INVALID_OUTPUT",
+  /** Too many requests from this user or network in a short time. */
+  "RATE_LIMITED",
+  /** The user has used up this month's scans. */
+  "QUOTA_EXCEEDED",
+] as const;
+
+export type AnalysisErrorCode = (typeof ANALYSIS_ERROR_CODES)[number];
+
+export const ANALYSIS_TRPC_ERROR_CODES: Record<AnalysisErrorCode, TRPC_ERROR_CODE_KEY> = {
+  INVALID_IMAGE: "BAD_REQUEST",
+  LLM_UNAVAILABLE: "BAD_GATEWAY",
+  INVALID_OUTPUT: "UNPROCESSABLE_CONTENT",
+  RATE_LIMITED: "TOO_MANY_REQUESTS",
+  QUOTA_EXCEEDED: "FORBIDDEN",
+};
+
+/** Scans per calendar month for users without a quota of their own (`users.scanQuota`). */
+export const DEFAULT_MONTHLY_SCAN_QUOTA = 100;
+
+/**
+ * An itemName → category correction the user made before, sent with a scan so the
+ * model follows the household's own habits (e.g. "セブン" → 食費).
+ */
+export type CategoryHint = { itemName: string; categoryName: string };
+
+/** Hints per analysis request; the app sends its most used corrections first. */
+export const MAX_CATEGORY_HINTS = 50;
+
+/** Reads a failure kind off the wire (`data.analysisCode`); anything else is undefined. */
+export function toAnalysisErrorCode(value: unknown): AnalysisErrorCode | undefined {
+  return ANALYSIS_ERROR_CODES.find((code) => code === value);
+}
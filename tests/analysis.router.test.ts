@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "../server/_core/context";
+
+vi.mock("../server/db", () => ({
+  reserveScan: vi.fn(async () => ({ reserved: true, quota: 100 })),
+  releaseScan: vi.fn(async () => {}),
+  recordAiUsage: vi.fn(async () => {}),
+}));
+vi.mock("../server/_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+const db = await import("../server/db");
+const { invokeLLM } = await import("../server/_core/llm");
+const { appRouter } = await import("../server/routers");
+
+// Rate limits are kept per process, so each test signs in as its own user and IP.
+// The forwarded header is client-controlled and must not change the IP the limiter sees.
+let spoofed = 0;
+function createContext(userId: number | null, ip = `10.0.0.${userId ?? 0}`): TrpcContext {
+  return {
+    user:
+      userId === null
+        ? null
+        : {
+            id: userId,
+            openId: `user-${userId}`,
+            email: null,
+            name: null,
+            loginMethod: "manus",
+            role: "user",
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            lastSignedIn: new Date(),
+            scanQuota: null,
+          },
+    req: {
+      protocol: "https",
+      ip,
+      headers: { "x-forwarded-for": `198.51.100.${++spoofed % 256}, ${ip}` },
+    } as unknown as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+function reply(content: string, usage = { prompt_tokens: 1000, completion_tokens: 200, total_tokens: 1200 }) {
+  return {
+    id: "chatcmpl-test",
+    created: 0,
+    model: "test",
+    choices: [{ index: 0, message: { role: "assistant" as const, content }, finish_reason: "stop" }],
+    usage,
+  };
+}
+
+const validOutput =
+  '{"entries":[{"date":"2026-01-04","itemName":"電車代","amount":"500円","suggestedCategory":null}],"confidence":0.9}';
+
+describe("analysis.analyzeImage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(invokeLLM).mockReset();
+  });
+
+  it("requires a signed-in user", async () => {
+    await expect(
+      appRouter.createCaller(createContext(null)).analysis.analyzeImage({ image: "aW1hZ2U=" }),
+    ).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    expect(invokeLLM).not.toHaveBeenCalled();
+  });
+
+  it("returns the validated result and records the month's usage", async () => {
+    vi.mocked(invokeLLM).mockResolvedValueOnce(reply(validOutput));
+
+    const result = await appRouter
+      .createCaller(createContext(1))
+      .analysis.analyzeImage({ image: "aW1hZ2U=", categoryHints: [{ itemName: "Suica", categoryName: "交通費" }] });
+    expect(result.entries).toEqual([{ date: "2026-01-04", itemName: "電車代", amount: 500 }]);
+    expect(JSON.stringify(vi.mocked(invokeLLM).mock.calls[0][0].messages)).toContain("- Suica → 交通費");
+    // The scan itself was counted when it was reserved; only the tokens are added after.
+    expect(db.reserveScan).toHaveBeenCalledWith(1, expect.stringMatching(/^\d{4}-\d{2}$/));
+    expect(db.releaseScan).not.toHaveBeenCalled();
+    expect(db.recordAiUsage).toHaveBeenCalledWith(1, expect.stringMatching(/^\d{4}-\d{2}$/), {
+      scans: 0,
+      promptTokens: 1000,
+      completionTokens: 200,
+    });
+  });
+
+  it("reports failures as tRPC errors caused by the analysis failure", async () => {
+    const caller = appRouter.createCaller(createContext(2));
+
+    await expect(caller.analysis.analyzeImage({ image: "" })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+
+    vi.mocked(invokeLLM).mockResolvedValue(reply("読み取れませんでした"));
+    const invalid = await caller.analysis.analyzeImage({ image: "aW1hZ2U=" }).catch((error) => error);
+    expect(invalid.code).toBe("UNPROCESSABLE_CONTENT");
+    expect(invalid.cause).toMatchObject({ code: "INVALID_OUTPUT" });
+    // Both the first answer and the repair attempt were billed.
+    expect(db.recordAiUsage).toHaveBeenCalledWith(2, expect.any(String), {
+      scans: 0,
+      promptTokens: 2000,
+      completionTokens: 400,
+    });
+
+    vi.mocked(db.recordAiUsage).mockClear();
+    vi.mocked(invokeLLM).mockRejectedValue(new Error("LLM invoke failed: 503"));
+    const unavailable = await caller.analysis.analyzeImage({ image: "aW1hZ2U=" }).catch((error) => error);
+    expect(unavailable.cause).toMatchObject({ code: "LLM_UNAVAILABLE" });
+    expect(db.recordAiUsage).not.toHaveBeenCalled();
+    // The LLM never answered, so the reserved scan is given back.
+    expect(db.releaseScan).toHaveBeenCalledWith(2, expect.any(String));
+  });
+
+  it("refuses scans once the monthly quota is used up", async () => {
+    vi.mocked(db.reserveScan).mockResolvedValueOnce({ reserved: false, quota: 30 });
+
+    const error = await appRouter
+      .createCaller(createContext(3))
+      .analysis.analyzeImage({ image: "aW1hZ2U=" })
+      .catch((caught) => caught);
+
+    expect(error.cause).toMatchObject({ code: "QUOTA_EXCEEDED" });
+    expect(error.message).toContain("30回");
+    expect(invokeLLM).not.toHaveBeenCalled();
+    expect(db.releaseScan).not.toHaveBeenCalled();
+  });
+
+  it("analyzes receipts against the same quota", async () => {
+    vi.mocked(invokeLLM).mockResolvedValueOnce(
+      reply(
+        '{"storeName":"スーパー","date":"2026-01-04","items":[{"name":"牛乳","amount":198,"taxRate":8,"suggestedCategory":"食費"}],"taxes":[{"rate":8,"amount":214,"tax":16}],"total":214,"confidence":0.9}',
+      ),
+    );
+
+    const caller = appRouter.createCaller(createContext(5));
+    const result = await caller.analysis.analyzeReceipt({ image: "aW1hZ2U=" });
+    expect(result).toMatchObject({ storeName: "スーパー", total: 214, taxes: [{ rate: 8, amount: 214, tax: 16 }] });
+    expect(db.recordAiUsage).toHaveBeenCalledWith(5, expect.any(String), expect.objectContaining({ scans: 0 }));
+
+    vi.mocked(db.reserveScan).mockResolvedValueOnce({ reserved: false, quota: 100 });
+    const error = await caller.analysis.analyzeReceipt({ image: "aW1hZ2U=" }).catch((caught) => caught);
+    expect(error.cause).toMatchObject({ code: "QUOTA_EXCEEDED" });
+  });
+
+  it("rate limits each user and each IP", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(reply(validOutput));
+
+    const user = appRouter.createCaller(createContext(4));
+    for (let i = 0; i < 10; i++) {
+      await user.analysis.analyzeImage({ image: "aW1hZ2U=" });
+    }
+    const limited = await user.analysis.analyzeImage({ image: "aW1hZ2U=" }).catch((error) => error);
+    expect(limited.cause).toMatchObject({ code: "RATE_LIMITED" });
+
+    // Another user on the same connection shares the per-IP budget (30 per minute), whatever
+    // X-Forwarded-For each request claims.
+    const sharedIp = "192.0.2.1";
+    for (let userId = 10; userId < 13; userId++) {
+      const caller = appRouter.createCaller(createContext(userId, sharedIp));
+      for (let i = 0; i < 10; i++) {
+        await caller.analysis.analyzeImage({ image: "aW1hZ2U=" });
+      }
+    }
+    await expect(
+      appRouter.createCaller(createContext(13, sharedIp)).analysis.analyzeImage({ image: "aW1hZ2U=" }),
+    ).rejects.toMatchObject({ code: "TOO_MANY_REQUESTS" });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { calculateBudgetProgress, previousMonthKey, resolveBudget } from "../lib/budget";
+import type { Budget, KakeiboEntry } from "../types/kakeibo";
+
+function budget(month: string, categoryId: string | null, amount: number, carryOver = false): Budget {
+  return {
+    id: `budget_${month}_${categoryId}`,
+    month,
+    categoryId,
+    amount,
+    carryOver,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+function entry(date: string, amount: number, categoryId = "default_0", type: KakeiboEntry["type"] = "expense") {
+  return {
+    id: `${date}_${amount}`,
+    type,
+    date,
+    itemName: "item",
+    amount,
+    categoryId,
+    createdAt: `${date}T00:00:00.000Z`,
+    updatedAt: `${date}T00:00:00.000Z`,
+  } satisfies KakeiboEntry;
+}
+
+describe("previousMonthKey", () => {
+  it("wraps around the year boundary", () => {
+    expect(previousMonthKey("2026-01")).toBe("2025-12");
+    expect(previousMonthKey("2026-10")).toBe("2026-09");
+  });
+});
+
+describe("resolveBudget", () => {
+  const budgets = [budget("2026-01", "default_0", 30000), budget("2026-04", "default_0", 0)];
+
+  it("applies the most recent budget set on or before the month", () => {
+    expect(resolveBudget(budgets, "default_0", "2026-03")?.amount).toBe(30000);
+    expect(resolveBudget(budgets, "default_0", "2025-12")).toBeUndefined();
+  });
+
+  it("treats a zero amount as clearing the budget", () => {
+    expect(resolveBudget(budgets, "default_0", "2026-05")).toBeUndefined();
+  });
+});
+
+describe("calculateBudgetProgress", () => {
+  it("reports overall and category progress, ignoring income", () => {
+    const progress = calculateBudgetProgress(
+      [budget("2026-03", "default_0", 10000), budget("2026-03", null, 100000)],
+      [
+        entry("2026-03-02", 8500),
+        entry("2026-03-05", 3000, "default_1"),
+        entry("2026-03-25", 250000, "default_income_0", "income"),
+      ],
+      [],
+      "2026-03",
+    );
+
+    expect(progress.map((p) => p.categoryId)).toEqual([null, "default_0"]);
+    expect(progress[0]).toMatchObject({ spent: 11500, remaining: 88500, status: "ok" });
+    expect(progress[1]).toMatchObject({ spent: 8500, ratio: 0.85, status: "warning" });
+  });
+
+  it("marks spending beyond the budget as over", () => {
+    const [progress] = calculateBudgetProgress(
+      [budget("2026-03", "default_0", 5000)],
+      [entry("2026-03-02", 6000)],
+      [],
+      "2026-03",
+    );
+    expect(progress).toMatchObject({ remaining: -1000, status: "over" });
+  });
+
+  it("carries over last month's remainder or overspend", () => {
+    const budgets = [budget("2026-02", "default_0", 10000, true)];
+
+    const [underspent] = calculateBudgetProgress(budgets, [], [entry("2026-02-10", 7000)], "2026-03");
+    expect(underspent).toMatchObject({ budget: 13000, carriedOver: 3000 });
+
+    const [overspent] = calculateBudgetProgress(budgets, [], [entry("2026-02-10", 12000)], "2026-03");
+    expect(overspent).toMatchObject({ budget: 8000, carriedOver: -2000 });
+  });
+
+  it("does not carry over when the option is off or last month had no budget", () => {
+    const [off] = calculateBudgetProgress(
+      [budget("2026-02", "default_0", 10000)],
+      [],
+      [entry("2026-02-10", 7000)],
+      "2026-03",
+    );
+    expect(off.carriedOver).toBe(0);
+
+    const [firstMonth] = calculateBudgetProgress(
+      [budget("2026-03", "default_0", 10000, true)],
+      [],
+      [entry("2026-02-10", 7000)],
+      "2026-03",
+    );
+    expect(firstMonth.carriedOver).toBe(0);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { newerThanStored } from "../server/db";
+
+describe("newerThanStored", () => {
+  const stored = [
+    { id: "live", updatedAt: new Date("2026-03-02T10:00:00.000Z"), deletedAt: null },
+    {
+      id: "deleted",
+      updatedAt: new Date("2026-03-02T10:00:00.000Z"),
+      deletedAt: new Date("2026-03-02T10:00:00.000Z"),
+    },
+  ];
+
+  it("accepts new rows and edits at or after the stored one", () => {
+    const rows = [
+      { id: "new", updatedAt: new Date("2026-03-01T00:00:00.000Z") },
+      { id: "live", updatedAt: new Date("2026-03-02T10:00:00.000Z") },
+    ];
+
+    expect(newerThanStored(rows, stored).map((row) => row.id)).toEqual(["new", "live"]);
+    expect(newerThanStored([{ id: "live", updatedAt: new Date("2026-03-02T09:59:59.000Z") }], stored)).toEqual([]);
+  });
+
+  it("never revives a deleted row, whatever the edit's timestamp", () => {
+    const older = { id: "deleted", updatedAt: new Date("2026-03-01T00:00:00.000Z") };
+    const skewed = { id: "deleted", updatedAt: new Date("2027-01-01T00:00:00.000Z") };
+
+    expect(newerThanStored([older], stored)).toEqual([]);
+    expect(newerThanStored([skewed], stored)).toEqual([]);
+  });
+});
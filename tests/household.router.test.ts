@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "../server/_core/context";
+
+vi.mock("../server/db", () => ({
+  getLedgerScope: vi.fn(),
+  getHousehold: vi.fn(),
+  renameHousehold: vi.fn(async () => {}),
+  replaceInvite: vi.fn(async () => {}),
+  getInvite: vi.fn(async () => undefined),
+  joinHousehold: vi.fn(async () => {}),
+  leaveHousehold: vi.fn(async () => {}),
+  removeMember: vi.fn(async () => true),
+  setMemberRole: vi.fn(async () => true),
+}));
+
+const db = await import("../server/db");
+const { appRouter } = await import("../server/routers");
+
+function createContext(userId: number): TrpcContext {
+  return {
+    user: {
+      id: userId,
+      openId: `user-${userId}`,
+      email: null,
+      name: null,
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+      scanQuota: null,
+    },
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+function member(userId: number, role: "owner" | "member") {
+  return { userId, role, name: `user-${userId}`, joinedAt: new Date() };
+}
+
+function household(members: ReturnType<typeof member>[]) {
+  return { id: 70, name: "わが家の家計簿", createdAt: new Date(), updatedAt: new Date(), members };
+}
+
+describe("household router", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getLedgerScope).mockImplementation(async (userId) => ({
+      householdId: 70,
+      userId,
+      role: userId === 1 ? "owner" : "member",
+    }));
+  });
+
+  it("lets only owners issue invites and manage members", async () => {
+    const invite = await appRouter.createCaller(createContext(1)).household.createInvite();
+    expect(invite.code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+    expect(db.replaceInvite).toHaveBeenCalledWith(70, 1, invite.code, invite.expiresAt);
+
+    const member = appRouter.createCaller(createContext(2));
+    await expect(member.household.createInvite()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(member.household.removeMember({ userId: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(member.household.rename({ name: "新しい名前" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("joins with a valid, unexpired code", async () => {
+    const caller = appRouter.createCaller(createContext(2));
+    vi.mocked(db.getHousehold).mockResolvedValue(household([member(2, "member")]));
+
+    vi.mocked(db.getInvite).mockResolvedValueOnce({
+      code: "ABCD2345",
+      householdId: 80,
+      createdBy: 5,
+      expiresAt: new Date(Date.now() - 1000),
+      createdAt: new Date(),
+    });
+    await expect(caller.household.join({ code: "abcd2345" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+    vi.mocked(db.getInvite).mockResolvedValueOnce({
+      code: "ABCD2345",
+      householdId: 80,
+      createdBy: 5,
+      expiresAt: new Date(Date.now() + 1000),
+      createdAt: new Date(),
+    });
+    await expect(caller.household.join({ code: "abcd2345" })).resolves.toEqual({ householdId: 80 });
+
+    expect(db.getInvite).toHaveBeenLastCalledWith("ABCD2345");
+    expect(db.joinHousehold).toHaveBeenCalledWith(2, 80);
+  });
+
+  it("keeps at least one owner in a shared household", async () => {
+    vi.mocked(db.getHousehold).mockResolvedValue(household([member(1, "owner"), member(2, "member")]));
+    const owner = appRouter.createCaller(createContext(1));
+
+    await expect(owner.household.leave()).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    await expect(owner.household.setRole({ userId: 1, role: "member" })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+
+    await owner.household.setRole({ userId: 2, role: "owner" });
+    expect(db.setMemberRole).toHaveBeenCalledWith(70, 2, "owner");
+    expect(db.leaveHousehold).not.toHaveBeenCalled();
+  });
+
+  it("does not let a user leave a household of their own", async () => {
+    vi.mocked(db.getHousehold).mockResolvedValue(household([member(1, "owner")]));
+    await expect(appRouter.createCaller(createContext(1)).household.leave()).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+  });
+});
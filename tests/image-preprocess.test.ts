@@ -0,0 +1,81 @@
+import * as jpeg from "jpeg-js";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("react-native", () => ({ Platform: { OS: "ios" } }));
+vi.mock("expo-image-manipulator", () => ({ ImageManipulator: {}, SaveFormat: { JPEG: "jpeg" } }));
+
+const { boostContrastInJpeg, fitWithin, scanGuideCropRect, stretchContrast } = await import(
+  "../lib/image-preprocess"
+);
+
+describe("scanGuideCropRect", () => {
+  it("maps the guide frame onto a photo with the preview's aspect ratio", () => {
+    // Preview 400x800 pt, photo 1200x2400 px: 3 px per point, no overflow.
+    expect(scanGuideCropRect({ width: 1200, height: 2400 }, { width: 400, height: 800 })).toEqual({
+      originX: 114,
+      originY: 402,
+      width: 972,
+      height: 1596,
+    });
+  });
+
+  it("accounts for the part of the photo the preview cuts off", () => {
+    // A 3:4 photo is scaled to cover a 1:2 preview, so its sides are off screen.
+    const crop = scanGuideCropRect({ width: 3000, height: 4000 }, { width: 400, height: 800 });
+    expect(crop.width).toBe(1620);
+    expect(crop.originX).toBe(690);
+    expect(crop.originX + crop.width / 2).toBe(1500);
+  });
+
+  it("stays inside the photo", () => {
+    const crop = scanGuideCropRect({ width: 100, height: 100 }, { width: 30, height: 30 });
+    expect(crop.originX).toBeGreaterThanOrEqual(0);
+    expect(crop.originX + crop.width).toBeLessThanOrEqual(100);
+    expect(crop.width).toBeGreaterThanOrEqual(1);
+  });
+});
+
+describe("fitWithin", () => {
+  it("shrinks the long edge and never enlarges", () => {
+    expect(fitWithin({ width: 3024, height: 4032 }, 1600)).toEqual({ width: 1200, height: 1600 });
+    expect(fitWithin({ width: 800, height: 600 }, 1600)).toEqual({ width: 800, height: 600 });
+  });
+});
+
+describe("stretchContrast", () => {
+  function gray(values: number[]) {
+    return new Uint8ClampedArray(values.flatMap((value) => [value, value, value, 255]));
+  }
+
+  it("spreads faint pencil on paper across the full range", () => {
+    const pixels = gray([150, 150, 200, 200]);
+    stretchContrast(pixels);
+    expect(Array.from(pixels)).toEqual([0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255, 255, 255, 255, 255, 255]);
+  });
+
+  it("leaves nearly uniform images alone", () => {
+    const pixels = gray([200, 205, 210]);
+    stretchContrast(pixels);
+    expect(Array.from(pixels)).toEqual(Array.from(gray([200, 205, 210])));
+  });
+});
+
+describe("boostContrastInJpeg", () => {
+  it("stretches a faint JPEG without canvas, as on iOS and Android", () => {
+    // Left half pencil gray, right half paper gray.
+    const width = 32;
+    const height = 32;
+    const data = new Uint8Array(width * height * 4).map((_, i) => {
+      if (i % 4 === 3) return 255;
+      return (i / 4) % width < width / 2 ? 150 : 200;
+    });
+    const faint = Buffer.from(jpeg.encode({ width, height, data }, 100).data).toString("base64");
+
+    const boosted = jpeg.decode(Buffer.from(boostContrastInJpeg(faint), "base64"), { useTArray: true });
+
+    expect(boosted.width).toBe(width);
+    const reds = Array.from(boosted.data.filter((_, i) => i % 4 === 0));
+    expect(Math.min(...reds)).toBeLessThan(30);
+    expect(Math.max(...reds)).toBeGreaterThan(225);
+  });
+});
@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../server/_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+const { invokeLLM } = await import("../server/_core/llm");
+const {
+  analyzeKakeiboImage,
+  analyzeReceiptImage,
+  coerceAnalysisAmount,
+  coerceAnalysisDate,
+  parseAnalysisOutput,
+  parseReceiptOutput,
+} = await import("../server/kakeibo-analysis");
+
+const today = new Date(2026, 0, 10);
+
+function reply(content: string) {
+  return {
+    id: "chatcmpl-test",
+    created: 0,
+    model: "test",
+    choices: [{ index: 0, message: { role: "assistant" as const, content }, finish_reason: "stop" }],
+  };
+}
+
+describe("analysis output coercion", () => {
+  it("reads written amounts as whole yen", () => {
+    expect(coerceAnalysisAmount("1,200円")).toBe(1200);
+    expect(coerceAnalysisAmount("¥3,500-")).toBe(3500);
+    expect(coerceAnalysisAmount("１２００")).toBe(1200);
+    expect(coerceAnalysisAmount(980)).toBe(980);
+    expect(coerceAnalysisAmount("不明")).toBeNull();
+    expect(coerceAnalysisAmount(0)).toBeNull();
+    expect(coerceAnalysisAmount(0.3)).toBeNull();
+    expect(coerceAnalysisAmount("0.4円")).toBeNull();
+  });
+
+  it("reads dates with and without a year", () => {
+    expect(coerceAnalysisDate("2026/1/4", today)).toBe("2026-01-04");
+    expect(coerceAnalysisDate("2026年1月4日", today)).toBe("2026-01-04");
+    expect(coerceAnalysisDate("1/4", today)).toBe("2026-01-04");
+    expect(coerceAnalysisDate("1月4日", today)).toBe("2026-01-04");
+    expect(coerceAnalysisDate("12/28", today)).toBe("2025-12-28");
+    expect(coerceAnalysisDate("2/30", today)).toBeNull();
+    expect(coerceAnalysisDate("昨日", today)).toBeNull();
+  });
+
+  it("validates and normalizes fenced output", () => {
+    const parsed = parseAnalysisOutput(
+      '```json\n{"entries":[{"date":"1/4","itemName":" 電車代 ","amount":"500円","suggestedCategory":null}],"confidence":1.2}\n```',
+      today,
+    );
+    expect(parsed).toEqual({
+      success: true,
+      data: {
+        entries: [{ date: "2026-01-04", itemName: "電車代", amount: 500, suggestedCategory: undefined }],
+        confidence: 1,
+      },
+    });
+    expect(parseAnalysisOutput('{"entries":[{"date":"1/4"}]}', today).success).toBe(false);
+  });
+
+  it("keeps per-row confidence and drops unusable regions", () => {
+    const parsed = parseAnalysisOutput(
+      JSON.stringify({
+        entries: [
+          {
+            date: "2026-01-04",
+            itemName: "スーパー",
+            amount: 3500,
+            suggestedCategory: "食費",
+            confidence: 0.4,
+            region: { x: 0.1, y: 0.9, width: 0.8, height: 0.2 },
+          },
+          { date: "2026-01-04", itemName: "電車代", amount: 500, confidence: 0.95, region: null },
+          { date: "2026-01-05", itemName: "本", amount: 1200, region: { x: 0.5, width: 0 } },
+        ],
+        confidence: 0.8,
+      }),
+      today,
+    );
+
+    expect(parsed.success).toBe(true);
+    if (!parsed.success) return;
+    const [first, second, third] = parsed.data.entries;
+    expect(first.confidence).toBe(0.4);
+    expect(first.region?.y).toBe(0.9);
+    expect(first.region?.height).toBeCloseTo(0.1);
+    expect(second).toMatchObject({ confidence: 0.95, region: undefined });
+    expect(third.confidence).toBeUndefined();
+    expect(third.region).toBeUndefined();
+  });
+
+  it("reads receipts with tax rates and drops an unreadable tax breakdown", () => {
+    const parsed = parseReceiptOutput(
+      JSON.stringify({
+        storeName: " スーパーマルエツ ",
+        date: "2026年1月4日",
+        items: [
+          { name: "牛乳", amount: "¥198", taxRate: "8%", suggestedCategory: "食費" },
+          { name: "洗剤", amount: 398, taxRate: 10, suggestedCategory: null },
+          { name: "袋", amount: 5, taxRate: "不明", suggestedCategory: null },
+        ],
+        taxes: [{ rate: 8, amount: "合計", tax: 14 }],
+        total: "¥628",
+        confidence: 0.8,
+      }),
+      today,
+    );
+
+    expect(parsed).toEqual({
+      success: true,
+      data: {
+        storeName: "スーパーマルエツ",
+        date: "2026-01-04",
+        items: [
+          { name: "牛乳", amount: 198, taxRate: 8, suggestedCategory: "食費" },
+          { name: "洗剤", amount: 398, taxRate: 10, suggestedCategory: undefined },
+          { name: "袋", amount: 5, taxRate: undefined, suggestedCategory: undefined },
+        ],
+        taxes: [],
+        total: 628,
+        confidence: 0.8,
+      },
+    });
+    expect(parseReceiptOutput('{"storeName":null,"date":"1/4","items":[],"taxes":[],"confidence":1}', today).success).toBe(
+      false,
+    );
+  });
+});
+
+describe("analyzeKakeiboImage", () => {
+  beforeEach(() => {
+    vi.mocked(invokeLLM).mockReset();
+  });
+
+  it("requests the strict schema and returns valid output", async () => {
+    vi.mocked(invokeLLM).mockResolvedValueOnce(
+      reply('{"entries":[{"date":"2026-01-04","itemName":"スーパー","amount":3500,"suggestedCategory":"食費"}],"confidence":0.9}'),
+    );
+
+    await expect(analyzeKakeiboImage("aW1hZ2U=", { today })).resolves.toEqual({
+      entries: [{ date: "2026-01-04", itemName: "スーパー", amount: 3500, suggestedCategory: "食費" }],
+      confidence: 0.9,
+    });
+    expect(vi.mocked(invokeLLM).mock.calls[0][0].outputSchema).toMatchObject({ name: "kakeibo_analysis", strict: true });
+  });
+
+  it("repairs invalid output once", async () => {
+    vi.mocked(invokeLLM)
+      .mockResolvedValueOnce(reply('{"entries":[{"date":"?","itemName":"スーパー","amount":3500}]}'))
+      .mockResolvedValueOnce(reply('{"entries":[],"confidence":0.2}'));
+
+    await expect(analyzeKakeiboImage("aW1hZ2U=", { today })).resolves.toEqual({ entries: [], confidence: 0.2 });
+
+    const repair = vi.mocked(invokeLLM).mock.calls[1][0].messages;
+    expect(repair).toHaveLength(3);
+    expect(repair[1]).toMatchObject({ role: "assistant" });
+  });
+
+  it("sends an amount that rounds to zero through repair instead of returning it", async () => {
+    const gum = (amount: number) =>
+      reply(`{"entries":[{"date":"2026-01-04","itemName":"ガム","amount":${amount}}],"confidence":0.8}`);
+    vi.mocked(invokeLLM).mockResolvedValueOnce(gum(0.3)).mockResolvedValueOnce(gum(120));
+    await expect(analyzeKakeiboImage("aW1hZ2U=", { today })).resolves.toMatchObject({
+      entries: [{ itemName: "ガム", amount: 120 }],
+    });
+
+    vi.mocked(invokeLLM).mockResolvedValue(gum(0.3));
+    await expect(analyzeKakeiboImage("aW1hZ2U=", { today })).rejects.toMatchObject({ code: "INVALID_OUTPUT" });
+  });
+
+  it("reports typed errors", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(reply("読み取れませんでした"));
+    await expect(analyzeKakeiboImage("aW1hZ2U=", { today })).rejects.toMatchObject({ code: "INVALID_OUTPUT" });
+    expect(invokeLLM).toHaveBeenCalledTimes(2);
+
+    vi.mocked(invokeLLM).mockRejectedValue(new Error("LLM invoke failed: 503"));
+    await expect(analyzeKakeiboImage("aW1hZ2U=", { today })).rejects.toMatchObject({ code: "LLM_UNAVAILABLE" });
+  });
+
+  it("adds the user's past corrections to the prompt as single-line hints", async () => {
+    vi.mocked(invokeLLM).mockResolvedValueOnce(reply('{"entries":[],"confidence":0.9}'));
+
+    await analyzeKakeiboImage("aW1hZ2U=", {
+      today,
+      categoryHints: [
+        { itemName: "セブン", categoryName: "食費" },
+        { itemName: "Suica\nチャージ", categoryName: "交通費" },
+      ],
+    });
+
+    const [message] = vi.mocked(invokeLLM).mock.calls[0][0].messages;
+    const prompt = (message.content as { type: string; text?: string }[])[0].text;
+    expect(prompt).toContain("- セブン → 食費\n- Suica チャージ → 交通費");
+  });
+
+  it("uses the receipt schema for receipts", async () => {
+    vi.mocked(invokeLLM).mockResolvedValueOnce(
+      reply('{"storeName":null,"date":"2026-01-04","items":[],"taxes":[],"total":540,"confidence":0.9}'),
+    );
+
+    await expect(analyzeReceiptImage("aW1hZ2U=", { today })).resolves.toMatchObject({ total: 540, items: [] });
+    expect(vi.mocked(invokeLLM).mock.calls[0][0].outputSchema).toMatchObject({ name: "receipt_analysis", strict: true });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  categoryHints,
+  findLearnedCategory,
+  learnCategory,
+  MAX_LEARNED_CATEGORIES,
+  normalizeItemName,
+} from "../lib/learned-categories";
+import type { Category, LearnedCategory } from "../types/kakeibo";
+
+const categories: Category[] = [
+  { id: "default_0", name: "食費", type: "expense", color: "#FF6B6B", createdAt: "2026-01-01T00:00:00.000Z" },
+  { id: "default_2", name: "交通費", type: "expense", color: "#45B7D1", createdAt: "2026-01-01T00:00:00.000Z" },
+  { id: "income_0", name: "給与", type: "income", color: "#2E7D32", createdAt: "2026-01-01T00:00:00.000Z" },
+];
+
+function learned(itemName: string, categoryId: string, count = 1, updatedAt = "2026-03-01T00:00:00.000Z") {
+  return {
+    key: normalizeItemName(itemName),
+    itemName,
+    categoryId,
+    count,
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt,
+  } satisfies LearnedCategory;
+}
+
+describe("normalizeItemName", () => {
+  it("ignores width, case and spaces", () => {
+    expect(normalizeItemName(" ＳＵＩＣＡ チャージ ")).toBe("suicaチャージ");
+    expect(normalizeItemName("セブン")).toBe(normalizeItemName("セブン"));
+  });
+});
+
+describe("findLearnedCategory", () => {
+  const rules = [learned("セブン", "default_0"), learned("Suica", "default_2"), learned("給料", "income_0")];
+
+  it("prefers an exact match, then the longest learned name contained in the item", () => {
+    expect(findLearnedCategory("suica", rules, categories)?.name).toBe("交通費");
+    expect(findLearnedCategory("セブンイレブン 新宿店", rules, categories)?.name).toBe("食費");
+    expect(
+      findLearnedCategory("Suicaチャージ", [...rules, learned("Suicaチャージ", "default_0")], categories)?.name,
+    ).toBe("食費");
+    expect(findLearnedCategory("ローソン", rules, categories)).toBeUndefined();
+  });
+
+  it("skips deleted categories and categories of the other type", () => {
+    expect(findLearnedCategory("セブン", [learned("セブン", "category_gone")], categories)).toBeUndefined();
+    expect(findLearnedCategory("給料", rules, categories)).toBeUndefined();
+    expect(findLearnedCategory("給料", rules, categories, "income")?.name).toBe("給与");
+  });
+});
+
+describe("learnCategory", () => {
+  it("counts repeated corrections and restarts the count when the category changes", () => {
+    let rules = learnCategory([], "セブン", "default_0", "2026-03-01T00:00:00.000Z");
+    rules = learnCategory(rules, "ｾﾌﾞﾝ", "default_0", "2026-03-02T00:00:00.000Z");
+    expect(rules).toEqual([{ ...learned("ｾﾌﾞﾝ", "default_0", 2, "2026-03-02T00:00:00.000Z"), key: "セブン" }]);
+
+    rules = learnCategory(rules, "セブン", "default_2", "2026-03-03T00:00:00.000Z");
+    expect(rules[0]).toMatchObject({ categoryId: "default_2", count: 1, createdAt: "2026-03-01T00:00:00.000Z" });
+    expect(learnCategory(rules, "  ", "default_0")).toBe(rules);
+  });
+
+  it("forgets the least recently corrected names beyond the limit", () => {
+    // item0 is the most recent, the last item the oldest.
+    const full = Array.from({ length: MAX_LEARNED_CATEGORIES }, (_, i) => {
+      const updatedAt = new Date(Date.UTC(2026, 0, 1, 0, 0, MAX_LEARNED_CATEGORIES - i)).toISOString();
+      return learned(`item${i}`, "default_0", 1, updatedAt);
+    });
+
+    const rules = learnCategory(full, "セブン", "default_0", "2026-03-01T00:00:00.000Z");
+
+    expect(rules).toHaveLength(MAX_LEARNED_CATEGORIES);
+    expect(rules[0].itemName).toBe("セブン");
+    expect(rules.some((rule) => rule.itemName === `item${MAX_LEARNED_CATEGORIES - 1}`)).toBe(false);
+  });
+});
+
+describe("categoryHints", () => {
+  it("sends the most used expense corrections with their current category names", () => {
+    const rules = [
+      learned("セブン", "default_0", 1, "2026-03-05T00:00:00.000Z"),
+      learned("Suica", "default_2", 3),
+      learned("給料", "income_0", 5),
+      learned("古い店", "category_gone", 9),
+    ];
+
+    expect(categoryHints(rules, categories)).toEqual([
+      { itemName: "Suica", categoryName: "交通費" },
+      { itemName: "セブン", categoryName: "食費" },
+    ]);
+  });
+});
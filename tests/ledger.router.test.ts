@@ -0,0 +1,218 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "../server/_core/context";
+
+vi.mock("../server/db", () => ({
+  getLedgerScope: vi.fn(async (userId: number) => ({ householdId: 70, userId, role: "owner" })),
+  getEntriesByMonth: vi.fn(async () => []),
+  getEntry: vi.fn(async () => ({ id: "entry_1", userId: 8 })),
+  createEntry: vi.fn(async () => {}),
+  createEntries: vi.fn(async () => {}),
+  updateEntry: vi.fn(async () => "updated"),
+  deleteEntry: vi.fn(async () => true),
+  getCategories: vi.fn(async () => []),
+  createCategory: vi.fn(async () => {}),
+  updateCategory: vi.fn(async () => true),
+  deleteCategory: vi.fn(async () => "deleted"),
+  applyEntryChanges: vi.fn(async () => 0),
+  applyCategoryChanges: vi.fn(async () => 0),
+  applyEntryTombstones: vi.fn(async () => {}),
+  applyCategoryTombstones: vi.fn(async () => {}),
+  getChangesSince: vi.fn(async () => ({ entries: [], categories: [], cursor: null })),
+}));
+
+const db = await import("../server/db");
+const { appRouter } = await import("../server/routers");
+
+function createContext(userId: number | null): TrpcContext {
+  return {
+    user:
+      userId === null
+        ? null
+        : {
+            id: userId,
+            openId: `user-${userId}`,
+            email: null,
+            name: null,
+            loginMethod: "manus",
+            role: "user",
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            lastSignedIn: new Date(),
+            scanQuota: null,
+          },
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+const entry = {
+  id: "entry_1",
+  type: "expense" as const,
+  date: "2026-03-02",
+  itemName: "牛乳",
+  amount: 198,
+  categoryId: "default_0",
+  createdAt: "2026-03-02T09:00:00.000Z",
+};
+
+describe("ledger routers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getLedgerScope).mockImplementation(async (userId) => ({ householdId: 70, userId, role: "owner" }));
+  });
+
+  it("rejects unauthenticated callers", async () => {
+    const caller = appRouter.createCaller(createContext(null));
+    await expect(caller.entries.listByMonth({ year: 2026, month: 3 })).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+  });
+
+  it("scopes queries and writes to the signed-in user's household", async () => {
+    const caller = appRouter.createCaller(createContext(7));
+
+    await caller.entries.listByMonth({ year: 2026, month: 3 });
+    await caller.entries.bulkCreate({ entries: [entry, { ...entry, id: "entry_2" }] });
+
+    const scope = { householdId: 70, userId: 7, role: "owner" };
+    expect(db.getEntriesByMonth).toHaveBeenCalledWith(70, 2026, 3);
+    expect(db.createEntries).toHaveBeenCalledWith(scope, [
+      expect.objectContaining({ id: "entry_1", createdAt: new Date(entry.createdAt) }),
+      expect.objectContaining({ id: "entry_2" }),
+    ]);
+  });
+
+  it("validates entry input", async () => {
+    const caller = appRouter.createCaller(createContext(7));
+    await expect(caller.entries.create({ ...entry, amount: -1 })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    await expect(caller.entries.create({ ...entry, date: "2026/03/02" })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    expect(db.createEntries).not.toHaveBeenCalled();
+  });
+
+  it("accepts split entries only when the allocations add up to the amount", async () => {
+    const caller = appRouter.createCaller(createContext(7));
+    const splits = [
+      { categoryId: "default_0", categoryName: "食費", amount: 3000 },
+      { categoryId: "default_1", categoryName: "日用品", amount: 2000 },
+    ];
+
+    await caller.entries.create({ ...entry, amount: 5000, splits });
+    await expect(caller.entries.create({ ...entry, amount: 4000, splits })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    const repeated = [splits[0], { ...splits[0], amount: 2000 }];
+    await expect(
+      caller.entries.update({ id: "entry_1", data: { amount: 5000, splits: repeated } }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+
+    expect(db.createEntry).toHaveBeenCalledTimes(1);
+    expect(db.createEntry).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ splits }));
+    expect(db.updateEntry).not.toHaveBeenCalled();
+  });
+
+  it("rejects updates that leave a split entry's allocations off from its amount", async () => {
+    const caller = appRouter.createCaller(createContext(7));
+    const splits = [
+      { categoryId: "default_0", amount: 3000 },
+      { categoryId: "default_1", amount: 1000 },
+    ];
+    // db.updateEntry checks the half that was not sent against the stored row.
+    vi.mocked(db.updateEntry).mockResolvedValueOnce("invalid_splits").mockResolvedValueOnce("invalid_splits");
+
+    await expect(caller.entries.update({ id: "entry_1", data: { splits } })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    await expect(caller.entries.update({ id: "entry_1", data: { amount: 6000 } })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    expect(db.updateEntry).toHaveBeenNthCalledWith(1, 70, "entry_1", { splits });
+    expect(db.updateEntry).toHaveBeenNthCalledWith(2, 70, "entry_1", { amount: 6000 });
+  });
+
+  it("reports missing rows as NOT_FOUND", async () => {
+    vi.mocked(db.updateEntry).mockResolvedValueOnce("not_found");
+    vi.mocked(db.deleteCategory).mockResolvedValueOnce("not_found");
+    const caller = appRouter.createCaller(createContext(7));
+
+    await expect(caller.entries.update({ id: "missing", data: { amount: 100 } })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    await expect(caller.categories.delete({ id: "missing" })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+  });
+
+  it("lets members delete only the entries they recorded", async () => {
+    vi.mocked(db.getLedgerScope).mockResolvedValue({ householdId: 70, userId: 7, role: "member" });
+    const caller = appRouter.createCaller(createContext(7));
+
+    await expect(caller.entries.delete({ id: "entry_1" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.categories.delete({ id: "category_pet" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    vi.mocked(db.getEntry).mockResolvedValueOnce({ id: "entry_2", userId: 7 } as never);
+    await caller.entries.delete({ id: "entry_2" });
+
+    expect(db.deleteEntry).toHaveBeenCalledTimes(1);
+    expect(db.deleteEntry).toHaveBeenCalledWith(70, "entry_2");
+    expect(db.deleteCategory).not.toHaveBeenCalled();
+  });
+
+  it("passes the reassignment target when deleting a category", async () => {
+    const caller = appRouter.createCaller(createContext(7));
+
+    await caller.categories.delete({ id: "category_pet", reassignToId: "default_8" });
+
+    expect(db.deleteCategory).toHaveBeenCalledWith(70, "category_pet", "default_8");
+  });
+
+  it("rejects a category delete with an invalid target or without one while entries use it", async () => {
+    vi.mocked(db.deleteCategory).mockResolvedValueOnce("invalid_target").mockResolvedValueOnce("in_use");
+    const caller = appRouter.createCaller(createContext(7));
+
+    await expect(caller.categories.delete({ id: "category_pet", reassignToId: "income_0" })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    await expect(caller.categories.delete({ id: "category_pet" })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("ignores sync pushes made for another household", async () => {
+    const caller = appRouter.createCaller(createContext(7));
+
+    const result = await caller.sync.push({
+      householdId: 69,
+      entries: [{ ...entry, updatedAt: "2026-03-02T10:00:00.000Z" }],
+    });
+
+    expect(result).toEqual({ applied: 0, householdId: 70 });
+    expect(db.applyEntryChanges).not.toHaveBeenCalled();
+  });
+
+  it("requires updatedAt on sync pushes and pulls from the cursor", async () => {
+    const caller = appRouter.createCaller(createContext(7));
+
+    // @ts-expect-error updatedAt is required on sync pushes
+    await expect(caller.sync.push({ entries: [entry] })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+
+    const updatedAt = "2026-03-02T10:00:00.000Z";
+    await caller.sync.push({
+      entries: [{ ...entry, updatedAt }],
+      deletedCategories: [{ id: "category_pet", deletedAt: updatedAt }],
+    });
+    await caller.sync.pull({ since: updatedAt });
+
+    const scope = { householdId: 70, userId: 7, role: "owner" };
+    // An entry pushed without splits or tags clears those stored on the server.
+    expect(db.applyEntryChanges).toHaveBeenCalledWith(scope, [
+      expect.objectContaining({ id: "entry_1", updatedAt: new Date(updatedAt), splits: null, tags: null }),
+    ]);
+    expect(db.applyCategoryTombstones).toHaveBeenCalledWith(scope, [
+      { id: "category_pet", deletedAt: new Date(updatedAt) },
+    ]);
+    expect(db.getChangesSince).toHaveBeenCalledWith(70, new Date(updatedAt));
+  });
+});
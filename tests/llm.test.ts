@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "../server/_core/env";
+import { invokeLLM, resolveLLMConfig } from "../server/_core/llm";
+
+const originalEnv = { ...ENV };
+
+function mockFetch() {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify({ id: "x", created: 0, model: "m", choices: [] })));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function sentRequest(fetchMock: ReturnType<typeof mockFetch>) {
+  const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+  return { url, headers: init.headers as Record<string, string>, body: JSON.parse(init.body as string) };
+}
+
+describe("LLM provider configuration", () => {
+  beforeEach(() => {
+    Object.assign(ENV, { forgeApiUrl: "", forgeApiKey: "forge-key" });
+  });
+
+  afterEach(() => {
+    Object.assign(ENV, originalEnv);
+    vi.unstubAllGlobals();
+  });
+
+  it("defaults to the forge with its model and thinking budget", async () => {
+    const fetchMock = mockFetch();
+    await invokeLLM({ messages: [{ role: "user", content: "hi" }] });
+
+    const { url, headers, body } = sentRequest(fetchMock);
+    expect(url).toBe("https://forge.manus.im/v1/chat/completions");
+    expect(headers.authorization).toBe("Bearer forge-key");
+    expect(body).toMatchObject({ model: "gemini-2.5-flash", max_tokens: 32768, thinking: { budget_tokens: 128 } });
+  });
+
+  it("points the scan call site at its own OpenAI-compatible server", async () => {
+    Object.assign(ENV, {
+      llmModel: "general-model",
+      llmScanBaseUrl: "http://localhost:11434/v1/",
+      llmScanModel: "vision-model",
+      llmScanMaxTokens: "4096",
+    });
+
+    expect(resolveLLMConfig("default")).toMatchObject({ provider: "forge", model: "general-model" });
+    expect(resolveLLMConfig("scan")).toEqual({
+      provider: "openai-compatible",
+      apiUrl: "http://localhost:11434/v1/chat/completions",
+      apiKey: "",
+      model: "vision-model",
+      maxTokens: 4096,
+      thinkingBudget: null,
+    });
+
+    const fetchMock = mockFetch();
+    await invokeLLM({ messages: [{ role: "user", content: "hi" }], callSite: "scan" });
+    const { headers, body } = sentRequest(fetchMock);
+    expect(headers.authorization).toBeUndefined();
+    expect(body.thinking).toBeUndefined();
+  });
+
+  it("lets each call override the model and token limits", async () => {
+    Object.assign(ENV, { llmThinkingBudget: "off" });
+    const fetchMock = mockFetch();
+    await invokeLLM({ messages: [{ role: "user", content: "hi" }], model: "other-model", maxTokens: 1000 });
+
+    expect(sentRequest(fetchMock).body).toMatchObject({ model: "other-model", max_tokens: 1000 });
+    expect(sentRequest(fetchMock).body.thinking).toBeUndefined();
+  });
+
+  it("rejects malformed token limits and a missing forge key", async () => {
+    Object.assign(ENV, { llmMaxTokens: "lots" });
+    expect(() => resolveLLMConfig()).toThrow(/non-negative integer/);
+
+    Object.assign(ENV, { llmMaxTokens: "", forgeApiKey: "" });
+    await expect(invokeLLM({ messages: [{ role: "user", content: "hi" }] })).rejects.toThrow(
+      "BUILT_IN_FORGE_API_KEY is not configured",
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { dominantCategory, receiptToEntries } from "../lib/receipt";
+import type { ReceiptAnalysisResult } from "../types/kakeibo";
+
+// Prices printed before tax: 8% on food, 10% on the rest, tax added at the bottom.
+const receipt: ReceiptAnalysisResult = {
+  storeName: "スーパーマルエツ",
+  date: "2026-01-04",
+  items: [
+    { name: "牛乳", amount: 198, taxRate: 8, suggestedCategory: "食費" },
+    { name: "食パン", amount: 150, taxRate: 8, suggestedCategory: "食費" },
+    { name: "洗剤", amount: 398, taxRate: 10, suggestedCategory: "日用品" },
+  ],
+  taxes: [
+    { rate: 8, amount: 375, tax: 27 },
+    { rate: 10, amount: 437, tax: 39 },
+  ],
+  total: 812,
+  confidence: 0.9,
+};
+
+describe("receiptToEntries", () => {
+  it("saves a single entry for the total under the main category", () => {
+    expect(dominantCategory(receipt)).toBe("日用品");
+    expect(receiptToEntries(receipt, "total")).toEqual([
+      { date: "2026-01-04", itemName: "スーパーマルエツ", amount: 812, suggestedCategory: "日用品", confidence: 0.9 },
+    ]);
+  });
+
+  it("adds tax to itemized entries per rate so they sum to the total", () => {
+    const entries = receiptToEntries(receipt, "itemized");
+
+    expect(entries.map((entry) => [entry.itemName, entry.amount])).toEqual([
+      ["牛乳", 213],
+      ["食パン", 162],
+      ["洗剤", 437],
+    ]);
+    expect(entries.reduce((sum, entry) => sum + entry.amount, 0)).toBe(receipt.total);
+  });
+
+  it("falls back to the total when rates are missing or nothing was itemized", () => {
+    const unknownRates = {
+      ...receipt,
+      items: receipt.items.map(({ taxRate: _taxRate, ...item }) => item),
+      taxes: [],
+    };
+    const entries = receiptToEntries(unknownRates, "itemized");
+    expect(entries.reduce((sum, entry) => sum + entry.amount, 0)).toBe(812);
+
+    expect(receiptToEntries({ ...receipt, storeName: undefined, items: [] }, "itemized")).toEqual([
+      { date: "2026-01-04", itemName: "レシート", amount: 812, suggestedCategory: undefined, confidence: 0.9 },
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { getDueOccurrences, getUpcomingOccurrences, listOccurrences } from "../lib/recurring";
+import type { RecurringEntry } from "../types/kakeibo";
+
+function recurring(fields: Partial<RecurringEntry> = {}): RecurringEntry {
+  return {
+    id: "recurring_rent",
+    type: "expense",
+    itemName: "家賃",
+    amount: 80000,
+    categoryId: "default_1",
+    schedule: { kind: "monthly", dayOfMonth: 27 },
+    startDate: "2026-01-01",
+    skippedDates: [],
+    isActive: true,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    ...fields,
+  };
+}
+
+describe("listOccurrences", () => {
+  it("clamps monthly days past the end of the month", () => {
+    expect(
+      listOccurrences({ kind: "monthly", dayOfMonth: 31 }, "2026-01-15", "2026-01-15", "2026-04-30"),
+    ).toEqual(["2026-01-31", "2026-02-28", "2026-03-31", "2026-04-30"]);
+  });
+
+  it("repeats yearly on the same date", () => {
+    expect(
+      listOccurrences({ kind: "yearly", month: 4, day: 1 }, "2025-06-01", "2025-06-01", "2027-12-31"),
+    ).toEqual(["2026-04-01", "2027-04-01"]);
+  });
+
+  it("steps every N weeks from the start date", () => {
+    expect(
+      listOccurrences({ kind: "weekly", intervalWeeks: 2 }, "2026-03-02", "2026-03-10", "2026-04-13"),
+    ).toEqual(["2026-03-16", "2026-03-30", "2026-04-13"]);
+  });
+});
+
+describe("getDueOccurrences", () => {
+  it("returns every occurrence up to today on first run", () => {
+    expect(getDueOccurrences(recurring(), "2026-03-27")).toEqual(["2026-01-27", "2026-02-27", "2026-03-27"]);
+  });
+
+  it("skips dates already generated or explicitly skipped", () => {
+    const rent = recurring({ generatedThrough: "2026-02-27", skippedDates: ["2026-04-27"] });
+    expect(getDueOccurrences(rent, "2026-05-30")).toEqual(["2026-03-27", "2026-05-27"]);
+  });
+
+  it("stops at the end date and when paused", () => {
+    expect(getDueOccurrences(recurring({ endDate: "2026-02-28" }), "2026-06-01")).toEqual([
+      "2026-01-27",
+      "2026-02-27",
+    ]);
+    expect(getDueOccurrences(recurring({ isActive: false }), "2026-06-01")).toEqual([]);
+  });
+});
+
+describe("getUpcomingOccurrences", () => {
+  it("lists the next occurrences from a date, including skipped ones", () => {
+    const rent = recurring({ skippedDates: ["2026-11-27"] });
+    expect(getUpcomingOccurrences(rent, "2026-10-28", 3)).toEqual(["2026-11-27", "2026-12-27", "2027-01-27"]);
+  });
+});
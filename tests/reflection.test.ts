@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { getReflectionPrompt } from "../lib/reflection";
+import type { MonthlyReflection } from "../types/kakeibo";
+
+function reflection(month: string, fields: Partial<MonthlyReflection> = {}): MonthlyReflection {
+  return {
+    id: `reflection_${month}`,
+    month,
+    createdAt: `${month}-01T00:00:00.000Z`,
+    updatedAt: `${month}-01T00:00:00.000Z`,
+    ...fields,
+  };
+}
+
+describe("getReflectionPrompt", () => {
+  it("asks for a goal when the month has none", () => {
+    expect(getReflectionPrompt([], new Date(2026, 2, 2))).toEqual({ type: "goal", month: "2026-03" });
+  });
+
+  it("asks to review last month when its goal was never reviewed", () => {
+    const reflections = [reflection("2026-02", { savingsGoal: 20000 })];
+    expect(getReflectionPrompt(reflections, new Date(2026, 2, 10))).toEqual({
+      type: "review",
+      month: "2026-02",
+    });
+  });
+
+  it("asks to review the current month near its end", () => {
+    const reflections = [reflection("2026-03", { savingsGoal: 20000 })];
+    expect(getReflectionPrompt(reflections, new Date(2026, 2, 28))).toBeNull();
+    expect(getReflectionPrompt(reflections, new Date(2026, 2, 29))).toEqual({
+      type: "review",
+      month: "2026-03",
+    });
+  });
+
+  it("stays quiet once the goal is set and last month is reviewed", () => {
+    const reflections = [
+      reflection("2026-01", { savingsGoal: 10000, reviewedAt: "2026-01-31T12:00:00.000Z" }),
+      reflection("2026-02", { savingsGoal: 20000, reviewedAt: "2026-02-28T12:00:00.000Z" }),
+      reflection("2026-03", { savingsGoal: 20000 }),
+    ];
+    expect(getReflectionPrompt(reflections, new Date(2026, 2, 10))).toBeNull();
+  });
+
+  it("looks back across the year boundary", () => {
+    const reflections = [reflection("2025-12", { savingsGoal: 30000 })];
+    expect(getReflectionPrompt(reflections, new Date(2026, 0, 5))).toEqual({
+      type: "review",
+      month: "2025-12",
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { parseTags } from "../lib/entry-form";
+import { applyEntryRules, describeRule, matchesRuleConditions, previewRules } from "../lib/rules";
+import type { Category, EntryRule, KakeiboEntry } from "../types/kakeibo";
+
+const categories: Category[] = [
+  { id: "default_0", name: "食費", type: "expense", color: "#FF6B6B", createdAt: "2026-01-01T00:00:00.000Z" },
+  { id: "default_2", name: "交通費", type: "expense", color: "#45B7D1", createdAt: "2026-01-01T00:00:00.000Z" },
+  { id: "default_8", name: "その他", type: "expense", color: "#95A5A6", createdAt: "2026-01-01T00:00:00.000Z" },
+  { id: "income_0", name: "給与", type: "income", color: "#2E7D32", createdAt: "2026-01-01T00:00:00.000Z" },
+];
+
+// 2026-03-07 is a Saturday.
+const entry: KakeiboEntry = {
+  id: "entry_1",
+  type: "expense",
+  date: "2026-03-07",
+  itemName: "セブンイレブン 新宿店",
+  amount: 680,
+  categoryId: "default_8",
+  categoryName: "その他",
+  createdAt: "2026-03-07T09:00:00.000Z",
+  updatedAt: "2026-03-07T09:00:00.000Z",
+};
+
+function rule(id: string, priority: number, fields: Partial<EntryRule>): EntryRule {
+  return {
+    id,
+    name: id,
+    conditions: {},
+    actions: [],
+    priority,
+    isActive: true,
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    ...fields,
+  };
+}
+
+describe("matchesRuleConditions", () => {
+  it("requires every condition to hold", () => {
+    expect(matchesRuleConditions(entry, { itemName: { match: "contains", pattern: "ｾﾌﾞﾝ" } })).toBe(true);
+    expect(matchesRuleConditions(entry, { itemName: { match: "regex", pattern: "^(セブン|ローソン)" } })).toBe(true);
+    expect(matchesRuleConditions(entry, { minAmount: 500, maxAmount: 680, weekdays: [0, 6] })).toBe(true);
+    expect(matchesRuleConditions(entry, { minAmount: 1000 })).toBe(false);
+    expect(matchesRuleConditions(entry, { itemName: { match: "contains", pattern: "セブン" }, weekdays: [1] })).toBe(
+      false,
+    );
+  });
+
+  it("never matches an empty rule or an invalid pattern", () => {
+    expect(matchesRuleConditions(entry, {})).toBe(false);
+    expect(matchesRuleConditions(entry, { itemName: { match: "regex", pattern: "(" } })).toBe(false);
+  });
+});
+
+describe("applyEntryRules", () => {
+  const rules = [
+    rule("weekend", 1, {
+      conditions: { weekdays: [0, 6] },
+      actions: [
+        { kind: "addTag", tag: "週末" },
+        { kind: "setCategory", categoryId: "default_2" },
+      ],
+    }),
+    rule("convenience", 0, {
+      conditions: { itemName: { match: "contains", pattern: "セブン" } },
+      actions: [
+        { kind: "setCategory", categoryId: "default_0" },
+        { kind: "addTag", tag: "コンビニ" },
+        { kind: "setNote", note: "間食" },
+      ],
+    }),
+    rule("paused", 2, { conditions: { minAmount: 1 }, actions: [{ kind: "addTag", tag: "停止中" }], isActive: false }),
+  ];
+
+  it("lets the highest priority rule set the category and collects tags from every match", () => {
+    const result = applyEntryRules(entry, rules, categories);
+
+    expect(result.ruleIds).toEqual(["convenience", "weekend"]);
+    expect(result.entry).toMatchObject({
+      categoryId: "default_0",
+      categoryName: "食費",
+      tags: ["コンビニ", "週末"],
+      note: "間食",
+    });
+  });
+
+  it("keeps the category when asked to and skips categories of the other type", () => {
+    expect(applyEntryRules(entry, rules, categories, { keepCategory: true }).entry.categoryId).toBe("default_8");
+
+    const salaryRule = rule("salary", 0, {
+      conditions: { minAmount: 1 },
+      actions: [{ kind: "setCategory", categoryId: "income_0" }],
+    });
+    expect(applyEntryRules(entry, [salaryRule], categories).entry.categoryId).toBe("default_8");
+  });
+});
+
+describe("previewRules", () => {
+  it("lists only the entries the rules would change, newest first", () => {
+    const tagged = { ...entry, id: "entry_2", date: "2026-03-09", itemName: "セブン", tags: ["コンビニ"] };
+    const other = { ...entry, id: "entry_3", itemName: "JR 定期券" };
+    const tagRule = rule("tag", 0, {
+      conditions: { itemName: { match: "contains", pattern: "セブン" } },
+      actions: [{ kind: "addTag", tag: "コンビニ" }],
+    });
+    const categoryRule = rule("category", 1, {
+      conditions: { itemName: { match: "regex", pattern: "^セブン$" } },
+      actions: [{ kind: "setCategory", categoryId: "default_0" }],
+    });
+
+    const preview = previewRules([entry, tagged, other], [tagRule, categoryRule], categories);
+
+    expect(preview.map(({ before, changes }) => [before.id, changes])).toEqual([
+      ["entry_2", ["category"]],
+      ["entry_1", ["tags"]],
+    ]);
+    expect(preview[0].after.categoryName).toBe("食費");
+  });
+});
+
+describe("describeRule", () => {
+  it("summarizes conditions and actions", () => {
+    const weekendLunch = rule("lunch", 0, {
+      conditions: { itemName: { match: "contains", pattern: "ランチ" }, maxAmount: 1500, weekdays: [6, 0] },
+      actions: [
+        { kind: "setCategory", categoryId: "default_0" },
+        { kind: "addTag", tag: "外食" },
+      ],
+    });
+
+    expect(describeRule(weekendLunch, categories)).toBe("項目名に「ランチ」を含む・〜¥1,500・日・土曜日 → 食費、#外食");
+  });
+});
+
+describe("parseTags", () => {
+  it("splits on commas and drops blanks and duplicates", () => {
+    expect(parseTags(" コンビニ, 週末、,コンビニ ")).toEqual(["コンビニ", "週末"]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { mergeScanPages, type ScanPage } from "../lib/scan-draft";
+
+function page(imageUri: string, entries: Array<[string, string, number]>): ScanPage {
+  return {
+    imageUri,
+    result: {
+      entries: entries.map(([date, itemName, amount]) => ({ date, itemName, amount })),
+      confidence: 0.9,
+    },
+  };
+}
+
+describe("mergeScanPages", () => {
+  it("keeps rows from every page in order with their page index", () => {
+    const { rows, duplicateCount } = mergeScanPages([
+      page("p1", [["2026-03-01", "スーパー", 1200]]),
+      page("p2", [["2026-03-15", "電車", 220]]),
+    ]);
+
+    expect(rows.map((row) => [row.itemName, row.pageIndex])).toEqual([
+      ["スーパー", 0],
+      ["電車", 1],
+    ]);
+    expect(duplicateCount).toBe(0);
+  });
+
+  it("drops rows repeated on an overlapping page", () => {
+    const { rows, duplicateCount } = mergeScanPages([
+      page("p1", [
+        ["2026-03-01", "スーパー", 1200],
+        ["2026-03-02", "コーヒー", 300],
+      ]),
+      page("p2", [
+        ["2026-03-02", "ｺｰﾋｰ ", 300],
+        ["2026-03-03", "ドラッグストア", 800],
+      ]),
+    ]);
+
+    expect(rows.map((row) => row.itemName)).toEqual(["スーパー", "コーヒー", "ドラッグストア"]);
+    expect(duplicateCount).toBe(1);
+  });
+
+  it("keeps identical rows written twice on the same page", () => {
+    const { rows, duplicateCount } = mergeScanPages([
+      page("p1", [
+        ["2026-03-02", "コーヒー", 300],
+        ["2026-03-02", "コーヒー", 300],
+      ]),
+      page("p2", [
+        ["2026-03-02", "コーヒー", 300],
+        ["2026-03-02", "コーヒー", 300],
+        ["2026-03-02", "コーヒー", 300],
+      ]),
+    ]);
+
+    expect(rows.map((row) => row.pageIndex)).toEqual([0, 0, 1]);
+    expect(duplicateCount).toBe(2);
+  });
+
+  it("treats a different amount or date as a separate row", () => {
+    const { rows } = mergeScanPages([
+      page("p1", [["2026-03-02", "コーヒー", 300]]),
+      page("p2", [
+        ["2026-03-02", "コーヒー", 350],
+        ["2026-03-03", "コーヒー", 300],
+      ]),
+    ]);
+
+    expect(rows).toHaveLength(3);
+  });
+
+  it("leaves receipt pages out and keeps page indexes of the others", () => {
+    const { rows } = mergeScanPages([
+      page("p1", [["2026-03-01", "スーパー", 1200]]),
+      {
+        mode: "receipt",
+        imageUri: "r1",
+        receipt: { date: "2026-03-01", items: [], taxes: [], total: 540, confidence: 0.9 },
+      },
+      page("p3", [["2026-03-15", "電車", 220]]),
+    ]);
+
+    expect(rows.map((row) => [row.itemName, row.pageIndex])).toEqual([
+      ["スーパー", 0],
+      ["電車", 2],
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import { createTRPCClient, httpBatchLink } from "@trpc/client";
+import { createExpressMiddleware } from "@trpc/server/adapters/express";
+import express from "express";
+import { readFileSync } from "node:fs";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import superjson from "superjson";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadLLMFixture, scanImagePath, startFakeLLMServer } from "./support/fake-llm-server";
+
+vi.mock("../server/db", () => ({
+  reserveScan: vi.fn(async () => ({ reserved: true, quota: 100 })),
+  releaseScan: vi.fn(async () => {}),
+  recordAiUsage: vi.fn(async () => {}),
+}));
+// The app's React client and native image pipeline do not load under Node;
+// the scan sends the fixture file as-is instead of a downsized copy.
+vi.mock("../lib/trpc", () => ({ trpc: {} }));
+vi.mock("../lib/image-preprocess", () => ({
+  prepareImageForAnalysis: async (imageUri: string) => readFileSync(imageUri).toString("base64"),
+}));
+
+const db = await import("../server/db");
+const { ENV } = await import("../server/_core/env");
+const { appRouter } = await import("../server/routers");
+const { AnalysisRequestError, analyzeKakeiboImage } = await import("../lib/ai-analysis");
+type AppRouter = typeof appRouter;
+type AnalysisClient = Parameters<typeof analyzeKakeiboImage>[0];
+
+const user = {
+  id: 7,
+  openId: "scan-user",
+  email: null,
+  name: null,
+  loginMethod: "manus",
+  role: "user" as const,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastSignedIn: new Date(),
+  scanQuota: null,
+};
+
+let llm: Awaited<ReturnType<typeof startFakeLLMServer>>;
+let api: Server;
+let client: AnalysisClient;
+const originalEnv = { ...ENV };
+
+// The same path the app takes: tRPC over HTTP into the analysis router, which
+// calls the LLM through invokeLLM with the scan call site's settings.
+beforeAll(async () => {
+  llm = await startFakeLLMServer();
+  Object.assign(ENV, { llmScanBaseUrl: `${llm.baseUrl}/v1`, llmScanModel: "fake-vision" });
+
+  const app = express();
+  app.use(express.json({ limit: "12mb" }));
+  app.use(
+    "/api/trpc",
+    createExpressMiddleware({ router: appRouter, createContext: ({ req, res }) => ({ req, res, user }) }),
+  );
+  api = await new Promise<Server>((resolve) => {
+    const server = app.listen(0, "127.0.0.1", () => resolve(server));
+  });
+  const { port } = api.address() as AddressInfo;
+
+  client = createTRPCClient<AppRouter>({
+    links: [httpBatchLink({ url: `http://127.0.0.1:${port}/api/trpc`, transformer: superjson })],
+  }) as unknown as AnalysisClient;
+});
+
+afterAll(async () => {
+  Object.assign(ENV, originalEnv);
+  await new Promise((resolve) => api.close(resolve));
+  await llm.close();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  llm.requests.length = 0;
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+function scan(image: string) {
+  return analyzeKakeiboImage(client, scanImagePath(image));
+}
+
+describe("scan pipeline", () => {
+  it("returns the parsed entries of a recorded notebook page", async () => {
+    llm.use(loadLLMFixture("notebook-page"));
+
+    const result = await scan("notebook-page.jpg");
+
+    expect(result.confidence).toBe(0.85);
+    expect(result.entries).toEqual([
+      {
+        date: "2026-01-04",
+        itemName: "スーパー",
+        amount: 1280,
+        suggestedCategory: "食費",
+        confidence: 0.92,
+        region: { x: 0.08, y: 0.1, width: 0.84, height: 0.15 },
+      },
+      { date: "2026-01-04", itemName: "電車代", amount: 440, suggestedCategory: "交通費", confidence: 0.88 },
+      {
+        date: "2026-01-05",
+        itemName: "ドラッグストア",
+        amount: 2035,
+        suggestedCategory: "日用品",
+        confidence: 0.45,
+        region: { x: 0.08, y: 0.52, width: 0.84, height: 0.15 },
+      },
+    ]);
+
+    const [request] = llm.requests;
+    expect(request).toMatchObject({
+      model: "fake-vision",
+      response_format: { type: "json_schema", json_schema: { name: "kakeibo_analysis", strict: true } },
+    });
+    expect(db.recordAiUsage).toHaveBeenCalledWith(user.id, expect.any(String), {
+      scans: 0,
+      promptTokens: 1450,
+      completionTokens: 210,
+    });
+  });
+
+  it("repairs truncated JSON with a second request", async () => {
+    llm.use(loadLLMFixture("smudged-page"));
+
+    const result = await scan("smudged-page.jpg");
+
+    expect(result.entries).toEqual([
+      { date: "2026-01-06", itemName: "パン", amount: 320, suggestedCategory: "食費", confidence: 0.7 },
+    ]);
+    expect(llm.requests).toHaveLength(2);
+    expect(llm.requests[1].messages).toHaveLength(3);
+  });
+
+  it("reports a page the model cannot read as invalid output", async () => {
+    llm.use(loadLLMFixture("blank-page"));
+
+    const error = await scan("blank-page.jpg").catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(AnalysisRequestError);
+    expect(error.code).toBe("INVALID_OUTPUT");
+    expect(llm.requests).toHaveLength(2);
+  });
+
+  it("reports an LLM outage as unavailable without billing the scan", async () => {
+    llm.use(loadLLMFixture("outage"));
+
+    const error = await scan("notebook-page.jpg").catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(AnalysisRequestError);
+    expect(error.code).toBe("LLM_UNAVAILABLE");
+    expect(db.recordAiUsage).not.toHaveBeenCalled();
+    expect(db.releaseScan).toHaveBeenCalledWith(user.id, expect.any(String));
+  });
+
+  it("reports the used-up quota by its kind and an invalid request as a generic failure", async () => {
+    vi.mocked(db.reserveScan).mockResolvedValueOnce({ reserved: false, quota: 30 });
+    const quota = await scan("notebook-page.jpg").catch((caught) => caught);
+    expect(quota).toBeInstanceOf(AnalysisRequestError);
+    expect(quota.code).toBe("QUOTA_EXCEEDED");
+    expect(quota.message).toContain("30回");
+
+    // Too many hints fail input validation with BAD_REQUEST, which is not a bad image.
+    const hints = Array.from({ length: 51 }, (_, i) => ({ itemName: `item${i}`, categoryName: "食費" }));
+    const invalid = await analyzeKakeiboImage(client, scanImagePath("notebook-page.jpg"), hints).catch(
+      (caught) => caught,
+    );
+    expect(invalid).toBeInstanceOf(AnalysisRequestError);
+    expect(invalid.code).toBeUndefined();
+    expect(llm.requests).toHaveLength(0);
+  });
+
+  it("rejects an empty image before calling the LLM", async () => {
+    const error = await analyzeKakeiboImage(client, "/dev/null").catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(AnalysisRequestError);
+    expect(error.code).toBe("INVALID_IMAGE");
+    expect(llm.requests).toHaveLength(0);
+  });
+});
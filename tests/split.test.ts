@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { calculateBudgetProgress } from "../lib/budget";
+import {
+  convertSplitInput,
+  distributeAmount,
+  entryUsesCategory,
+  moveEntryCategory,
+  resolveSplitInput,
+  splitEntryFields,
+  splitRemainder,
+} from "../lib/split";
+import { splitUpdateMatches } from "../shared/entry-split";
+import { calculateMonthlySummary } from "../lib/summary";
+import type { Budget, Category, KakeiboEntry } from "../types/kakeibo";
+
+const categories: Category[] = [
+  { id: "default_0", name: "食費", type: "expense", color: "#FF6B6B", createdAt: "2026-01-01T00:00:00.000Z" },
+  { id: "default_1", name: "日用品", type: "expense", color: "#4ECDC4", createdAt: "2026-01-01T00:00:00.000Z" },
+  { id: "default_8", name: "その他", type: "expense", color: "#95A5A6", createdAt: "2026-01-01T00:00:00.000Z" },
+];
+
+// A ¥5,000 supermarket trip: ¥3,000 of food and ¥2,000 of household goods.
+const supermarket: KakeiboEntry = {
+  id: "entry_1",
+  type: "expense",
+  date: "2026-03-02",
+  itemName: "スーパー",
+  amount: 5000,
+  categoryId: "default_0",
+  categoryName: "食費",
+  splits: [
+    { categoryId: "default_0", categoryName: "食費", amount: 3000 },
+    { categoryId: "default_1", categoryName: "日用品", amount: 2000 },
+  ],
+  createdAt: "2026-03-02T09:00:00.000Z",
+  updatedAt: "2026-03-02T09:00:00.000Z",
+};
+
+const bakery: KakeiboEntry = {
+  ...supermarket,
+  id: "entry_2",
+  itemName: "パン屋",
+  amount: 400,
+  splits: undefined,
+};
+
+describe("distributeAmount", () => {
+  it("splits a total by ratio and hands out the remainder by largest fraction", () => {
+    expect(distributeAmount([1, 1, 1], 100)).toEqual([34, 33, 33]);
+    expect(distributeAmount([198, 150], 375)).toEqual([213, 162]);
+    expect(distributeAmount([], 100)).toEqual([]);
+  });
+});
+
+describe("split aggregation", () => {
+  it("counts each allocation under its own category in the monthly breakdown", () => {
+    const summary = calculateMonthlySummary([supermarket, bakery], categories, 2026, 3);
+
+    expect(summary.totalAmount).toBe(5400);
+    expect(summary.entryCount).toBe(2);
+    expect(summary.categoryBreakdown.map(({ categoryId, amount }) => [categoryId, amount])).toEqual([
+      ["default_0", 3400],
+      ["default_1", 2000],
+    ]);
+  });
+
+  it("charges category budgets with the allocation only", () => {
+    const budgets: Budget[] = [null, "default_1"].map((categoryId) => ({
+      id: `budget_${categoryId}`,
+      month: "2026-03",
+      categoryId,
+      amount: 10000,
+      carryOver: false,
+      createdAt: "2026-03-01T00:00:00.000Z",
+      updatedAt: "2026-03-01T00:00:00.000Z",
+    }));
+
+    const progress = calculateBudgetProgress(budgets, [supermarket, bakery], [], "2026-03");
+
+    expect(progress.map(({ categoryId, spent }) => [categoryId, spent])).toEqual([
+      [null, 5400],
+      ["default_1", 2000],
+    ]);
+  });
+});
+
+describe("split input", () => {
+  const rows = [
+    { categoryId: "default_0", value: "60" },
+    { categoryId: "default_1", value: "40" },
+  ];
+
+  it("resolves amounts or percentages into allocations that add up to the amount", () => {
+    expect(resolveSplitInput(5000, rows, "percentage", categories)).toEqual(supermarket.splits);
+    const halves = [
+      { ...rows[0], value: "50" },
+      { ...rows[1], value: "50" },
+    ];
+    expect(resolveSplitInput(1001, halves, "percentage", categories)).toEqual([
+      { categoryId: "default_0", categoryName: "食費", amount: 501 },
+      { categoryId: "default_1", categoryName: "日用品", amount: 500 },
+    ]);
+    expect(
+      resolveSplitInput(5000, [{ ...rows[0], value: "3,000" }, { ...rows[1], value: "2000" }], "amount", categories),
+    ).toEqual(supermarket.splits);
+  });
+
+  it("rejects allocations that do not add up or repeat a category", () => {
+    expect(resolveSplitInput(5000, rows, "amount", categories)).toBeNull();
+    expect(resolveSplitInput(5000, [rows[0], { ...rows[1], value: "30" }], "percentage", categories)).toBeNull();
+    expect(resolveSplitInput(5000, [rows[0], { ...rows[0], value: "40" }], "percentage", categories)).toBeNull();
+    expect(splitRemainder(5000, [{ ...rows[0], value: "3000" }, { ...rows[1], value: "" }], "amount")).toBe(2000);
+    expect(splitRemainder(5000, [rows[0], { ...rows[1], value: "50" }], "percentage")).toBe(-10);
+  });
+
+  it("converts between amounts and percentages of the entry's amount", () => {
+    const amounts = convertSplitInput(5000, rows, "amount");
+    expect(amounts.map((row) => row.value)).toEqual(["3000", "2000"]);
+    expect(convertSplitInput(5000, amounts, "percentage").map((row) => row.value)).toEqual(["60", "40"]);
+    // Partially filled rows keep their share of the whole amount.
+    expect(
+      convertSplitInput(3000, [{ ...rows[0], value: "1000" }, { ...rows[1], value: "" }], "percentage").map(
+        (row) => row.value,
+      ),
+    ).toEqual(["33", ""]);
+  });
+});
+
+describe("splitUpdateMatches", () => {
+  const stored = { amount: 5000, splits: supermarket.splits ?? null };
+
+  it("checks a partial update against the half that is already stored", () => {
+    const shifted = [
+      { categoryId: "default_0", amount: 4000 },
+      { categoryId: "default_1", amount: 1000 },
+    ];
+    expect(splitUpdateMatches(stored, { splits: shifted })).toBe(true);
+    expect(splitUpdateMatches(stored, { splits: [shifted[0], { ...shifted[1], amount: 2000 }] })).toBe(false);
+    expect(splitUpdateMatches(stored, { amount: 6000 })).toBe(false);
+    expect(splitUpdateMatches(stored, { amount: 6000, splits: null })).toBe(true);
+    expect(splitUpdateMatches({ amount: 400, splits: null }, { amount: 600 })).toBe(true);
+  });
+});
+
+describe("split categories", () => {
+  it("keeps the largest allocation as the entry's category", () => {
+    const splits = [
+      { categoryId: "default_0", amount: 1000 },
+      { categoryId: "default_1", amount: 4000 },
+    ];
+    expect(splitEntryFields(splits)).toEqual({ categoryId: "default_1", categoryName: undefined, splits });
+    expect(splitEntryFields([splits[0]])).toEqual({
+      categoryId: "default_0",
+      categoryName: undefined,
+      splits: undefined,
+    });
+  });
+
+  it("renames and reassigns the allocations that reference a category", () => {
+    expect(entryUsesCategory(supermarket, "default_1")).toBe(true);
+    expect(entryUsesCategory(bakery, "default_1")).toBe(false);
+
+    const renamed = moveEntryCategory(supermarket, "default_1", { id: "default_1", name: "生活用品" });
+    expect(renamed.splits?.[1]).toEqual({ categoryId: "default_1", categoryName: "生活用品", amount: 2000 });
+    expect(renamed.categoryId).toBe("default_0");
+
+    // Moving 日用品 into 食費 merges the allocations, which ends the split.
+    const merged = moveEntryCategory(supermarket, "default_1", { id: "default_0", name: "食費" });
+    expect(merged).toMatchObject({ categoryId: "default_0", categoryName: "食費", splits: undefined, amount: 5000 });
+
+    const moved = moveEntryCategory(supermarket, "default_0", { id: "default_8", name: "その他" });
+    expect(moved).toMatchObject({ categoryId: "default_8", categoryName: "その他" });
+    expect(moved.splits?.map((split) => split.categoryId)).toEqual(["default_8", "default_1"]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  createDefaultCategories,
+  runMigrations,
+  type StorageData,
+} from "../lib/storage-migrations";
+import v0Fixture from "./fixtures/storage/v0.json";
+import v1Fixture from "./fixtures/storage/v1.json";
+
+const context = { now: "2026-03-01T00:00:00.000Z" };
+
+// Fixtures are raw AsyncStorage blobs, so they intentionally don't match the current types.
+function loadFixture(fixture: unknown): StorageData {
+  return structuredClone(fixture) as StorageData;
+}
+
+function migrationFor(version: number) {
+  const migration = MIGRATIONS.find((m) => m.version === version);
+  if (!migration) throw new Error(`Missing migration v${version}`);
+  return migration;
+}
+
+describe("storage migrations", () => {
+  it("numbers migrations consecutively from 1", () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual(
+      MIGRATIONS.map((_, index) => index + 1),
+    );
+    expect(CURRENT_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  describe("v1: normalize required fields", () => {
+    const result = migrationFor(1).migrate(loadFixture(v0Fixture), context);
+
+    it("drops non-object rows and fills missing ids and timestamps", () => {
+      expect(result.entries).toHaveLength(3);
+      expect(result.entries[2]).toMatchObject({
+        id: "entry_legacy_2",
+        createdAt: context.now,
+        updatedAt: context.now,
+      });
+      expect(result.entries[1].updatedAt).toBe("2026-01-05T09:30:00.000Z");
+    });
+
+    it("coerces string amounts and trims datetimes to dates", () => {
+      expect(result.entries[1]).toMatchObject({ amount: 1200, date: "2026-01-05" });
+    });
+
+    it("fills missing category color and createdAt", () => {
+      expect(result.categories[3]).toMatchObject({
+        id: "category_pet",
+        color: "#95A5A6",
+        createdAt: context.now,
+      });
+    });
+  });
+
+  describe("v2: resolve category names to ids", () => {
+    const result = migrationFor(2).migrate(loadFixture(v1Fixture), context);
+    const byId = new Map(result.entries.map((e) => [e.id, e]));
+
+    it("keeps entries that already reference a category id", () => {
+      expect(byId.get("entry_1")).toEqual(v1Fixture.entries[0]);
+    });
+
+    it("maps stored category names to the matching category", () => {
+      expect(byId.get("entry_2")).toMatchObject({ categoryId: "default_2", categoryName: "交通費" });
+    });
+
+    it("follows renamed default categories by id", () => {
+      expect(byId.get("entry_3")).toMatchObject({ categoryId: "default_0", categoryName: "食料品" });
+    });
+
+    it("falls back to その他 for unknown names", () => {
+      expect(byId.get("entry_4")).toMatchObject({ categoryId: "default_8", categoryName: "その他" });
+    });
+  });
+
+  describe("v4: add entry type and income categories", () => {
+    const v3 = migrationFor(2).migrate(loadFixture(v1Fixture), context);
+    const result = migrationFor(4).migrate(v3, context);
+
+    it("marks existing entries and categories as expenses", () => {
+      expect(result.entries.every((e) => e.type === "expense")).toBe(true);
+      expect(result.categories.slice(0, v3.categories.length).every((c) => c.type === "expense")).toBe(
+        true,
+      );
+    });
+
+    it("appends the default income categories once", () => {
+      const income = result.categories.filter((c) => c.type === "income");
+      expect(income.map((c) => c.name)).toEqual(["給与", "賞与", "副収入", "その他収入"]);
+      expect(migrationFor(4).migrate(result, context).categories).toHaveLength(result.categories.length);
+    });
+  });
+
+  describe("runMigrations", () => {
+    it("upgrades an unversioned blob to the current schema", () => {
+      const result = runMigrations(loadFixture(v0Fixture), 0, context);
+
+      expect(result.entries.map((e) => e.categoryId)).toEqual([
+        "default_0",
+        "default_2",
+        "category_pet",
+      ]);
+      expect(result.entries.every((e) => typeof e.amount === "number")).toBe(true);
+    });
+
+    it("is a no-op at the current version", () => {
+      const data = loadFixture(v1Fixture);
+      expect(runMigrations(data, CURRENT_SCHEMA_VERSION, context)).toBe(data);
+    });
+
+    it("is idempotent when re-run on migrated data", () => {
+      const once = runMigrations(loadFixture(v0Fixture), 0, context);
+      const twice = runMigrations(structuredClone(once), 0, context);
+      expect(twice).toEqual(once);
+    });
+
+    it("migrates a fresh install with default categories", () => {
+      const result = runMigrations(
+        { entries: [], categories: createDefaultCategories(context.now) },
+        0,
+        context,
+      );
+      expect(result.entries).toEqual([]);
+      expect(result.categories.map((c) => c.id)).toContain("default_8");
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { KakeiboEntry } from "../types/kakeibo";
+import { CURRENT_SCHEMA_VERSION } from "../lib/storage-migrations";
+
+const store = new Map<string, string>();
+// Number of upcoming multiSet calls that fail, to simulate a storage error mid-migration.
+let failingMultiSets = 0;
+
+// In-memory stand-in for the AsyncStorage methods lib/storage.ts uses.
+vi.mock("@react-native-async-storage/async-storage", () => ({
+  default: {
+    getItem: async (key: string) => store.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      store.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      store.delete(key);
+    },
+    getAllKeys: async () => Array.from(store.keys()),
+    multiGet: async (keys: string[]) => keys.map((key) => [key, store.get(key) ?? null]),
+    multiSet: async (pairs: [string, string][]) => {
+      if (failingMultiSets > 0) {
+        failingMultiSets--;
+        throw new Error("disk full");
+      }
+      pairs.forEach(([key, value]) => store.set(key, value));
+    },
+    multiRemove: async (keys: string[]) => {
+      keys.forEach((key) => store.delete(key));
+    },
+  },
+}));
+
+function entry(id: string, date: string, amount = 100): KakeiboEntry {
+  return {
+    id,
+    type: "expense",
+    date,
+    itemName: id,
+    amount,
+    categoryId: "default_0",
+    categoryName: "食費",
+    createdAt: `${date}T00:00:00.000Z`,
+    updatedAt: `${date}T00:00:00.000Z`,
+  };
+}
+
+// lib/storage.ts keeps its cache and migration state at module level, so load a fresh copy per test.
+async function loadStorage() {
+  vi.resetModules();
+  return import("../lib/storage");
+}
+
+describe("partitioned entry storage", () => {
+  beforeEach(() => {
+    store.clear();
+  });
+
+  it("splits a legacy single-array blob into month partitions", async () => {
+    store.set(
+      "@kakeibo_lens:entries",
+      JSON.stringify([entry("a", "2026-01-04"), entry("b", "2026-02-10"), entry("c", "2026-01-20")]),
+    );
+    const storage = await loadStorage();
+
+    await storage.ensureMigrated();
+
+    expect(store.has("@kakeibo_lens:entries")).toBe(false);
+    expect(JSON.parse(store.get("@kakeibo_lens:entries:2026-01")!).map((e: KakeiboEntry) => e.id)).toEqual([
+      "a",
+      "c",
+    ]);
+    expect(JSON.parse(store.get("@kakeibo_lens:entry_index")!)).toEqual({
+      a: "2026-01",
+      b: "2026-02",
+      c: "2026-01",
+    });
+    expect(store.get("@kakeibo_lens:schema_version")).toBe(String(CURRENT_SCHEMA_VERSION));
+  });
+
+  it("refuses to write until a failed migration succeeds, so the retry cannot drop new entries", async () => {
+    store.set("@kakeibo_lens:entries", JSON.stringify([entry("a", "2026-01-04")]));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    failingMultiSets = 2; // each of the next two writes retries the migration and fails
+    const storage = await loadStorage();
+
+    await expect(storage.addEntries([entry("b", "2026-01-05")])).rejects.toThrow("移行に失敗");
+    const pet = { id: "category_pet", name: "ペット", type: "expense" as const, color: "#000000", createdAt: "" };
+    await expect(storage.addCategory(pet)).rejects.toThrow("移行に失敗");
+    expect(store.has("@kakeibo_lens:entry_index")).toBe(false);
+
+    // The retry runs on the next write and keeps both the legacy and the new entry.
+    await storage.addEntries([entry("b", "2026-01-05")]);
+    expect((await storage.getEntriesByMonth(2026, 1)).map((e) => e.id)).toEqual(["a", "b"]);
+  });
+
+  it("writes only the affected months when adding in bulk", async () => {
+    const storage = await loadStorage();
+    await storage.addEntries([entry("a", "2026-01-04"), entry("b", "2026-03-01")]);
+    const untouched = store.get("@kakeibo_lens:entries:2026-01");
+
+    await storage.addEntries([entry("c", "2026-03-02")]);
+
+    expect(store.get("@kakeibo_lens:entries:2026-01")).toBe(untouched);
+    expect((await storage.getEntriesByMonth(2026, 3)).map((e) => e.id)).toEqual(["b", "c"]);
+  });
+
+  it("moves an entry between partitions when its date changes month", async () => {
+    const storage = await loadStorage();
+    await storage.addEntries([entry("a", "2026-01-31"), entry("b", "2026-01-02")]);
+
+    await storage.updateEntry("a", { date: "2026-02-01" });
+
+    expect((await storage.getEntriesByMonth(2026, 1)).map((e) => e.id)).toEqual(["b"]);
+    expect((await storage.getEntry("a"))?.date).toBe("2026-02-01");
+    expect(JSON.parse(store.get("@kakeibo_lens:entry_index")!).a).toBe("2026-02");
+  });
+
+  it("removes empty partitions on delete", async () => {
+    const storage = await loadStorage();
+    await storage.addEntries([entry("a", "2026-01-04")]);
+
+    await storage.deleteEntry("a");
+
+    expect(store.has("@kakeibo_lens:entries:2026-01")).toBe(false);
+    expect(await storage.loadEntries()).toEqual([]);
+  });
+
+  it("returns entries within an inclusive date range", async () => {
+    const storage = await loadStorage();
+    await storage.addEntries([
+      entry("a", "2025-12-31"),
+      entry("b", "2026-01-01"),
+      entry("c", "2026-02-28"),
+      entry("d", "2026-03-01"),
+    ]);
+
+    const result = await storage.getEntriesInRange("2026-01-01", "2026-02-28");
+
+    expect(result.map((e) => e.id)).toEqual(["b", "c"]);
+  });
+
+  it("returns the most recent entries across months, leaving undated entries last", async () => {
+    const storage = await loadStorage();
+    await storage.addEntries([
+      entry("undated", ""),
+      entry("a", "2026-01-04"),
+      entry("b", "2026-03-01"),
+      entry("c", "2026-02-15"),
+    ]);
+
+    const recent = await storage.getRecentEntries(2);
+
+    expect(recent.map((e) => e.id)).toEqual(["b", "c"]);
+  });
+
+  it("materializes due recurring entries once and does not recreate deleted ones", async () => {
+    const storage = await loadStorage();
+    await storage.upsertRecurringEntry({
+      id: "recurring_rent",
+      type: "expense",
+      itemName: "家賃",
+      amount: 80000,
+      categoryId: "default_1",
+      schedule: { kind: "monthly", dayOfMonth: 25 },
+      startDate: "2026-01-01",
+      skippedDates: [],
+      isActive: true,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    expect(await storage.materializeRecurringEntries(new Date(2026, 1, 26))).toBe(2);
+    const [january] = await storage.getEntriesByMonth(2026, 1);
+    expect(january).toMatchObject({ date: "2026-01-25", recurringId: "recurring_rent", categoryName: "日用品" });
+
+    await storage.deleteEntry(january.id);
+    expect(await storage.materializeRecurringEntries(new Date(2026, 1, 26))).toBe(0);
+    expect(await storage.materializeRecurringEntries(new Date(2026, 2, 25))).toBe(1);
+    expect((await storage.loadEntries()).map((e) => e.date)).toEqual(["2026-02-25", "2026-03-25"]);
+  });
+
+  it("requires a reassign target to delete a category that only recurring entries use", async () => {
+    const storage = await loadStorage();
+    await storage.upsertRecurringEntry({
+      id: "recurring_rent",
+      type: "expense",
+      itemName: "家賃",
+      amount: 80000,
+      categoryId: "default_1",
+      schedule: { kind: "monthly", dayOfMonth: 25 },
+      startDate: "2026-01-01",
+      skippedDates: [],
+      isActive: true,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    expect(await storage.countCategoryReferences("default_1")).toEqual({ entries: 0, recurring: 1 });
+    await expect(storage.deleteCategory("default_1")).rejects.toThrow("定期記録");
+    expect((await storage.loadCategories()).some((c) => c.id === "default_1")).toBe(true);
+
+    await storage.deleteCategory("default_1", "default_8");
+    const [rent] = await storage.loadRecurringEntries();
+    expect(rent.categoryId).toBe("default_8");
+    expect((await storage.loadCategories()).some((c) => c.id === "default_1")).toBe(false);
+  });
+});
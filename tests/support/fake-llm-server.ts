@@ -0,0 +1,110 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+
+const fixturesDir = path.resolve(__dirname, "../fixtures");
+
+/** One recorded chat-completions reply: either assistant content or an HTTP error. */
+export type RecordedReply = {
+  status?: number;
+  content?: string;
+  error?: string;
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+};
+
+/** Replies recorded for one scan image (a file in tests/fixtures/scan), in call order. */
+export type LLMFixture = {
+  image: string;
+  replies: RecordedReply[];
+};
+
+export function loadLLMFixture(name: string): LLMFixture {
+  return JSON.parse(readFileSync(path.join(fixturesDir, "llm", `${name}.json`), "utf8")) as LLMFixture;
+}
+
+export function scanImagePath(image: string): string {
+  return path.join(fixturesDir, "scan", image);
+}
+
+const hashImage = (base64: string) => createHash("sha256").update(base64).digest("hex");
+
+// The image travels as a data URL inside the first user message.
+function imageOf(body: { messages?: Array<{ content?: unknown }> }): string | undefined {
+  for (const message of body.messages ?? []) {
+    if (!Array.isArray(message.content)) continue;
+    for (const part of message.content) {
+      const url: unknown = part?.image_url?.url;
+      if (typeof url === "string") return url.slice(url.indexOf(",") + 1);
+    }
+  }
+  return undefined;
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * OpenAI-compatible chat-completions server that replays recorded fixtures.
+ * Requests are matched to a fixture by the image they carry; each match gets
+ * the fixture's next reply, so a repair attempt sees the second recording.
+ * Point invokeLLM at `${baseUrl}/v1` through the LLM_* settings.
+ */
+export async function startFakeLLMServer() {
+  const fixtures = new Map<string, { replies: RecordedReply[]; next: number }>();
+  const requests: Array<Record<string, unknown>> = [];
+
+  const server = createServer(async (req, res) => {
+    const send = (status: number, payload: unknown) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(payload));
+    };
+
+    if (req.method !== "POST" || req.url !== "/v1/chat/completions") {
+      send(404, { error: { message: `No route for ${req.method} ${req.url}` } });
+      return;
+    }
+
+    const body = await readJson(req);
+    requests.push(body);
+    const image = imageOf(body as { messages?: Array<{ content?: unknown }> });
+    const fixture = image ? fixtures.get(hashImage(image)) : undefined;
+    const reply = fixture?.replies[fixture.next++];
+    if (!reply) {
+      send(500, { error: { message: fixture ? "Fixture has no more replies" : "No fixture for this image" } });
+      return;
+    }
+    if (reply.status && reply.status >= 400) {
+      send(reply.status, { error: { message: reply.error ?? "error" } });
+      return;
+    }
+
+    send(200, {
+      id: `chatcmpl-fake-${requests.length}`,
+      object: "chat.completion",
+      created: 0,
+      model: body.model,
+      choices: [{ index: 0, message: { role: "assistant", content: reply.content ?? "" }, finish_reason: "stop" }],
+      usage: reply.usage,
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    /** Request bodies received so far, oldest first. */
+    requests,
+    /** Registers a fixture, replacing any earlier one for the same image. */
+    use(fixture: LLMFixture) {
+      const image = readFileSync(scanImagePath(fixture.image)).toString("base64");
+      fixtures.set(hashImage(image), { replies: fixture.replies, next: 0 });
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
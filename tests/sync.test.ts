@@ -0,0 +1,238 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Category, KakeiboEntry } from "../types/kakeibo";
+import {
+  mergePendingChanges,
+  mergeRemoteCategories,
+  removeSentChanges,
+  resolveRemoteRecords,
+  type PendingChange,
+} from "../lib/sync";
+
+const store = new Map<string, string>();
+
+// In-memory stand-in for the AsyncStorage methods lib/storage.ts uses.
+vi.mock("@react-native-async-storage/async-storage", () => ({
+  default: {
+    getItem: async (key: string) => store.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      store.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      store.delete(key);
+    },
+    getAllKeys: async () => Array.from(store.keys()),
+    multiGet: async (keys: string[]) => keys.map((key) => [key, store.get(key) ?? null]),
+    multiSet: async (pairs: [string, string][]) => {
+      pairs.forEach(([key, value]) => store.set(key, value));
+    },
+    multiRemove: async (keys: string[]) => {
+      keys.forEach((key) => store.delete(key));
+    },
+  },
+}));
+
+// The sync hook's React Native and auth imports do not load under Node; only runSync is exercised.
+vi.mock("react-native", () => ({ AppState: { addEventListener: vi.fn() } }));
+vi.mock("../hooks/use-auth", () => ({ useAuth: vi.fn() }));
+vi.mock("../lib/trpc", () => ({ trpc: {} }));
+
+function entry(id: string, updatedAt: string, fields: Partial<KakeiboEntry> = {}): KakeiboEntry {
+  return {
+    id,
+    type: "expense",
+    date: "2026-03-02",
+    itemName: id,
+    amount: 100,
+    categoryId: "default_0",
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt,
+    ...fields,
+  };
+}
+
+function category(id: string): Category {
+  return { id, name: id, type: "expense", color: "#FF6B6B", createdAt: "2026-03-01T00:00:00.000Z" };
+}
+
+function change(id: string, updatedAt: string, deleted = false): PendingChange {
+  return { kind: "entry", id, deleted, updatedAt };
+}
+
+describe("sync queue", () => {
+  it("keeps only the latest change per record", () => {
+    const queue = mergePendingChanges(
+      [change("a", "2026-03-01T00:00:00.000Z"), change("b", "2026-03-01T00:00:00.000Z")],
+      [change("a", "2026-03-02T00:00:00.000Z", true)],
+    );
+    expect(queue).toEqual([change("b", "2026-03-01T00:00:00.000Z"), change("a", "2026-03-02T00:00:00.000Z", true)]);
+  });
+
+  it("keeps changes made while a push was in flight", () => {
+    const sent = [change("a", "2026-03-01T00:00:00.000Z"), change("b", "2026-03-01T00:00:00.000Z")];
+    const queue = [change("a", "2026-03-01T00:00:00.000Z"), change("b", "2026-03-01T00:00:05.000Z")];
+    expect(removeSentChanges(queue, sent)).toEqual([change("b", "2026-03-01T00:00:05.000Z")]);
+  });
+});
+
+describe("resolveRemoteRecords", () => {
+  const local = new Map([
+    ["a", "2026-03-02T00:00:00.000Z"],
+    ["b", "2026-03-02T00:00:00.000Z"],
+  ]);
+
+  it("takes the newer side and skips records with unsent local changes", () => {
+    const { upserts } = resolveRemoteRecords(
+      "entry",
+      [
+        entry("a", "2026-03-01T00:00:00.000Z"),
+        entry("b", "2026-03-03T00:00:00.000Z"),
+        entry("c", "2026-03-01T00:00:00.000Z"),
+        entry("d", "2026-03-03T00:00:00.000Z"),
+      ],
+      [],
+      local,
+      [change("d", "2026-03-02T00:00:00.000Z")],
+    );
+    expect(upserts.map((e) => e.id)).toEqual(["b", "c"]);
+  });
+
+  it("applies tombstones only over older local edits", () => {
+    const { deletedIds } = resolveRemoteRecords(
+      "entry",
+      [],
+      [
+        { id: "a", deletedAt: "2026-03-01T00:00:00.000Z" },
+        { id: "b", deletedAt: "2026-03-03T00:00:00.000Z" },
+        { id: "missing", deletedAt: "2026-03-03T00:00:00.000Z" },
+      ],
+      local,
+      [],
+    );
+    expect(deletedIds).toEqual(["b"]);
+  });
+});
+
+describe("mergeRemoteCategories", () => {
+  it("moves received categories to their server position", () => {
+    const merged = mergeRemoteCategories(
+      [category("a"), category("b"), category("c")],
+      [{ ...category("d"), sortOrder: 1, updatedAt: "2026-03-02T00:00:00.000Z" }],
+      ["b"],
+    );
+    expect(merged.map((c) => c.id)).toEqual(["a", "d", "c"]);
+    expect(merged[1]).not.toHaveProperty("sortOrder");
+  });
+});
+
+describe("device store sync", () => {
+  beforeEach(() => {
+    store.clear();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  async function loadStorage() {
+    vi.resetModules();
+    return import("../lib/storage");
+  }
+
+  it("sends everything on the first sync and queues changes afterwards", async () => {
+    const storage = await loadStorage();
+    await storage.addEntries([entry("a", "2026-03-02T00:00:00.000Z")]);
+
+    const first = await storage.collectLocalChanges();
+    expect(first.outgoing.entries.map((e) => e.id)).toEqual(["a"]);
+    expect(first.outgoing.categories.length).toBeGreaterThan(0);
+    await storage.completeSync(first.changes, "2026-03-02T00:00:00.000Z");
+
+    await storage.updateEntry("a", { amount: 300 });
+    await storage.deleteCategory("default_1");
+    const next = await storage.collectLocalChanges();
+    expect(next.outgoing.entries).toEqual([expect.objectContaining({ id: "a", amount: 300 })]);
+    expect(next.outgoing.deletedCategories.map((t) => t.id)).toEqual(["default_1"]);
+
+    await storage.completeSync(next.changes, "2026-03-03T00:00:00.000Z");
+    expect((await storage.collectLocalChanges()).changes).toEqual([]);
+  });
+
+  it("applies pulled records without queueing them", async () => {
+    const storage = await loadStorage();
+    await storage.addEntries([entry("a", "2026-03-02T00:00:00.000Z"), entry("b", "2026-03-02T00:00:00.000Z")]);
+    await storage.completeSync([], null);
+
+    const applied = await storage.applyRemoteChanges({
+      entries: [entry("a", "2026-03-05T00:00:00.000Z", { date: "2026-04-01", amount: 500 })],
+      categories: [],
+      deletedEntries: [{ id: "b", deletedAt: "2026-03-05T00:00:00.000Z" }],
+      deletedCategories: [],
+    });
+
+    expect(applied).toBe(2);
+    expect(await storage.getEntriesByMonth(2026, 3)).toEqual([]);
+    expect(await storage.getEntriesByMonth(2026, 4)).toEqual([
+      expect.objectContaining({ id: "a", amount: 500 }),
+    ]);
+    expect((await storage.collectLocalChanges()).changes).toEqual([]);
+  });
+});
+
+describe("household switch", () => {
+  beforeEach(() => {
+    store.clear();
+  });
+
+  it("replaces the local ledger with the joined household's instead of pushing it there", async () => {
+    vi.resetModules();
+    const storage = await import("../lib/storage");
+    const { syncWithServer } = await import("../hooks/use-sync");
+    await storage.addEntries([entry("mine", "2026-03-02T00:00:00.000Z")]);
+    await storage.addCategory(category("category_old"));
+    await storage.completeSync([], "2026-03-02T00:00:00.000Z", 1);
+    await storage.updateEntry("mine", { amount: 300 });
+
+    // The server now places the user in household 2 and refuses changes made in household 1.
+    const at = new Date("2026-03-05T00:00:00.000Z");
+    const joined = {
+      householdId: 2,
+      cursor: at,
+      entries: [
+        {
+          ...entry("theirs", at.toISOString()),
+          categoryName: "食費",
+          note: null,
+          imageUri: null,
+          recurringId: null,
+          splits: null,
+          tags: null,
+          userId: 9,
+          createdAt: at,
+          updatedAt: at,
+          deletedAt: null,
+        },
+      ],
+      categories: [
+        {
+          ...category("default_0"),
+          name: "食費",
+          icon: null,
+          sortOrder: 0,
+          createdAt: at,
+          updatedAt: at,
+          deletedAt: null,
+        },
+      ],
+    };
+    const push = vi.fn(async (_batch: { householdId?: number }) => ({ applied: 0, householdId: 2 }));
+    const pull = vi.fn(async (_input: { since?: string }) => joined);
+    const client = { sync: { push: { mutate: push }, pull: { query: pull } } };
+
+    const result = await syncWithServer(client as never);
+
+    expect(push).toHaveBeenCalledTimes(1);
+    expect(push.mock.calls[0][0].householdId).toBe(1);
+    expect(pull).toHaveBeenLastCalledWith({});
+    expect((await storage.loadEntries()).map((e) => e.id)).toEqual(["theirs"]);
+    expect((await storage.loadCategories()).some((c) => c.id === "category_old")).toBe(false);
+    expect(result.state).toMatchObject({ householdId: 2, cursor: at.toISOString() });
+    expect((await storage.collectLocalChanges()).changes).toEqual([]);
+  });
+});
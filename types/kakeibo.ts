@@ -3,21 +3,29 @@
  */
 
 /**
- * カテゴリ（支出の分類）
+ * 記録の種別（支出・収入）
+ */
+export type EntryType = 'expense' | 'income';
+
+/**
+ * カテゴリ（支出・収入の分類）
  */
 export interface Category {
   id: string;
   name: string;
+  type: EntryType; // 支出カテゴリか収入カテゴリか
   color: string; // Hex color code
   icon?: string; // Optional icon name
   createdAt: string; // ISO 8601 date string
+  updatedAt?: string; // ISO 8601 date string（同期の競合解決に使用、以前のデータにはない）
 }
 
 /**
- * 家計簿エントリー（1つの支出項目）
+ * 家計簿エントリー（1つの支出・収入項目）
  */
 export interface KakeiboEntry {
   id: string;
+  type: EntryType; // 支出 or 収入
   date: string; // ISO 8601 date string (YYYY-MM-DD)
   itemName: string; // 項目名（摘要）
   amount: number; // 金額
@@ -25,10 +33,109 @@ export interface KakeiboEntry {
   categoryName?: string; // カテゴリ名（表示用、オプション）
   note?: string; // メモ（オプション）
   imageUri?: string; // 撮影した画像のURI（オプション）
+  recurringId?: string; // 定期記録から自動作成された場合の生成元ID
+  recordedBy?: number; // 記録したメンバーのユーザーID（世帯で共有した記録をサーバーから受信したとき）
+  splits?: EntrySplit[]; // カテゴリごとの内訳（分割した記録のみ。合計はamountと一致）
+  tags?: string[]; // タグ（自動分類ルールや編集画面で付ける）
+  createdAt: string; // ISO 8601 date string
+  updatedAt: string; // ISO 8601 date string
+}
+
+/**
+ * 分割した記録のカテゴリごとの内訳
+ * 分割した記録のcategoryIdは金額が一番大きい内訳のカテゴリ
+ */
+export interface EntrySplit {
+  categoryId: string;
+  categoryName?: string; // カテゴリ名（表示用、オプション）
+  amount: number;
+}
+
+/**
+ * 学習したカテゴリ（ユーザーが修正した項目名 → カテゴリ）
+ * スキャン結果に自動で適用し、AI解析にも過去の修正として伝える
+ */
+export interface LearnedCategory {
+  key: string; // 照合用に正規化した項目名（一意）
+  itemName: string; // 最後に修正したときの項目名（表示用）
+  categoryId: string;
+  count: number; // 同じカテゴリへ修正した回数
+  createdAt: string; // ISO 8601 date string
+  updatedAt: string; // 最後に修正した日時（ISO 8601）
+}
+
+/**
+ * 自動分類ルールの条件（指定したものをすべて満たすと一致）
+ */
+export interface EntryRuleConditions {
+  itemName?: { match: 'contains' | 'regex'; pattern: string }; // 項目名（含む / 正規表現）
+  minAmount?: number; // この金額以上
+  maxAmount?: number; // この金額以下
+  weekdays?: number[]; // 曜日（0=日曜〜6=土曜）
+}
+
+/**
+ * 自動分類ルールの動作
+ */
+export type EntryRuleAction =
+  | { kind: 'setCategory'; categoryId: string }
+  | { kind: 'addTag'; tag: string }
+  | { kind: 'setNote'; note: string };
+
+/**
+ * 自動分類ルール
+ * スキャンや定期記録で作成する記録に、優先度の高い順に適用する
+ */
+export interface EntryRule {
+  id: string;
+  name: string;
+  conditions: EntryRuleConditions;
+  actions: EntryRuleAction[];
+  priority: number; // 小さいほど先に評価する
+  isActive: boolean;
   createdAt: string; // ISO 8601 date string
   updatedAt: string; // ISO 8601 date string
 }
 
+/**
+ * 定期記録の繰り返し方
+ */
+export type RecurrenceSchedule =
+  | { kind: 'monthly'; dayOfMonth: number } // 毎月N日（月末を超える日は月末）
+  | { kind: 'yearly'; month: number; day: number } // 毎年M月D日
+  | { kind: 'weekly'; intervalWeeks: number }; // 開始日からN週ごと
+
+/**
+ * 定期記録（家賃・通信費・サブスクリプションなど）
+ * アプリ起動時に発生日を迎えた分の家計簿エントリーを自動作成する
+ */
+export interface RecurringEntry {
+  id: string;
+  type: EntryType;
+  itemName: string;
+  amount: number;
+  categoryId: string;
+  note?: string;
+  schedule: RecurrenceSchedule;
+  startDate: string; // 最初の発生日の基準（YYYY-MM-DD）
+  endDate?: string; // この日より後は作成しない（YYYY-MM-DD）
+  generatedThrough?: string; // この日までの発生分は作成済み（YYYY-MM-DD）
+  skippedDates: string[]; // 作成しない発生日（YYYY-MM-DD）
+  isActive: boolean;
+  createdAt: string; // ISO 8601 date string
+  updatedAt: string; // ISO 8601 date string
+}
+
+/**
+ * 画像内の範囲（画像の幅・高さに対する0-1の割合、左上が原点）
+ */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 /**
  * AI解析結果（GPT-4o Visionからの応答）
  */
@@ -38,18 +145,50 @@ export interface AIAnalysisResult {
     itemName: string;
     amount: number;
     suggestedCategory?: string; // AIが推測したカテゴリ名
+    confidence?: number; // この行の0-1の信頼度スコア
+    region?: ImageRegion; // この行が書かれているおおよその範囲
   }>;
-  confidence: number; // 0-1の信頼度スコア
+  confidence: number; // 0-1の信頼度スコア（ページ全体）
   rawText?: string; // OCRで抽出された生テキスト（デバッグ用）
 }
 
+/**
+ * 消費税率（8%は軽減税率）
+ */
+export type ReceiptTaxRate = 8 | 10;
+
+/**
+ * レシートの解析結果
+ */
+export interface ReceiptAnalysisResult {
+  storeName?: string; // 店名
+  date: string; // 購入日 YYYY-MM-DD
+  items: Array<{
+    name: string;
+    amount: number; // 値引き後の金額（レシートの表示どおり。税抜の場合あり）
+    taxRate?: ReceiptTaxRate;
+    suggestedCategory?: string; // AIが推測したカテゴリ名
+  }>;
+  taxes: Array<{
+    rate: ReceiptTaxRate;
+    amount: number; // この税率の対象額（税込）
+    tax: number; // うち消費税額
+  }>;
+  total: number; // 支払合計（税込）
+  confidence: number; // 0-1の信頼度スコア（レシート全体）
+}
+
 /**
  * 月次サマリー（分析画面用）
  */
 export interface MonthlySummary {
   year: number;
   month: number; // 1-12
-  totalAmount: number;
+  totalAmount: number; // 支出総額
+  totalIncome: number; // 収入総額
+  balance: number; // 収支（収入 - 支出）
+  savingsRate: number; // 貯蓄率 0-100（収入がない月は0）
+  // 支出のカテゴリ別内訳
   categoryBreakdown: Array<{
     categoryId: string;
     categoryName: string;
@@ -57,10 +196,57 @@ export interface MonthlySummary {
     amount: number;
     percentage: number; // 0-100
   }>;
-  entryCount: number;
+  entryCount: number; // 支出・収入を合わせた件数
   averageDailySpending: number;
 }
 
+/**
+ * 月間予算（categoryIdがnullなら支出全体の予算）
+ * 設定した月から、次に同じカテゴリの予算を設定した月の前月まで適用される
+ */
+export interface Budget {
+  id: string;
+  month: string; // 適用開始月（YYYY-MM）
+  categoryId: string | null; // カテゴリID（nullは全体予算）
+  amount: number; // 予算額（0は予算なし）
+  carryOver: boolean; // 前月の残額（超過分はマイナス）を繰り越すか
+  createdAt: string; // ISO 8601 date string
+  updatedAt: string; // ISO 8601 date string
+}
+
+/**
+ * 予算の進捗状況（ホーム画面用）
+ */
+export interface BudgetProgress {
+  categoryId: string | null;
+  budget: number; // 繰越額を含めた今月の予算
+  carriedOver: number; // 前月からの繰越額
+  spent: number; // 今月の支出
+  remaining: number; // 残額（超過時はマイナス）
+  ratio: number; // 消化率 0-1（1を超えると超過）
+  status: 'ok' | 'warning' | 'over';
+}
+
+/**
+ * 月次の振り返り（家計簿の4つの問い）
+ * 月初に目標を立て、月末にその月の集計をもとに振り返る
+ */
+export interface MonthlyReflection {
+  id: string;
+  month: string; // 対象月（YYYY-MM）
+  // 月初の目標
+  availableAmount?: number; // 今、いくらあるか
+  savingsGoal?: number; // いくら貯めたいか
+  // 月末の振り返り（振り返り時点のMonthlySummaryを記録）
+  totalIncome?: number; // 収入総額
+  totalSpending?: number; // いくら使ったか
+  savedAmount?: number; // 実際に貯められた額（収支）
+  improvement?: string; // どうすれば改善できるか
+  reviewedAt?: string; // 振り返りを記録した日時（ISO 8601）
+  createdAt: string; // ISO 8601 date string
+  updatedAt: string; // ISO 8601 date string
+}
+
 /**
  * 支出ハイライト（注意すべき支出）
  */
@@ -74,16 +260,68 @@ export interface SpendingHighlight {
 }
 
 /**
- * デフォルトカテゴリ
+ * デフォルトカテゴリ（支出）
  */
 export const DEFAULT_CATEGORIES: Omit<Category, 'id' | 'createdAt'>[] = [
-  { name: '食費', color: '#FF6B6B', icon: 'cart' },
-  { name: '日用品', color: '#4ECDC4', icon: 'home' },
-  { name: '交通費', color: '#45B7D1', icon: 'car' },
-  { name: '娯楽', color: '#FFA07A', icon: 'game-controller' },
-  { name: '医療費', color: '#98D8C8', icon: 'medical' },
-  { name: '教育費', color: '#F7DC6F', icon: 'book' },
-  { name: '光熱費', color: '#BB8FCE', icon: 'flash' },
-  { name: '通信費', color: '#85C1E2', icon: 'phone-portrait' },
-  { name: 'その他', color: '#95A5A6', icon: 'ellipsis-horizontal' },
+  { name: '食費', type: 'expense', color: '#FF6B6B', icon: 'cart' },
+  { name: '日用品', type: 'expense', color: '#4ECDC4', icon: 'home' },
+  { name: '交通費', type: 'expense', color: '#45B7D1', icon: 'car' },
+  { name: '娯楽', type: 'expense', color: '#FFA07A', icon: 'game-controller' },
+  { name: '医療費', type: 'expense', color: '#98D8C8', icon: 'medical' },
+  { name: '教育費', type: 'expense', color: '#F7DC6F', icon: 'book' },
+  { name: '光熱費', type: 'expense', color: '#BB8FCE', icon: 'flash' },
+  { name: '通信費', type: 'expense', color: '#85C1E2', icon: 'phone-portrait' },
+  { name: 'その他', type: 'expense', color: '#95A5A6', icon: 'ellipsis-horizontal' },
+];
+
+/**
+ * デフォルトカテゴリ（収入）
+ */
+export const DEFAULT_INCOME_CATEGORIES: Omit<Category, 'id' | 'createdAt'>[] = [
+  { name: '給与', type: 'income', color: '#2E7D32', icon: 'wallet' },
+  { name: '賞与', type: 'income', color: '#D4AF37', icon: 'gift' },
+  { name: '副収入', type: 'income', color: '#45B7D1', icon: 'briefcase' },
+  { name: 'その他収入', type: 'income', color: '#95A5A6', icon: 'ellipsis-horizontal' },
+];
+
+/**
+ * カテゴリ管理画面で選択できる色
+ */
+export const CATEGORY_COLORS: string[] = [
+  '#FF6B6B',
+  '#4ECDC4',
+  '#45B7D1',
+  '#FFA07A',
+  '#98D8C8',
+  '#F7DC6F',
+  '#BB8FCE',
+  '#85C1E2',
+  '#95A5A6',
+  '#2E7D32',
+  '#D4AF37',
+  '#E67E22',
+];
+
+/**
+ * カテゴリ管理画面で選択できるアイコン（Ioniconsの名前）
+ */
+export const CATEGORY_ICONS: string[] = [
+  'cart',
+  'home',
+  'car',
+  'game-controller',
+  'medical',
+  'book',
+  'flash',
+  'phone-portrait',
+  'restaurant',
+  'cafe',
+  'shirt',
+  'gift',
+  'paw',
+  'airplane',
+  'fitness',
+  'wallet',
+  'briefcase',
+  'ellipsis-horizontal',
 ];
@@ -0,0 +1,18 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    // Mirror the path aliases from tsconfig.json so tests can import app modules.
+    alias: {
+      "@shared": path.resolve(root, "shared"),
+      "@": root,
+    },
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+  },
+});